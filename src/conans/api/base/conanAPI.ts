@@ -1,8 +1,16 @@
+import * as vscode from "vscode";
 import { RecipeFolderOption } from "../../conan/api/conanAPI";
+import { ConanDependencyGraph } from "../../model/conanDependencyGraph";
+import { ConanIntegrityIssue } from "../../model/conanIntegrityIssue";
+import { LockfileRequireType } from "../../model/conanLockfile";
 import { ConanPackage } from "../../model/conanPackage";
 import { ConanPackageRevision } from "../../model/conanPackageRevision";
 import { ConanRecipe } from "../../model/conanRecipe";
+import { ConanRecipeRevision } from "../../model/conanRecipeRevision";
 import { ConanRemote } from "../../model/conanRemote";
+import { ConanRemoteUser } from "../../model/conanRemoteUser";
+import { ConanUploadSummary } from "../../model/conanUploadSummary";
+import { runConanProcess } from "./conanProcess";
 
 export enum ConanExecutionMode {
     python = 1,
@@ -20,17 +28,52 @@ export enum ConanExecutionMode {
  * This will be adapted in the future using file watcher instead.
  */
 export abstract class ConanAPI {
-    protected conanExecutor: string = "";
+    protected conanExecutor: Array<string> = [];
     protected pythonInterpreter: string;
     protected conanExecutable: string;
     protected conanExecutionMode: ConanExecutionMode;
+    protected processTimeout: number = 0;
+    protected processEnv: { [name: string]: string } = {};
 
     public constructor(pythonInterpreter: string, conanExecutable: string, conanExecutionMode: ConanExecutionMode) {
         this.pythonInterpreter = pythonInterpreter;
         this.conanExecutable = conanExecutable;
         this.conanExecutionMode = conanExecutionMode;
     }
-    
+
+    /**
+     * Setter method for the timeout of the conan processes
+     * @param timeout Timeout in milliseconds. The processes will not time out if this is 0.
+     */
+    public setProcessTimeout(timeout: number): void {
+        this.processTimeout = timeout;
+    }
+
+    /**
+     * Setter method for additional environment variables of the conan processes
+     * @param env Environment variables, e.g. the login credentials of the remotes
+     */
+    public setProcessEnv(env: { [name: string]: string }): void {
+        this.processEnv = env;
+    }
+
+    /**
+     * Execute a conan command asynchronously in the first workspace folder.
+     * The configured process timeout is applied to the execution.
+     * @param args Arguments of the conan command, e.g. ["remote", "list"]
+     * @param token Cancellation token to abort the running process
+     * @param env Environment variables only for this command, in addition to the environment of the conan processes
+     * @returns Promise with the standard output of the command
+     */
+    protected execute(args: Array<string>, token?: vscode.CancellationToken, env: { [name: string]: string } = {}): Promise<string> {
+        return runConanProcess(this.conanExecutor[0], [...this.conanExecutor.slice(1), ...args], {
+            cwd: vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined,
+            timeout: this.processTimeout,
+            token: token,
+            env: { ...this.processEnv, ...env }
+        });
+    }
+
     /**
      * Method to switch execution mode of conan.
      * There are two options to install and use conan, python package or alternative installation.
@@ -67,33 +110,37 @@ export abstract class ConanAPI {
     /**
      * Method to get the home folder of conan by using CLI
      * @param python
+     * @param token Cancellation token to abort the running conan process
      * @returns Path to conan home folder | undefined on error
      */
-    public abstract getConanHomePath(): string | undefined;
+    public abstract getConanHomePath(token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Method to get the path where all the profiles are located
      * This method depends on the conan home directory, which can be configured by the user.
      * @param python
+     * @param token Cancellation token to abort the running conan process
      * @returns Full path to the conan profiles directory | undefined on error
      */
-    public abstract getConanProfilesPath(): string | undefined;
+    public abstract getConanProfilesPath(token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Method to get absolute path to selected conan profile.
      * @param profileName Conan profile name
+     * @param token Cancellation token to abort the running conan process
      * @returns Absolute path to the selected conan profile | undefined on error
      */
-    public abstract getProfileFilePath(profileName: string): string | undefined;
+    public abstract getProfileFilePath(profileName: string, token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Method to get the conan recipe path in the local cache
      * To get the path in this method, we will create the path based on 
      * the folder structure pattern in the local cache, that is created by Conan.
      * @param recipe Conan recipe name
+     * @param token Cancellation token to abort the running conan process
      * @returns Absolute path to the local cache of the recipe | undefined on error
      */
-    public abstract getRecipePath(recipe: string): string | undefined;
+    public abstract getRecipePath(recipe: string, token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Method to get the specified binary package path.
@@ -102,107 +149,122 @@ export abstract class ConanAPI {
      * Required basic information is the Conan home folder. 
      * @param recipe Conan recipe name
      * @param packageId Binary package Id that belongs to the recipe
+     * @param token Cancellation token to abort the running conan process
      * @returns Absolute path to the binary package folder | undefined on error
      */
-    public abstract getPackagePath(recipe: string, packageId: string): string | undefined;
+    public abstract getPackagePath(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Method to get list of existing recipe in the local cache.
      * This method uses combination of CLI and filesystem that is provided by Conan itself.
      * We will execute one of the conan commands and write the result into a JSON file.
+     * @param token Cancellation token to abort the running conan process
      * @returns List of all recipes in the local cache
      */
-    public abstract getRecipes(): Array<ConanRecipe>;
+    public abstract getRecipes(token?: vscode.CancellationToken): Promise<Array<ConanRecipe>>;
 
     /**
      * Method to get list of existing profiles.
      * This method executes the Conan CLI and stores the result in a JSON file
+     * @param token Cancellation token to abort the running conan process
      * @returns List of all exisiting profiles
      */
-    public abstract getProfiles(): Array<string>;
+    public abstract getProfiles(token?: vscode.CancellationToken): Promise<Array<string>>;
 
     /**
      * Get list of packages from a specific recipe
      * @param recipe Recipe ID to get the packages from
+     * @param token Cancellation token to abort the running conan process
      * @returns Return will be an array of dictionary / map from JSON file
      */
-    public abstract getPackages(recipe: string): Array<ConanPackage>;
+    public abstract getPackages(recipe: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>>;
 
     /**
      * Method to get absolute path to the Conan remote json file.
      * This json file stores all the information about all the remotes information users configure
+     * @param token Cancellation token to abort the running conan process
      * @returns Absolute path to the Conan remote json file | undefined on error
      */
-    public abstract getRemoteFilePath(): string | undefined;
+    public abstract getRemoteFilePath(token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Get the list of available remotes
+     * @param token Cancellation token to abort the running conan process
      * @returns List of availabel remotes
      */
-    public abstract getRemotes(): Array<ConanRemote>;
+    public abstract getRemotes(token?: vscode.CancellationToken): Promise<Array<ConanRemote>>;
 
     /**
      * Method to remove a selected binary package from its recipe
      * @param recipe Conan recipe name
      * @param packageId Selected package Id to be removed
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract removePackage(recipe: string, packageId: string): void;
+    public abstract removePackage(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Remove a selected recipe from the local cache
      * @param recipe Conan recipe name to be removed
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract removeRecipe(recipe: string): void;
+    public abstract removeRecipe(recipe: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Remove a selected conan profile
      * To make the process quicker, we will delete the file directly from the system.
      * In this case, we don't use the Conan CLI
      * @param profile Conan profile name to be removed
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract removeProfile(profile: string): void;
+    public abstract removeProfile(profile: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Add a new remote
      * @param remote Remote name
      * @param url URL that belongs to the remote
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract addRemote(remote: string, url: string): void;
+    public abstract addRemote(remote: string, url: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Remove a selected remote from Conan
      * @param remote Remote name to be removed
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract removeRemote(remote: string): void;
+    public abstract removeRemote(remote: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Enable/disable selected remote
      * @param remote Remote name
      * @param enable State to enable or disable
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract enableRemote(remote: string, enable: boolean): void;
+    public abstract enableRemote(remote: string, enable: boolean, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Rename selected remote
      * @param remoteName Remote name to be renamed
      * @param newName New name for the remote
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract renameRemote(remoteName: string, newName: string): void;
+    public abstract renameRemote(remoteName: string, newName: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Edit URL of the selected remote
      * @param remoteName Remote name to be modified
      * @param url New URL for the selected remote
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract updateRemoteURL(remoteName: string, url: string): void;
+    public abstract updateRemoteURL(remoteName: string, url: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Rename a selected profile
      * For this method we will use the file system approach again.
      * @param oldProfileName Profile name to be renamed
      * @param newProfileName New profile name
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract renameProfile(oldProfileName: string, newProfileName: string): void;
+    public abstract renameProfile(oldProfileName: string, newProfileName: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Method to duplicate selected profile.
@@ -211,30 +273,34 @@ export abstract class ConanAPI {
      * @param oldProfileName Profile name to be duplicated
      * @param newProfileName New profile name
      * 
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract duplicateProfile(oldProfileName: string, newProfileName: string): void;
+    public abstract duplicateProfile(oldProfileName: string, newProfileName: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Create a new profile
      * @param profileName Name for the new profile
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract createNewProfile(profileName: string): void;
+    public abstract createNewProfile(profileName: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Method to retrieve recipe general information such as name, version, license and many more.
      * This method uses Conan CLI to get the recipe information and stores it in a JSON file.
      * @param recipeName Recipe name to get the information from
+     * @param token Cancellation token to abort the running conan process
      * @returns Recipe general information in JSON string format | undefined on error
      */
-    public abstract getRecipeInformation(recipeName: string): string | undefined;
+    public abstract getRecipeInformation(recipeName: string, token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Function to obtain dirty packages from a recipe
      * To search for a dirty package conan CLI cannot be used directly, therefore
      * we need to go through the file system to find files with '.dirty' extension
      * @param recipeName Recipe name to get the dirty packages from
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract getDirtyPackage(recipeName: string): Array<ConanPackage>;
+    public abstract getDirtyPackage(recipeName: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>>;
 
     /**
      * Function to obtain list of recipe of editable packages
@@ -242,15 +308,17 @@ export abstract class ConanAPI {
      * Conan only output its own text formatting for this purpose (not YAML, not JSON)
      * We are currently doing this parsing by asuming that the text that we get is ideal (kinda brute force way)
      * Fingers crossed!!!
+     * @param token Cancellation token to abort the running conan process
      * @returns List of editable list
      */
-    public abstract getEditablePackageRecipes(): Array<ConanRecipe>;
+    public abstract getEditablePackageRecipes(token?: vscode.CancellationToken): Promise<Array<ConanRecipe>>;
 
     /**
      * Method to remove a package from editable mode
      * @param recipe Package recipe name
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract removeEditablePackageRecipe(recipe: string): void;
+    public abstract removeEditablePackageRecipe(recipe: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Method to add an editable package
@@ -260,22 +328,28 @@ export abstract class ConanAPI {
      * @param channel Conan channel for the package
      * @param layout Predefined layout file for editable package (Can be a full path to the layout file) 
      *               For further information please refer to official documentation from conan.
+     *               !!! Attention - the layout is only used by Conan 1 !!!
+     * @param outputFolder Output folder for the generated files of the editable package
+     *                     !!! Attention - the output folder is only used by Conan 2 !!!
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract addEditablePackage(recipePath: string, name: string, user: string, channel: string, layout: string): void;
+    public abstract addEditablePackage(recipePath: string, name: string, user: string, channel: string, layout: string, outputFolder?: string, token?: vscode.CancellationToken): Promise<void>;
 
     /**
      * Method to extract recipe attribute from a recipe file
      * @param recipePath Path to recipe file
      * @param attribute Attribute to be extracted from the recipe
+     * @param token Cancellation token to abort the running conan process
      * @returns Attribute information in string format
      */
-    public abstract getRecipeAttribute(recipePath: string, attribute: string): string;
+    public abstract getRecipeAttribute(recipePath: string, attribute: string, token?: vscode.CancellationToken): Promise<string>;
 
     /**
      * Method to get all the recipes based on selected remote
      * @param remote Remote name to filter the source of the recipes
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract getRecipesByRemote(remote: string): Array<ConanRecipe>;
+    public abstract getRecipesByRemote(remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>>;
 
     /**
      * Open a specific path from the recipe folder
@@ -283,23 +357,26 @@ export abstract class ConanAPI {
      * For example 'build', 'dl', 'source', etc. 
      * @param recipe Recipe name
      * @param folderOption Option of the folder to be opened.
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract getFolderPathFromRecipe(recipe: string, folderOption: RecipeFolderOption): string;
+    public abstract getFolderPathFromRecipe(recipe: string, folderOption: RecipeFolderOption, token?: vscode.CancellationToken): Promise<string>;
     
     /*
      * Method to get all the binary packages from a recipe based on selected remote
      * @param recipe Recipe name to get the binary packages from
      * @param remote Remote name to filter the source of the binary packages
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract getPackagesByRemote(recipe: string, remote: string): Array<ConanPackage>;
+    public abstract getPackagesByRemote(recipe: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>>;
 
     /**
      * Method to get all the package revisions from a package ID
      * !!! Attention - this package revision only works on Conan 2 !!!
      * @param recipe Recipe name to get the binary package from
      * @param packageId Selected package Id to search package revision from
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract getPackageRevisions(recipe: string, packageId: string): Array<ConanPackageRevision>;
+    public abstract getPackageRevisions(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<Array<ConanPackageRevision>>;
 
     /**
      * Method to get the path to the package revision in the local cache
@@ -307,8 +384,9 @@ export abstract class ConanAPI {
      * @param recipe Recipe name to get the binary package from
      * @param packageId Selected package id to search for the package revision
      * @param revisionId Selected package revision id to get the path from
+     * @param token Cancellation token to abort the running conan process
      */
-    public abstract getPackageRevisionPath(recipe: string, packageId: string, revisionId: string): string | undefined;
+    public abstract getPackageRevisionPath(recipe: string, packageId: string, revisionId: string, token?: vscode.CancellationToken): Promise<string | undefined>;
 
     /**
      * Method to remove package revision
@@ -316,6 +394,158 @@ export abstract class ConanAPI {
      * @param recipe 
      * @param packageId 
      * @param revisionId 
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract removePackageRevision(recipe: string, packageId: string, revisionId: string, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to remove a single recipe revision with its binary packages
+     * The other revisions of the recipe are kept in the local cache.
+     * @param recipe Recipe reference without revision
+     * @param revisionId Recipe revision to be removed
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract removeRecipeRevision(recipe: string, revisionId: string, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to resolve the dependency graph of a recipe
+     * @param conanfilePath Path to the conanfile.py or conanfile.txt
+     * @param profile Name of the profile to resolve the graph with, default profile is used if this is empty
+     * @param args Additional arguments for the conan command, e.g. settings or options
+     * @param token Cancellation token to abort the running conan process
+     * @returns Dependency graph of the recipe
+     */
+    public abstract getDependencyGraph(conanfilePath: string, profile: string, args: Array<string>, token?: vscode.CancellationToken): Promise<ConanDependencyGraph>;
+
+    /**
+     * Method to create a lockfile from a recipe
+     * @param conanfilePath Path to the conanfile.py or conanfile.txt
+     * @param lockfileOut Path of the lockfile to be created
+     * @param profile Name of the profile to resolve the graph with, default profile is used if this is empty
+     * @param args Additional arguments for the conan command, e.g. settings or options
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract createLockfile(conanfilePath: string, lockfileOut: string, profile: string, args: Array<string>, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to pin additional references in an existing lockfile
+     * !!! Attention - this API only works for Conan 2 !!!
+     * @param lockfile Path of the lockfile to be updated
+     * @param references References to be added, e.g. 'zlib/1.2.13#revision'
+     * @param requireType Kind of the requirement of the references
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract addToLockfile(lockfile: string, references: Array<string>, requireType: LockfileRequireType, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to merge several lockfiles into one lockfile
+     * !!! Attention - this API only works for Conan 2 !!!
+     * @param lockfiles Paths of the lockfiles to be merged
+     * @param lockfileOut Path of the merged lockfile
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract mergeLockfiles(lockfiles: Array<string>, lockfileOut: string, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to search recipes on a remote
+     * @param pattern Search pattern of the recipe reference, e.g. 'zlib/*'
+     * @param remote Remote name to search on
+     * @param token Cancellation token to abort the running conan process
+     * @returns List of recipes that are available on the remote
+     */
+    public abstract searchRemote(pattern: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>>;
+
+    /**
+     * Method to get the revisions of a recipe on a remote
+     * @param recipe Recipe reference without revision
+     * @param remote Remote name to search on
+     * @param token Cancellation token to abort the running conan process
+     * @returns List of recipe revisions on the remote
+     */
+    public abstract getRemoteRecipeRevisions(recipe: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipeRevision>>;
+
+    /**
+     * Method to download a recipe with its binary packages from a remote into the local cache
+     * @param ref Recipe reference, optionally with revision
+     * @param remote Remote name to download from
+     * @param packageQuery Binary package ID or settings query, e.g. 'os=Linux AND arch=x86_64', to limit the downloaded binary packages.
+     *                     All binary packages are downloaded if this is empty.
+     * @param onlyRecipe Download only the recipe without binary packages
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract downloadReference(ref: string, remote: string, packageQuery?: string, onlyRecipe?: boolean, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to upload a recipe or a binary package from the local cache to a remote
+     * @param recipe Recipe reference
+     * @param packageId Binary package ID to upload a single package, empty string to upload the recipe
+     * @param remote Remote name to upload to
+     * @param onlyRecipe Upload only the recipe without its binary packages, this is ignored if a package ID is given
+     * @param check Check the integrity of the files before uploading them
+     * @param force Upload even if the remote already contains the same or a newer revision
+     * @param token Cancellation token to abort the running conan process
+     * @returns Summary of the uploaded and skipped references
+     */
+    public abstract uploadReference(recipe: string, packageId: string, remote: string, onlyRecipe: boolean, check: boolean, force: boolean, token?: vscode.CancellationToken): Promise<ConanUploadSummary>;
+
+    /**
+     * Method to get the users of the remotes and whether they are authenticated
+     * @param token Cancellation token to abort the running conan process
+     * @returns List of users for each remote
+     */
+    public abstract getRemoteUsers(token?: vscode.CancellationToken): Promise<Array<ConanRemoteUser>>;
+
+    /**
+     * Method to log in to a remote
+     * The credentials are passed to conan via environment variables, so they do not appear in the command line.
+     * @param remote Remote name to log in to
+     * @param user User name
+     * @param password Password or access token of the user
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract loginRemote(remote: string, user: string, password: string, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to log out from a remote and remove the authentication token of the remote
+     * @param remote Remote name to log out from
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract logoutRemote(remote: string, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to get the recipes of the local cache that are not used within the given number of days
+     * Conan 2 uses the LRU timestamps of the cache, Conan 1 the latest access time of the files in the recipe folder.
+     * @param days Number of days without usage
+     * @param token Cancellation token to abort the running conan process
+     * @returns List of unused recipes, with Conan 2 containing only the unused recipe revisions
+     */
+    public abstract getLruRecipes(days: number, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>>;
+
+    /**
+     * Method to remove the recipes with their binary packages that are not used within the given number of days
+     * @param days Number of days without usage
+     * @param pattern Pattern of the recipe references to be removed, e.g. '*' or 'zlib/*'
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract removeLruRecipes(days: number, pattern: string, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to clean the temporary and intermediate folders of the local cache with 'conan cache clean'
+     * At least one of the folders has to be selected, otherwise conan cleans all of them.
+     * @param temp Clean the temporary folders and the folders of incomplete builds
+     * @param download Clean the download folders
+     * @param build Clean the build folders
+     * @param source Clean the source folders
+     * @param token Cancellation token to abort the running conan process
+     */
+    public abstract cleanCache(temp: boolean, download: boolean, build: boolean, source: boolean, token?: vscode.CancellationToken): Promise<void>;
+
+    /**
+     * Method to check the integrity of the local cache
+     * Conan 2 uses 'conan cache check-integrity', Conan 1 compares the files of the recipes and packages with their manifests.
+     * @param pattern Pattern of the recipe references to be checked, e.g. '*' or 'zlib/*'
+     * @param token Cancellation token to abort the running conan process
+     * @returns List of corrupted recipes and packages, empty if the cache is intact
      */
-    public abstract removePackageRevision(recipe: string, packageId: string, revisionId: string): void;
+    public abstract checkIntegrity(pattern: string, token?: vscode.CancellationToken): Promise<Array<ConanIntegrityIssue>>;
 }
\ No newline at end of file
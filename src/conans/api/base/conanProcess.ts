@@ -0,0 +1,154 @@
+import { execFile } from "child_process";
+import * as vscode from "vscode";
+
+/**
+ * Maximum size of the output of a conan process.
+ * Listing a big local cache with 'conan list *#*' can easily exceed the default buffer of node.
+ */
+const MAX_BUFFER_SIZE: number = 256 * 1024 * 1024;
+
+/**
+ * Options to execute a conan process
+ */
+export interface ConanProcessOptions {
+    /** Working directory of the process */
+    cwd?: string;
+    /** Timeout of the process in milliseconds. The process will not time out if this is 0 or undefined. */
+    timeout?: number;
+    /** Cancellation token to abort the running process */
+    token?: vscode.CancellationToken;
+    /** Additional environment variables of the process, the environment of VS Code is inherited */
+    env?: { [name: string]: string };
+}
+
+/**
+ * Error that is thrown if a conan process is cancelled by the user
+ */
+export class ConanProcessCancelledError extends Error {
+    public constructor(command: string) {
+        super(`Conan process is cancelled: '${command}'`);
+        this.name = "ConanProcessCancelledError";
+    }
+}
+
+/**
+ * Error that is thrown if a conan process exceeds the configured timeout
+ */
+export class ConanProcessTimeoutError extends Error {
+    public constructor(command: string, timeout: number) {
+        super(`Conan process timed out after ${timeout / 1000} seconds: '${command}'`);
+        this.name = "ConanProcessTimeoutError";
+    }
+}
+
+/**
+ * Error that is thrown if a conan process exits with an error
+ * Besides the message it contains all the information to reproduce and investigate the failure.
+ */
+export class ConanCommandError extends Error {
+    /** Executed command line */
+    public readonly command: string;
+    /** Exit code of the process, null if the process could not be started */
+    public readonly exitCode: number | null;
+    /** Standard error output of the process */
+    public readonly stderr: string;
+    /** Message of the conan 'ERROR:' line, undefined if conan did not report any error message */
+    public readonly conanMessage: string | undefined;
+
+    public constructor(command: string, exitCode: number | null, stderr: string, message?: string) {
+        let conanMessage = ConanCommandError.parseConanMessage(stderr);
+
+        super(conanMessage ?? message ?? `Conan command failed with exit code ${exitCode}: '${command}'`);
+        this.name = "ConanCommandError";
+
+        this.command = command;
+        this.exitCode = exitCode;
+        this.stderr = stderr;
+        this.conanMessage = conanMessage;
+    }
+
+    /**
+     * Extract the error message from the conan output
+     * Conan prints the reason of a failure with the prefix 'ERROR:', the message can continue in the following lines.
+     * @param output Output of the conan process
+     * @returns Error message without prefix or undefined if the output does not contain any error message
+     */
+    public static parseConanMessage(output: string): string | undefined {
+        let lines = output.split(/\r?\n/);
+        let errorIndex = lines.findIndex(line => line.startsWith("ERROR:"));
+
+        if (errorIndex < 0) {
+            return undefined;
+        }
+
+        let messageLines = lines.slice(errorIndex);
+        messageLines[0] = messageLines[0].replace("ERROR:", "");
+
+        return messageLines.join("\n").trim();
+    }
+}
+
+/**
+ * Create a command line from the executable and its arguments, that can be copied to a terminal.
+ * Arguments with whitespace or shell characters are quoted.
+ * @param executable Path to the executable
+ * @param args List of arguments for the executable
+ * @returns Command line in string format
+ */
+export function formatCommandLine(executable: string, args: Array<string>): string {
+    return [executable, ...args]
+        .map(arg => (arg === "" || /[\s"'`$&|;<>()*?]/.test(arg)) ? `"${arg.replace(/(["\\$`])/g, "\\$1")}"` : arg)
+        .join(" ");
+}
+
+/**
+ * Execute a conan command without blocking the extension host.
+ * The executable is started directly without a shell, every argument is passed to the process as it is.
+ * The process will be killed if the timeout is reached or the cancellation is requested.
+ * @param executable Path to the executable, e.g. conan executable or python interpreter
+ * @param args List of arguments for the executable
+ * @param options Options to execute the process
+ * @returns Promise with the standard output of the process
+ */
+export function runConanProcess(executable: string, args: Array<string>, options: ConanProcessOptions = {}): Promise<string> {
+    // Only used to report the command in the error messages
+    const command = formatCommandLine(executable, args);
+
+    return new Promise<string>((resolve, reject) => {
+        if (options.token?.isCancellationRequested) {
+            return reject(new ConanProcessCancelledError(command));
+        }
+
+        let cancelled: boolean = false;
+        let cancellationListener: vscode.Disposable | undefined = undefined;
+
+        const childProcess = execFile(executable, args, {
+            cwd: options.cwd,
+            timeout: options.timeout,
+            maxBuffer: MAX_BUFFER_SIZE,
+            env: options.env ? { ...process.env, ...options.env } : undefined
+        }, (error, stdout, stderr) => {
+            cancellationListener?.dispose();
+
+            if (cancelled) {
+                reject(new ConanProcessCancelledError(command));
+            }
+            else if (error && error.killed && options.timeout) {
+                reject(new ConanProcessTimeoutError(command, options.timeout));
+            }
+            else if (error) {
+                // The code is a string, e.g. 'ENOENT', if the process could not be started at all
+                let exitCode = typeof error.code === "number" ? error.code : null;
+                reject(new ConanCommandError(command, exitCode, stderr.toString(), exitCode === null ? error.message : undefined));
+            }
+            else {
+                resolve(stdout);
+            }
+        });
+
+        cancellationListener = options.token?.onCancellationRequested(() => {
+            cancelled = true;
+            childProcess.kill();
+        });
+    });
+}
@@ -5,6 +5,8 @@ import { ConanAPI, ConanExecutionMode } from "./base/conanAPI";
 export class ConanAPIManager {
     private _conanVersion: string = "";
     private _conanApi: ConanAPI | undefined = undefined;
+    private _processTimeout: number = 0;
+    private _processEnv: { [name: string]: string } = {};
 
     public constructor(conanVersion: string = "",
         pythonInterpreter: string = "",
@@ -26,12 +28,19 @@ export class ConanAPIManager {
             this._conanApi = undefined;
             this._conanVersion = "";
         }
+
+        this._conanApi?.setProcessTimeout(this._processTimeout);
+        this._conanApi?.setProcessEnv(this._processEnv);
     }
 
     public get conanVersion(): string {
         return this._conanVersion;
     }
 
+    public get processEnv(): { [name: string]: string } {
+        return this._processEnv;
+    }
+
     public get conanApi(): ConanAPI {
         return this._conanApi!;
     }
@@ -55,4 +64,14 @@ export class ConanAPIManager {
     public switchToConanExecutableMode(conanExecutable: string): void {
         this.conanApi?.switchToConanExecutableMode(conanExecutable);
     }
+
+    public setProcessTimeout(timeout: number): void {
+        this._processTimeout = timeout;
+        this.conanApi?.setProcessTimeout(timeout);
+    }
+
+    public setProcessEnv(env: { [name: string]: string }): void {
+        this._processEnv = env;
+        this.conanApi?.setProcessEnv(env);
+    }
 }
\ No newline at end of file
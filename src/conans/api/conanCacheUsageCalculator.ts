@@ -0,0 +1,113 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as utils from '../../utils/utils';
+import { CacheUsageKind, ConanCacheUsage } from '../model/conanCacheUsage';
+import { ConanRecipe } from '../model/conanRecipe';
+import { ConanAPIManager } from './conanAPIManager';
+
+/**
+ * Class to calculate the disk usage of recipes in the local conan cache.
+ * The folders of the recipes and packages are resolved with conan, their sizes are read from the filesystem.
+ */
+export class ConanCacheUsageCalculator {
+
+    private conanApiManager: ConanAPIManager;
+
+    public constructor(conanApiManager: ConanAPIManager) {
+        this.conanApiManager = conanApiManager;
+    }
+
+    /**
+     * Calculate the disk usage of a recipe with all its revisions and binary packages
+     * @param recipe Recipe of the local cache, with Conan 2 only the given recipe revisions are counted
+     * @param token Cancellation token to abort the calculation
+     * @returns Disk usage of the recipe with its children
+     */
+    public calculateRecipeUsage(recipe: ConanRecipe, token?: vscode.CancellationToken): Promise<ConanCacheUsage> {
+        return this.conanApiManager.conanVersion === "2" ?
+            this.calculateRecipeUsageConan2(recipe, token) :
+            this.calculateRecipeUsageConan1(recipe, token);
+    }
+
+    /**
+     * Calculate the disk usage of a recipe in the Conan 1 cache.
+     * The binary packages are located inside of the recipe folder, unless they are moved with 'short_paths'.
+     */
+    private async calculateRecipeUsageConan1(recipe: ConanRecipe, token?: vscode.CancellationToken): Promise<ConanCacheUsage> {
+        let recipePath = await this.getPathSafely(() => this.conanApiManager.conanApi.getRecipePath(recipe.name, token));
+        let recipeUsage = new ConanCacheUsage(CacheUsageKind.recipe, recipe.name, recipe.name, "", "", recipePath);
+
+        recipeUsage.size = recipePath ? await utils.general.getFolderSize(recipePath, token) : 0;
+
+        for (let pkg of await this.conanApiManager.conanApi.getPackages(recipe.name, token)) {
+            let packagePath = await this.getPathSafely(() => this.conanApiManager.conanApi.getPackagePath(recipe.name, pkg.id, token));
+            let packageUsage = new ConanCacheUsage(CacheUsageKind.package, pkg.id, recipe.name, pkg.id, "", packagePath);
+
+            packageUsage.size = packagePath ? await utils.general.getFolderSize(packagePath, token) : 0;
+
+            // Packages inside of the recipe folder are already counted
+            if (!recipePath || !packagePath.startsWith(recipePath)) {
+                recipeUsage.size += packageUsage.size;
+            }
+
+            recipeUsage.children.push(packageUsage);
+        }
+
+        return recipeUsage;
+    }
+
+    /**
+     * Calculate the disk usage of a recipe in the Conan 2 cache.
+     * Every recipe revision and package revision has its own folder in the cache, that also contains its source, build and download folders.
+     * The paths returned by conan point to the export and package folders inside of it, so their parent folders are counted.
+     */
+    private async calculateRecipeUsageConan2(recipe: ConanRecipe, token?: vscode.CancellationToken): Promise<ConanCacheUsage> {
+        let recipeUsage = new ConanCacheUsage(CacheUsageKind.recipe, recipe.name, recipe.name);
+
+        for (let revision of recipe.revisions) {
+            let recipeRef = `${recipe.name}#${revision.id}`;
+
+            let exportPath = await this.getPathSafely(() => this.conanApiManager.conanApi.getRecipePath(recipeRef, token));
+            let revisionPath = exportPath ? path.dirname(exportPath) : "";
+            let revisionUsage = new ConanCacheUsage(CacheUsageKind.recipeRevision, revision.id, recipeRef, "", revision.id, revisionPath);
+
+            revisionUsage.size = revisionPath ? await utils.general.getFolderSize(revisionPath, token) : 0;
+
+            for (let pkg of await this.conanApiManager.conanApi.getPackages(recipeRef, token)) {
+                let packageUsage = new ConanCacheUsage(CacheUsageKind.package, pkg.id, recipeRef, pkg.id);
+
+                for (let packageRevision of await this.conanApiManager.conanApi.getPackageRevisions(recipeRef, pkg.id, token)) {
+                    let packagePath = await this.getPathSafely(() => this.conanApiManager.conanApi.getPackageRevisionPath(recipeRef, pkg.id, packageRevision.id, token));
+                    let packageRevisionPath = packagePath ? path.dirname(packagePath) : "";
+                    let packageRevisionUsage = new ConanCacheUsage(CacheUsageKind.packageRevision, packageRevision.id, recipeRef, pkg.id, packageRevision.id, packageRevisionPath);
+
+                    packageRevisionUsage.size = packageRevisionPath ? await utils.general.getFolderSize(packageRevisionPath, token) : 0;
+
+                    packageUsage.size += packageRevisionUsage.size;
+                    packageUsage.children.push(packageRevisionUsage);
+                }
+
+                revisionUsage.size += packageUsage.size;
+                revisionUsage.children.push(packageUsage);
+            }
+
+            recipeUsage.size += revisionUsage.size;
+            recipeUsage.children.push(revisionUsage);
+        }
+
+        return recipeUsage;
+    }
+
+    /**
+     * Resolve the path of an item in the cache, a missing path only leaves this item without size
+     */
+    private async getPathSafely(getPath: () => Promise<string | undefined>): Promise<string> {
+        try {
+            return (await getPath()) ?? "";
+        }
+        catch (err) {
+            console.log((err as Error).message);
+            return "";
+        }
+    }
+}
@@ -1,4 +1,5 @@
 import {
+    ConfigCommand,
     ConfigCommandBuild,
     ConfigCommandCreate,
     ConfigCommandInstall,
@@ -60,4 +61,30 @@ export abstract class  CommandBuilder {
      * @returns Full CLI command for 'conan export-pkg' | undefined on error
      */
     public abstract buildCommandPackageExport(wsPath: string, cfg: ConfigCommandPackageExport): Array<string> | undefined;
+
+    /**
+     * Build command for a command type of the command container
+     * @param commandType Type of the command in the command container, e.g. 'install' or 'pkgExport'
+     * @param wsPath Absolute path of conan workspace. This is needed since user can put a relative path, which means relative path to the workspace.
+     * @param cfg Command configuration of the given type
+     * @returns Conan sub command, e.g. 'export-pkg', and the full CLI command | undefined on error or unknown command type
+     */
+    public buildCommand(commandType: string, wsPath: string, cfg: ConfigCommand): [string, Array<string> | undefined] {
+        switch (commandType) {
+            case "create":
+                return ["create", this.buildCommandCreate(wsPath, cfg as ConfigCommandCreate)];
+            case "install":
+                return ["install", this.buildCommandInstall(wsPath, cfg as ConfigCommandInstall)];
+            case "build":
+                return ["build", this.buildCommandBuild(wsPath, cfg as ConfigCommandBuild)];
+            case "source":
+                return ["source", this.buildCommandSource(wsPath, cfg as ConfigCommandSource)];
+            case "pkg":
+                return ["package", this.buildCommandPackage(wsPath, cfg as ConfigCommandPackage)];
+            case "pkgExport":
+                return ["export-pkg", this.buildCommandPackageExport(wsPath, cfg as ConfigCommandPackageExport)];
+            default:
+                return [commandType, undefined];
+        }
+    }
 }
\ No newline at end of file
@@ -18,6 +18,8 @@ export class ConfigCommandCreate extends ConfigCommand {
     public user: string;
     public channel: string;
     public args: Array<string>;
+    public lockfile: string;
+    public lockfileOut: string;
 
     constructor(name: string = "create",
         description: string = "Create command",
@@ -25,13 +27,17 @@ export class ConfigCommandCreate extends ConfigCommand {
         profile: string = "default",
         user: string = "",
         channel: string = "",
-        args: Array<string> = []) {
+        args: Array<string> = [],
+        lockfile: string = "",
+        lockfileOut: string = "") {
 
         super(name, description, detail);
         this.profile = profile;
         this.user = user;
         this.channel = channel;
         this.args = args;
+        this.lockfile = lockfile;
+        this.lockfileOut = lockfileOut;
     }
 }
 
@@ -41,6 +47,8 @@ export class ConfigCommandInstall extends ConfigCommand {
     public user: string;
     public channel: string;
     public args: Array<string>;
+    public lockfile: string;
+    public lockfileOut: string;
 
     constructor(name: string = "install",
         description: string = "Install command",
@@ -49,13 +57,17 @@ export class ConfigCommandInstall extends ConfigCommand {
         profile: string = "default",
         user: string = "",
         channel: string = "",
-        args: Array<string> = []) {
+        args: Array<string> = [],
+        lockfile: string = "",
+        lockfileOut: string = "") {
         super(name, description, detail);
         this.installFolder = installFolder;
         this.profile = profile;
         this.user = user;
         this.channel = channel;
         this.args = args;
+        this.lockfile = lockfile;
+        this.lockfileOut = lockfileOut;
     }
 }
 
@@ -161,6 +173,34 @@ export class ConfigCommandPackageExport extends ConfigCommand {
     }
 }
 
+export class ConfigPipelineStep {
+    public command: string;
+    public name: string;
+
+    /**
+     * @param command Type of the command in the command container, e.g. 'install' or 'pkgExport'
+     * @param name Name of the configured command of this type
+     */
+    constructor(command: string = "install", name: string = "install") {
+        this.command = command;
+        this.name = name;
+    }
+}
+
+export class ConfigPipeline {
+    public name: string;
+    public description: string;
+    public steps: Array<ConfigPipelineStep>;
+
+    constructor(name: string = "pipeline",
+        description: string = "Pipeline",
+        steps: Array<ConfigPipelineStep> = []) {
+        this.name = name;
+        this.description = description;
+        this.steps = steps;
+    }
+}
+
 export class CommandContainer {
     public create: Array<ConfigCommandCreate>;
     public install: Array<ConfigCommandInstall>;
@@ -168,13 +208,15 @@ export class CommandContainer {
     public source: Array<ConfigCommandSource>;
     public pkg: Array<ConfigCommandPackage>;
     public pkgExport: Array<ConfigCommandPackageExport>;
+    public pipelines: Array<ConfigPipeline>;
 
     constructor(create: Array<ConfigCommandCreate> = [],
         install: Array<ConfigCommandInstall> = [],
         build: Array<ConfigCommandBuild> = [],
         source: Array<ConfigCommandSource> = [],
         pkg: Array<ConfigCommandPackage> = [],
-        pkgExport: Array<ConfigCommandPackageExport> = []) {
+        pkgExport: Array<ConfigCommandPackageExport> = [],
+        pipelines: Array<ConfigPipeline> = []) {
 
         this.create = create;
         this.install = install;
@@ -182,5 +224,6 @@ export class CommandContainer {
         this.source = source;
         this.pkg = pkg;
         this.pkgExport = pkgExport;
+        this.pipelines = pipelines;
     }
 }
\ No newline at end of file
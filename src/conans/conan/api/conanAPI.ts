@@ -1,13 +1,20 @@
-import { execSync } from "child_process";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
+import * as vscode from "vscode";
 import * as utils from "../../../utils/utils";
 import { ConanAPI, ConanExecutionMode } from "../../api/base/conanAPI";
+import { ConanDependencyGraph, ConanDependencyNode } from "../../model/conanDependencyGraph";
+import { ConanIntegrityIssue } from "../../model/conanIntegrityIssue";
+import { LockfileRequireType } from "../../model/conanLockfile";
 import { ConanPackage } from "../../model/conanPackage";
 import { ConanPackageRevision } from "../../model/conanPackageRevision";
 import { ConanRecipe } from "../../model/conanRecipe";
+import { ConanRecipeRevision } from "../../model/conanRecipeRevision";
 import { ConanRemote } from "../../model/conanRemote";
+import { ConanRemoteUser } from "../../model/conanRemoteUser";
+import { ConanUploadSummary } from "../../model/conanUploadSummary";
 
 export enum RecipeFolderOption {
     build = "build",
@@ -52,11 +59,11 @@ export class Conan1API extends ConanAPI {
     public override switchExecutionMode(mode: ConanExecutionMode) {
         switch (this.conanExecutionMode) {
             case ConanExecutionMode.python: {
-                this.conanExecutor = this.pythonInterpreter + " -m conans.conan";
+                this.conanExecutor = [this.pythonInterpreter, "-m", "conans.conan"];
                 break;
             }
             case ConanExecutionMode.conan: {
-                this.conanExecutor = this.conanExecutable;
+                this.conanExecutor = [this.conanExecutable];
                 break;
             }
         }
@@ -80,9 +87,9 @@ export class Conan1API extends ConanAPI {
         this.switchExecutionMode(ConanExecutionMode.conan);
     }
 
-    public override getConanHomePath(): string | undefined {
+    public override async getConanHomePath(token?: vscode.CancellationToken): Promise<string | undefined> {
         try {
-            let homePath = execSync(`${this.conanExecutor} config home`).toString();
+            let homePath = await this.execute(["config", "home"], token);
             return homePath.trim(); // Remove whitespace and new lines
         }
         catch (err) {
@@ -91,10 +98,10 @@ export class Conan1API extends ConanAPI {
         }
     }
 
-    public override getConanProfilesPath(): string | undefined {
+    public override async getConanProfilesPath(token?: vscode.CancellationToken): Promise<string | undefined> {
         let returnValue: string | undefined = undefined;
 
-        let conanHomePath = this.getConanHomePath();
+        let conanHomePath = await this.getConanHomePath(token);
 
         if (conanHomePath !== undefined) {
             returnValue = path.join(conanHomePath, "profiles");
@@ -103,10 +110,10 @@ export class Conan1API extends ConanAPI {
         return returnValue;
     }
 
-    public override getProfileFilePath(profileName: string): string | undefined {
+    public override async getProfileFilePath(profileName: string, token?: vscode.CancellationToken): Promise<string | undefined> {
         let returnValue: string | undefined = undefined;
 
-        let conanProfilesPath = this.getConanProfilesPath();
+        let conanProfilesPath = await this.getConanProfilesPath(token);
 
         if (conanProfilesPath !== undefined) {
             returnValue = path.join(conanProfilesPath, profileName);
@@ -115,8 +122,8 @@ export class Conan1API extends ConanAPI {
         return returnValue;
     }
 
-    public override getRecipePath(recipe: string): string | undefined {
-        let conanHome = this.getConanHomePath();
+    public override async getRecipePath(recipe: string, token?: vscode.CancellationToken): Promise<string | undefined> {
+        let conanHome = await this.getConanHomePath(token);
 
         let returnValue: string | undefined = undefined;
 
@@ -152,10 +159,10 @@ export class Conan1API extends ConanAPI {
         return returnValue;
     }
 
-    public override getPackagePath(recipe: string, packageId: string): string | undefined {
+    public override async getPackagePath(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<string | undefined> {
         let returnValue: string | undefined = undefined;
 
-        let recipePath = this.getRecipePath(recipe);
+        let recipePath = await this.getRecipePath(recipe, token);
 
         if (recipePath !== undefined) {
             let packageFolder = path.join(recipePath, "package", packageId);
@@ -175,7 +182,7 @@ export class Conan1API extends ConanAPI {
         return returnValue;
     }
 
-    public override getRecipes(): Array<ConanRecipe> {
+    public override async getRecipes(token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
         // Initialize an empty array of string as default return value
         let arrayRecipeList: Array<ConanRecipe> = [];
 
@@ -186,7 +193,7 @@ export class Conan1API extends ConanAPI {
         // We will use the VSConan home folder under user home folder
         let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
 
-        execSync(`${this.conanExecutor} search --raw --json ${jsonPath}`);
+        await this.execute(["search", "--raw", "--json", jsonPath], token);
 
         // Check if the file exists
         // With this check it validates if the conan command executed correctly without error
@@ -239,7 +246,7 @@ export class Conan1API extends ConanAPI {
         return arrayRecipeList;
     }
 
-    public override getProfiles(): Array<string> {
+    public override async getProfiles(token?: vscode.CancellationToken): Promise<Array<string>> {
 
         let arrayProfileList: Array<string> = [];
 
@@ -247,7 +254,7 @@ export class Conan1API extends ConanAPI {
 
         let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
 
-        execSync(`${this.conanExecutor} profile list --json ${jsonPath}`);
+        await this.execute(["profile", "list", "--json", jsonPath], token);
 
         if (fs.existsSync(jsonPath)) {
             let tempFile = fs.readFileSync(jsonPath, 'utf8');
@@ -264,7 +271,7 @@ export class Conan1API extends ConanAPI {
         return arrayProfileList;
     }
 
-    public override getPackages(recipe: string): Array<ConanPackage> {
+    public override async getPackages(recipe: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>> {
         let arrayPackageList: Array<ConanPackage> = [];
 
         // This if condition is meant to empty the list
@@ -286,7 +293,7 @@ export class Conan1API extends ConanAPI {
                 recipeName = recipe;
             }
 
-            execSync(`${this.conanExecutor} search ${recipeName} --json ${jsonPath}`);
+            await this.execute(["search", recipeName, "--json", jsonPath], token);
 
             // Check if the file exists
             // With this check it validates if the conan command executed correctly without error
@@ -320,8 +327,8 @@ export class Conan1API extends ConanAPI {
         }
     }
 
-    public override getRemoteFilePath(): string | undefined {
-        let conanHomePath = this.getConanHomePath();
+    public override async getRemoteFilePath(token?: vscode.CancellationToken): Promise<string | undefined> {
+        let conanHomePath = await this.getConanHomePath(token);
 
         let remotePath = undefined;
 
@@ -332,10 +339,10 @@ export class Conan1API extends ConanAPI {
         return remotePath;
     }
 
-    public override getRemotes(): Array<ConanRemote> {
+    public override async getRemotes(token?: vscode.CancellationToken): Promise<Array<ConanRemote>> {
         let arrayRemoteList: Array<ConanRemote> = [];
 
-        let conanHomePath = this.getConanHomePath();
+        let conanHomePath = await this.getConanHomePath(token);
 
         if (conanHomePath === undefined) {
             throw new Error("Unable to locate Conan home folder.");
@@ -357,16 +364,16 @@ export class Conan1API extends ConanAPI {
         return arrayRemoteList;
     }
 
-    public override removePackage(recipe: string, packageId: string) {
-        execSync(`${this.conanExecutor} remove ${recipe} -p ${packageId} -f`);
+    public override async removePackage(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remove", recipe, "-p", packageId, "-f"], token);
     }
 
-    public override removeRecipe(recipe: string) {
-        execSync(`${this.conanExecutor} remove ${recipe} -f`);
+    public override async removeRecipe(recipe: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remove", recipe, "-f"], token);
     }
 
-    public override removeProfile(profile: string) {
-        let conanProfilesPath = this.getConanProfilesPath();
+    public override async removeProfile(profile: string, token?: vscode.CancellationToken): Promise<void> {
+        let conanProfilesPath = await this.getConanProfilesPath(token);
 
         if (conanProfilesPath === undefined) {
             throw new Error("Unable to locate Conan profiles folder.");
@@ -377,59 +384,59 @@ export class Conan1API extends ConanAPI {
         fs.unlinkSync(profileFilePath);
     }
 
-    public override addRemote(remote: string, url: string) {
-        execSync(`${this.conanExecutor} remote add ${remote} ${url}`);
+    public override async addRemote(remote: string, url: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "add", remote, url], token);
     }
 
-    public override removeRemote(remote: string) {
-        execSync(`${this.conanExecutor} remote remove ${remote}`);
+    public override async removeRemote(remote: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "remove", remote], token);
     }
 
-    public override enableRemote(remote: string, enable: boolean) {
+    public override async enableRemote(remote: string, enable: boolean, token?: vscode.CancellationToken): Promise<void> {
         if (enable) {
-            execSync(`${this.conanExecutor} remote enable ${remote}`);
+            await this.execute(["remote", "enable", remote], token);
         }
         else {
-            execSync(`${this.conanExecutor} remote disable ${remote}`);
+            await this.execute(["remote", "disable", remote], token);
         }
     }
 
-    public override renameRemote(remoteName: string, newName: string) {
-        execSync(`${this.conanExecutor} remote rename ${remoteName} ${newName}`);
+    public override async renameRemote(remoteName: string, newName: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "rename", remoteName, newName], token);
     }
 
-    public override updateRemoteURL(remoteName: string, url: string) {
-        execSync(`${this.conanExecutor} remote update ${remoteName} ${url}`);
+    public override async updateRemoteURL(remoteName: string, url: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "update", remoteName, url], token);
     }
 
-    public override renameProfile(oldProfileName: string, newProfileName: string) {
+    public override async renameProfile(oldProfileName: string, newProfileName: string, token?: vscode.CancellationToken): Promise<void> {
         // Get the absolute path to the selected profile
-        let oldProfilePath = this.getProfileFilePath(oldProfileName);
+        let oldProfilePath = await this.getProfileFilePath(oldProfileName, token);
 
         if (oldProfilePath) {
-            fs.renameSync(oldProfilePath, path.join(this.getConanProfilesPath()!, newProfileName));
+            fs.renameSync(oldProfilePath, path.join((await this.getConanProfilesPath(token))!, newProfileName));
         }
         else {
             throw new Error(`Unable to locate profile ${oldProfileName}`);
         }
     }
 
-    public override duplicateProfile(oldProfileName: string, newProfileName: string) {
-        let oldProfilePath = this.getProfileFilePath(oldProfileName);
+    public override async duplicateProfile(oldProfileName: string, newProfileName: string, token?: vscode.CancellationToken): Promise<void> {
+        let oldProfilePath = await this.getProfileFilePath(oldProfileName, token);
 
         if (oldProfileName) {
-            fs.copyFileSync(oldProfilePath!, path.join(this.getConanProfilesPath()!, newProfileName));
+            fs.copyFileSync(oldProfilePath!, path.join((await this.getConanProfilesPath(token))!, newProfileName));
         }
         else {
             throw new Error(`Unable to duplicate profile ${oldProfileName}`);
         }
     }
 
-    public override createNewProfile(profileName: string) {
-        execSync(`${this.conanExecutor} profile new  ${profileName}`);
+    public override async createNewProfile(profileName: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["profile", "new", profileName], token);
     }
 
-    public override getRecipeInformation(recipeName: string): string | undefined {
+    public override async getRecipeInformation(recipeName: string, token?: vscode.CancellationToken): Promise<string | undefined> {
         let recipeInfo: string | undefined = undefined;
 
         // Temporary file name to store the result of command execution
@@ -437,7 +444,7 @@ export class Conan1API extends ConanAPI {
 
         let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
 
-        execSync(`${this.conanExecutor} inspect ${recipeName} --json ${jsonPath}`);
+        await this.execute(["inspect", recipeName, "--json", jsonPath], token);
 
         // Check if the file exists
         // With this check it validates if the conan command executed correctly without error
@@ -457,11 +464,11 @@ export class Conan1API extends ConanAPI {
         return recipeInfo;
     }
 
-    public override getDirtyPackage(recipeName: string): Array<ConanPackage> {
+    public override async getDirtyPackage(recipeName: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>> {
         let dirtyPackageList: Array<ConanPackage> = [];
 
         // Get the recipePath
-        let recipePath = this.getRecipePath(recipeName);
+        let recipePath = await this.getRecipePath(recipeName, token);
 
         if (recipePath) {
             let recipePackagePath = path.join(recipePath!, "package");
@@ -483,17 +490,10 @@ export class Conan1API extends ConanAPI {
         }
     }
 
-    public override getEditablePackageRecipes(): Array<ConanRecipe> {
+    public override async getEditablePackageRecipes(token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
         let conanEditableRecipeList: Array<ConanRecipe> = [];
 
-        let jsonName: string = "editable_package.txt";
-
-        let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
-
-        execSync(`${this.conanExecutor} editable list > ${jsonPath}`);
-        // let foo = execSync(`${this.conanExecutor} editable list`).toString();
-
-        let tempFile = fs.readFileSync(jsonPath, 'utf8').toString();
+        let tempFile = await this.execute(["editable", "list"], token);
 
         let stringList = [];
 
@@ -525,22 +525,22 @@ export class Conan1API extends ConanAPI {
         return conanEditableRecipeList;
     }
 
-    public override removeEditablePackageRecipe(recipe: string) {
-        execSync(`${this.conanExecutor} editable remove ${recipe}`);
+    public override async removeEditablePackageRecipe(recipe: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["editable", "remove", recipe], token);
     }
 
-    public override addEditablePackage(recipePath: string, name: string, user: string, channel: string, layout: string) {
+    public override async addEditablePackage(recipePath: string, name: string, user: string, channel: string, layout: string, outputFolder: string = "", token?: vscode.CancellationToken): Promise<void> {
         let recipeName: string = name;
 
         if (user !== "" && channel !== "") {
             recipeName = recipeName + `@${user}/${channel}`;
         }
 
-        execSync(`${this.conanExecutor} editable add ${recipePath} ${recipeName} --layout "${layout}"`);
+        await this.execute(["editable", "add", recipePath, recipeName, "--layout", layout], token);
     }
 
-    public override getRecipeAttribute(recipePath: string, attribute: string) {
-        let res = execSync(`${this.conanExecutor} inspect ${recipePath} --raw ${attribute}`).toString();
+    public override async getRecipeAttribute(recipePath: string, attribute: string, token?: vscode.CancellationToken): Promise<string> {
+        let res = await this.execute(["inspect", recipePath, "--raw", attribute], token);
 
         let stringList = [];
 
@@ -553,11 +553,11 @@ export class Conan1API extends ConanAPI {
         return stringList[0];
     }
 
-    public override getRecipesByRemote(remote: string): Array<ConanRecipe> {
+    public override async getRecipesByRemote(remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
         let listOfRecipes: Array<ConanRecipe> = [];
 
         // Execute the conan remote `list_ref` to get list of recipe with associated remote
-        let res = execSync(`${this.conanExecutor} remote list_ref`).toString();
+        let res = await this.execute(["remote", "list_ref"], token);
 
         let stringList = [];
 
@@ -584,8 +584,8 @@ export class Conan1API extends ConanAPI {
         return listOfRecipes;
     }
 
-    public override getFolderPathFromRecipe(recipe: string, folderOption: RecipeFolderOption): string {
-        let recipePath = this.getRecipePath(recipe);
+    public override async getFolderPathFromRecipe(recipe: string, folderOption: RecipeFolderOption, token?: vscode.CancellationToken): Promise<string> {
+        let recipePath = await this.getRecipePath(recipe, token);
 
         let returnValue = "";
 
@@ -608,7 +608,7 @@ export class Conan1API extends ConanAPI {
         return returnValue;
     }
     
-    public override getPackagesByRemote(recipe: string, remote: string): Array<ConanPackage> {
+    public override async getPackagesByRemote(recipe: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>> {
         let listOfPackages: Array<ConanPackage> = [];
 
         if (recipe === "") {
@@ -616,7 +616,7 @@ export class Conan1API extends ConanAPI {
         }
         else {
             // Execute the conan remote `list_ref` to get list of recipe with associated remote
-            let res = execSync(`${this.conanExecutor} remote list_pref ${recipe}`).toString();
+            let res = await this.execute(["remote", "list_pref", recipe], token);
 
             let stringList = [];
 
@@ -645,19 +645,361 @@ export class Conan1API extends ConanAPI {
         }
     }
 
-    public override getPackageRevisions(recipe: string, packageId: string): Array<ConanPackageRevision> {
+    public override async getPackageRevisions(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<Array<ConanPackageRevision>> {
         // DO NOTHING
 
         return [];
     }
 
-    public getPackageRevisionPath(recipe: string, packageId: string, revisionId: string): string | undefined {
+    public async getPackageRevisionPath(recipe: string, packageId: string, revisionId: string, token?: vscode.CancellationToken): Promise<string | undefined> {
         // DO NOTHING
         return undefined;
     }
 
-    public removePackageRevision(recipe: string, packageId: string, revisionId: string): void {
+    public async removePackageRevision(recipe: string, packageId: string, revisionId: string, token?: vscode.CancellationToken): Promise<void> {
         // DO NOTHING
     }
-    
+
+    public override async removeRecipeRevision(recipe: string, revisionId: string, token?: vscode.CancellationToken): Promise<void> {
+        // Conan 1 needs the '@' to interpret a reference without user and channel as reference, the revision follows the '@'
+        await this.execute(["remove", `${recipe.includes("@") ? recipe : `${recipe}@`}#${revisionId}`, "-f"], token);
+    }
+
+    public override async getDependencyGraph(conanfilePath: string, profile: string, args: Array<string>, token?: vscode.CancellationToken): Promise<ConanDependencyGraph> {
+        let graph = new ConanDependencyGraph();
+
+        // Temporary file name to store the result of command execution
+        let jsonName: string = "dependencyGraph.json";
+
+        let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
+
+        let cmd: Array<string> = ["info", conanfilePath, "--json", jsonPath];
+
+        if (profile) {
+            cmd.push("-pr", profile);
+        }
+
+        cmd.push.apply(cmd, args);
+
+        await this.execute(cmd, token);
+
+        if (fs.existsSync(jsonPath)) {
+            let tempFile = fs.readFileSync(jsonPath, 'utf8');
+            let graphJson = JSON.parse(tempFile);
+
+            // Conan 1 refers the nodes by their reference, the consumer has the conanfile as reference
+            for (let item of graphJson) {
+                let requires: Array<string> = [];
+                requires.push.apply(requires, item["requires"] ?? []);
+                requires.push.apply(requires, item["build_requires"] ?? []);
+
+                graph.nodes.set(item["reference"], new ConanDependencyNode(item["reference"], item["display_name"] ?? item["reference"], item["revision"] ?? "", item["binary"] ?? "", item["context"] ?? "host", requires));
+
+                if (!item["is_ref"]) {
+                    graph.rootId = item["reference"];
+                }
+            }
+
+            // Delete the temporary file after processing
+            fs.unlinkSync(jsonPath);
+        }
+
+        return graph;
+    }
+
+    public override async createLockfile(conanfilePath: string, lockfileOut: string, profile: string, args: Array<string>, token?: vscode.CancellationToken): Promise<void> {
+        let cmd: Array<string> = ["lock", "create", conanfilePath, "--lockfile-out", lockfileOut];
+
+        if (profile) {
+            cmd.push("-pr", profile);
+        }
+
+        cmd.push.apply(cmd, args);
+
+        await this.execute(cmd, token);
+    }
+
+    public override async addToLockfile(lockfile: string, references: Array<string>, requireType: LockfileRequireType, token?: vscode.CancellationToken): Promise<void> {
+        throw new Error("Adding references to a lockfile is only supported with Conan 2.");
+    }
+
+    public override async mergeLockfiles(lockfiles: Array<string>, lockfileOut: string, token?: vscode.CancellationToken): Promise<void> {
+        throw new Error("Merging lockfiles is only supported with Conan 2.");
+    }
+
+    public override async searchRemote(pattern: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
+        let listOfRecipes: Array<ConanRecipe> = [];
+
+        // Temporary file name to store the result of command execution
+        let jsonName: string = "remoteSearch.json";
+
+        let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
+
+        await this.execute(["search", pattern, "-r", remote, "--raw", "--json", jsonPath], token);
+
+        if (fs.existsSync(jsonPath)) {
+            let tempFile = fs.readFileSync(jsonPath, 'utf8');
+            let searchJson = JSON.parse(tempFile);
+
+            for (let result of searchJson.results ?? []) {
+                for (let item of result.items ?? []) {
+                    listOfRecipes.push(new ConanRecipe(item.recipe.id, false));
+                }
+            }
+
+            // Delete the temporary file after processing
+            fs.unlinkSync(jsonPath);
+        }
+
+        return listOfRecipes;
+    }
+
+    public override async getRemoteRecipeRevisions(recipe: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipeRevision>> {
+        let listOfRecipeRevisions: Array<ConanRecipeRevision> = [];
+
+        // Temporary file name to store the result of command execution
+        let jsonName: string = "remoteRevisions.json";
+
+        let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
+
+        // Conan 1 needs the '@' to interpret a reference without user and channel as reference and not as pattern
+        let recipeName: string = recipe.includes("@") ? recipe : `${recipe}@`;
+
+        await this.execute(["search", recipeName, "-r", remote, "--revisions", "--raw", "--json", jsonPath], token);
+
+        if (fs.existsSync(jsonPath)) {
+            let tempFile = fs.readFileSync(jsonPath, 'utf8');
+
+            // Example of the JSON format: [{"revision": "f1fadf0d3b196dc0332750354ad8ab7b", "time": "2021-07-22T14:36:50.405+0000"}]
+            for (let revision of JSON.parse(tempFile)) {
+                listOfRecipeRevisions.push(new ConanRecipeRevision(revision.revision, Date.parse(revision.time) / 1000));
+            }
+
+            // Delete the temporary file after processing
+            fs.unlinkSync(jsonPath);
+        }
+
+        return listOfRecipeRevisions;
+    }
+
+    public override async downloadReference(ref: string, remote: string, packageQuery: string = "", onlyRecipe: boolean = false, token?: vscode.CancellationToken): Promise<void> {
+        // Conan 1 needs the '@' to interpret a reference without user and channel as reference, the revision follows the '@'
+        let [recipeName, revision] = ref.split("#");
+        recipeName = recipeName.includes("@") ? recipeName : `${recipeName}@`;
+
+        let cmd: Array<string> = ["download", revision ? `${recipeName}#${revision}` : recipeName, "-r", remote];
+
+        if (onlyRecipe) {
+            cmd.push("--recipe");
+        }
+        else if (utils.conan.isPackageId(packageQuery)) {
+            cmd.push("-p", packageQuery);
+        }
+        else if (packageQuery) {
+            throw new Error("Downloading binary packages by a settings query is only supported with Conan 2, please enter a package ID.");
+        }
+
+        await this.execute(cmd, token);
+    }
+
+    public override async uploadReference(recipe: string, packageId: string, remote: string, onlyRecipe: boolean, check: boolean, force: boolean, token?: vscode.CancellationToken): Promise<ConanUploadSummary> {
+        let summary = new ConanUploadSummary();
+
+        // Temporary file name to store the result of command execution
+        let jsonName: string = "upload.json";
+
+        let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
+
+        // Conan 1 needs the '@' to interpret a reference without user and channel as reference
+        let cmd: Array<string> = ["upload", recipe.includes("@") ? recipe : `${recipe}@`, "-r", remote, "--confirm", "--json", jsonPath];
+
+        if (packageId) {
+            cmd.push("-p", packageId);
+        }
+        else if (!onlyRecipe) {
+            cmd.push("--all");
+        }
+
+        if (check) {
+            cmd.push("--check");
+        }
+
+        if (force) {
+            cmd.push("--force");
+        }
+
+        await this.execute(cmd, token);
+
+        if (fs.existsSync(jsonPath)) {
+            let tempFile = fs.readFileSync(jsonPath, 'utf8');
+            let uploadJson = JSON.parse(tempFile);
+
+            // Conan 1 lists every processed reference as uploaded, it does not report the skipped ones
+            for (let item of uploadJson["uploaded"] ?? []) {
+                summary.uploaded.push(item["recipe"]["id"]);
+
+                for (let pkg of item["packages"] ?? []) {
+                    summary.uploaded.push(`${item["recipe"]["id"]}:${pkg["id"]}`);
+                }
+            }
+
+            // Delete the temporary file after processing
+            fs.unlinkSync(jsonPath);
+        }
+
+        return summary;
+    }
+
+    public override async getRemoteUsers(token?: vscode.CancellationToken): Promise<Array<ConanRemoteUser>> {
+        let listOfRemoteUsers: Array<ConanRemoteUser> = [];
+
+        // Temporary file name to store the result of command execution
+        let jsonName: string = "remoteUsers.json";
+
+        let jsonPath: string = path.join(utils.vsconan.getVSConanHomeDirTemp(), jsonName);
+
+        await this.execute(["user", "--json", jsonPath], token);
+
+        if (fs.existsSync(jsonPath)) {
+            let tempFile = fs.readFileSync(jsonPath, 'utf8');
+            let userJson = JSON.parse(tempFile);
+
+            for (let remoteUser of userJson["remotes"] ?? []) {
+                listOfRemoteUsers.push(new ConanRemoteUser(remoteUser["name"], remoteUser["user_name"] ?? "", remoteUser["authenticated"] === true));
+            }
+
+            // Delete the temporary file after processing
+            fs.unlinkSync(jsonPath);
+        }
+
+        return listOfRemoteUsers;
+    }
+
+    public override async loginRemote(remote: string, user: string, password: string, token?: vscode.CancellationToken): Promise<void> {
+        // Without a value for '-p' conan requests the password, which is read from the environment variables
+        await this.execute(["user", user, "-r", remote, "-p"], token, utils.conan.getRemoteCredentialEnv(remote, user, password));
+    }
+
+    public override async logoutRemote(remote: string, token?: vscode.CancellationToken): Promise<void> {
+        // Setting the user 'None' removes the user and the authentication token of the remote
+        await this.execute(["user", "None", "-r", remote], token);
+    }
+
+    public override async getLruRecipes(days: number, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
+        // Conan 1 does not track the usage of the cache, the access time of the files is the best guess
+        let limit = Date.now() - days * 24 * 60 * 60 * 1000;
+        let lruRecipes: Array<ConanRecipe> = [];
+
+        for (let recipe of await this.getRecipes(token)) {
+            if (recipe.editable) {
+                continue;
+            }
+
+            let recipePath = await this.getRecipePath(recipe.name, token);
+
+            if (recipePath && await utils.general.getLatestAccessTime(recipePath, token) < limit) {
+                lruRecipes.push(recipe);
+            }
+        }
+
+        return lruRecipes;
+    }
+
+    public override async removeLruRecipes(days: number, pattern: string, token?: vscode.CancellationToken): Promise<void> {
+        for (let recipe of await this.getLruRecipes(days, token)) {
+            if (utils.conan.matchReferencePattern(recipe.name, pattern)) {
+                await this.removeRecipe(recipe.name, token);
+            }
+        }
+    }
+
+    public override async cleanCache(temp: boolean, download: boolean, build: boolean, source: boolean, token?: vscode.CancellationToken): Promise<void> {
+        throw new Error("Cleaning the cache with 'conan cache clean' is only supported with Conan 2.");
+    }
+
+    public override async checkIntegrity(pattern: string, token?: vscode.CancellationToken): Promise<Array<ConanIntegrityIssue>> {
+        let issueList: Array<ConanIntegrityIssue> = [];
+
+        for (let recipe of await this.getRecipes(token)) {
+            if (recipe.editable || !utils.conan.matchReferencePattern(recipe.name, pattern)) {
+                continue;
+            }
+
+            let recipePath = await this.getRecipePath(recipe.name, token);
+
+            if (!recipePath) {
+                continue;
+            }
+
+            for (let message of await this.checkManifest(path.join(recipePath, RecipeFolderOption.export))) {
+                issueList.push(new ConanIntegrityIssue(recipe.name, "", "", "", message));
+            }
+
+            for (let pkg of await this.getPackages(recipe.name, token)) {
+                let packagePath = await this.getPackagePath(recipe.name, pkg.id, token);
+
+                if (!packagePath) {
+                    continue;
+                }
+
+                for (let message of await this.checkManifest(packagePath)) {
+                    issueList.push(new ConanIntegrityIssue(recipe.name, "", pkg.id, "", message));
+                }
+            }
+        }
+
+        return issueList;
+    }
+
+    /**
+     * Compare the files of a cache folder with the checksums of its 'conanmanifest.txt'
+     * The first line of the manifest contains the timestamp, each following line a file with its MD5 checksum.
+     * Files of the exported sources are listed with the prefix 'export_source/' and located next to the export folder.
+     * @param folderPath Export folder of a recipe or package folder of a binary package
+     * @returns List of failures, empty if the folder matches its manifest
+     */
+    private async checkManifest(folderPath: string): Promise<Array<string>> {
+        let manifest: string;
+
+        try {
+            manifest = await fs.promises.readFile(path.join(folderPath, "conanmanifest.txt"), "utf8");
+        }
+        catch {
+            return ["Manifest is missing"];
+        }
+
+        let failureList: Array<string> = [];
+
+        for (let line of manifest.split(/\r?\n/).slice(1)) {
+            let separatorIndex = line.lastIndexOf(": ");
+
+            if (separatorIndex < 0) {
+                continue;
+            }
+
+            let fileName = line.substring(0, separatorIndex);
+            let checksum = line.substring(separatorIndex + 2).trim();
+            let filePath = fileName.startsWith(`${RecipeFolderOption.exportSource}/`) ?
+                path.join(path.dirname(folderPath), fileName) :
+                path.join(folderPath, fileName);
+
+            try {
+                // Symbolic links are not followed, their target is checked on its own
+                if ((await fs.promises.lstat(filePath)).isSymbolicLink()) {
+                    continue;
+                }
+
+                let content = await fs.promises.readFile(filePath);
+
+                if (crypto.createHash("md5").update(content).digest("hex") !== checksum) {
+                    failureList.push(`File '${fileName}' does not match the manifest`);
+                }
+            }
+            catch {
+                failureList.push(`File '${fileName}' is missing`);
+            }
+        }
+
+        return failureList;
+    }
 }
\ No newline at end of file
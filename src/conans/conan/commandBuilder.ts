@@ -37,6 +37,14 @@ export class CommandBuilderConan1 extends CommandBuilder {
             cmd.push.apply(cmd, ["-pr", cfg.profile]);
         }
 
+        if (cfg.lockfile !== "" && cfg.lockfile !== undefined) {
+            cmd.push.apply(cmd, ["--lockfile", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfile)]);
+        }
+
+        if (cfg.lockfileOut !== "" && cfg.lockfileOut !== undefined) {
+            cmd.push.apply(cmd, ["--lockfile-out", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfileOut)]);
+        }
+
         // Push additional arguments that user can define
         cmd.push.apply(cmd, cfg.args);
 
@@ -63,6 +71,14 @@ export class CommandBuilderConan1 extends CommandBuilder {
             cmd.push.apply(cmd, ["-pr", cfg.profile]);
         }
 
+        if (cfg.lockfile !== "" && cfg.lockfile !== undefined) {
+            cmd.push.apply(cmd, ["--lockfile", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfile)]);
+        }
+
+        if (cfg.lockfileOut !== "" && cfg.lockfileOut !== undefined) {
+            cmd.push.apply(cmd, ["--lockfile-out", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfileOut)]);
+        }
+
         if (cfg.installFolder !== "" && cfg.installFolder !== undefined) {
             cmd.push.apply(cmd, ["-if", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.installFolder)]);
         }
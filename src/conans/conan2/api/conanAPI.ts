@@ -1,14 +1,48 @@
-import { execSync } from "child_process";
 import * as fs from "fs";
-import * as vscode from 'vscode';
+import * as vscode from "vscode";
+import * as utils from "../../../utils/utils";
 import { ConanAPI, ConanExecutionMode } from "../../api/base/conanAPI";
+import { ConanCommandError } from "../../api/base/conanProcess";
 import { RecipeFolderOption } from "../../conan/api/conanAPI";
+import { ConanDependencyGraph, ConanDependencyNode } from "../../model/conanDependencyGraph";
+import { ConanIntegrityIssue } from "../../model/conanIntegrityIssue";
+import { LockfileRequireType } from "../../model/conanLockfile";
 import { ConanPackage } from "../../model/conanPackage";
 import { ConanPackageRevision } from "../../model/conanPackageRevision";
 import { ConanRecipe } from "../../model/conanRecipe";
+import { ConanRecipeRevision } from "../../model/conanRecipeRevision";
 import { ConanRemote } from "../../model/conanRemote";
+import { ConanRemoteUser } from "../../model/conanRemoteUser";
+import { ConanUploadSummary } from "../../model/conanUploadSummary";
 import path = require("path");
 
+/**
+ * Narrow a value of the JSON output of conan to an object
+ * @param value Value of the parsed JSON output
+ * @returns Value as object | empty object if the value is no object
+ */
+function asJsonObject(value: unknown): Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * References of a remote in the JSON output of 'conan list <pattern> -r <remote> --format json'
+ */
+interface ConanListReferences {
+    [recipe: string]: {
+        revisions?: {
+            [revision: string]: {
+                timestamp?: number;
+                packages?: {
+                    [packageId: string]: {
+                        info?: object;
+                    };
+                };
+            };
+        };
+    };
+}
+
 export class Conan2API extends ConanAPI {
 
     public constructor(pythonInterpreter: string, conanExecutable: string, conanExecutionMode: ConanExecutionMode) {
@@ -19,11 +53,11 @@ export class Conan2API extends ConanAPI {
     public override switchExecutionMode(mode: ConanExecutionMode): void {
         switch (this.conanExecutionMode) {
             case ConanExecutionMode.python: {
-                this.conanExecutor = this.pythonInterpreter + " -m conans.conan";
+                this.conanExecutor = [this.pythonInterpreter, "-m", "conans.conan"];
                 break;
             }
             case ConanExecutionMode.conan: {
-                this.conanExecutor = this.conanExecutable;
+                this.conanExecutor = [this.conanExecutable];
                 break;
             }
         }
@@ -47,10 +81,9 @@ export class Conan2API extends ConanAPI {
         this.switchExecutionMode(ConanExecutionMode.conan);
     }
 
-    public override getConanHomePath(): string | undefined {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
+    public override async getConanHomePath(token?: vscode.CancellationToken): Promise<string | undefined> {
         try {
-            let homePath = execSync(`${this.conanExecutor} config home`, options).toString();
+            let homePath = await this.execute(["config", "home"], token);
             return homePath.trim(); // Remove whitespace and new lines
         }
         catch (err) {
@@ -58,10 +91,10 @@ export class Conan2API extends ConanAPI {
             return undefined;
         }
     }
-    public override getConanProfilesPath(): string | undefined {
+    public override async getConanProfilesPath(token?: vscode.CancellationToken): Promise<string | undefined> {
         let returnValue: string | undefined = undefined;
 
-        let conanHomePath = this.getConanHomePath();
+        let conanHomePath = await this.getConanHomePath(token);
 
         if (conanHomePath !== undefined) {
             returnValue = path.join(conanHomePath, "profiles");
@@ -70,10 +103,10 @@ export class Conan2API extends ConanAPI {
         return returnValue;
     }
 
-    public override getProfileFilePath(profileName: string): string | undefined {
+    public override async getProfileFilePath(profileName: string, token?: vscode.CancellationToken): Promise<string | undefined> {
         let returnValue: string | undefined = undefined;
 
-        let conanProfilesPath = this.getConanProfilesPath();
+        let conanProfilesPath = await this.getConanProfilesPath(token);
 
         if (conanProfilesPath !== undefined) {
             returnValue = path.join(conanProfilesPath, profileName);
@@ -82,35 +115,25 @@ export class Conan2API extends ConanAPI {
         return returnValue;
     }
 
-    public override getRecipePath(recipe: string): string | undefined {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        let recipePath = execSync(`${this.conanExecutor} cache path ${recipe}`, options).toString().trim();
+    public override async getRecipePath(recipe: string, token?: vscode.CancellationToken): Promise<string | undefined> {
+        let recipePath = (await this.execute(["cache", "path", recipe], token)).trim();
 
         return recipePath;
     }
 
-    public override getPackagePath(recipe: string, packageId: string): string | undefined {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        let packagePath = execSync(`${this.conanExecutor} cache path ${recipe}:${packageId}`, options).toString().trim();
+    public override async getPackagePath(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<string | undefined> {
+        let packagePath = (await this.execute(["cache", "path", `${recipe}:${packageId}`], token)).trim();
 
         return packagePath;
     }
 
-    public override getRecipes(): Array<ConanRecipe> {
+    public override async getRecipes(token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
         let listOfRecipes: Array<ConanRecipe> = [];
 
         try {
-            const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-            let jsonStdout = execSync(`${this.conanExecutor} list *#* --format json`, options);
-            let jsonObject = JSON.parse(jsonStdout.toString());
-
-            let localCache = jsonObject["Local Cache"];
+            let jsonStdout = await this.execute(["list", "*#*", "--format", "json"], token);
 
-            for (let recipe in localCache) {
-                for (let rev in localCache[recipe].revisions) {
-                    listOfRecipes.push(new ConanRecipe(`${recipe}#${rev}`, false));
-                }
-            }
+            listOfRecipes = this.parseRecipeList(jsonStdout);
         }
         catch (err) {
             console.log((err as Error).message);
@@ -120,11 +143,46 @@ export class Conan2API extends ConanAPI {
         return listOfRecipes;
     }
 
-    public override getProfiles(): string[] {
+    public override async getLruRecipes(days: number, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
+        let jsonStdout = await this.execute(["list", "*#*", `--lru=${days}d`, "--format", "json"], token);
+
+        // Recipes whose revisions are all used recently are listed without revisions
+        return this.parseRecipeList(jsonStdout).filter(recipe => recipe.revisions.length > 0);
+    }
+
+    public override async removeLruRecipes(days: number, pattern: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remove", pattern, `--lru=${days}d`, "-c"], token);
+    }
+
+    /**
+     * Parse the recipes with their recipe revisions from the JSON output of 'conan list'
+     * @param jsonStdout JSON output of 'conan list <pattern>#*'
+     * @returns List of recipes, the revisions are sorted with the latest revision first
+     */
+    private parseRecipeList(jsonStdout: string): Array<ConanRecipe> {
+        let listOfRecipes: Array<ConanRecipe> = [];
+        let localCache = JSON.parse(jsonStdout.toString())["Local Cache"] ?? {};
+
+        for (let recipe in localCache) {
+            let revisions: Array<ConanRecipeRevision> = [];
+
+            for (let rev in localCache[recipe].revisions) {
+                revisions.push(new ConanRecipeRevision(rev, localCache[recipe].revisions[rev]["timestamp"]));
+            }
+
+            // Latest revision first
+            revisions.sort((a, b) => b.timestamp - a.timestamp);
+
+            listOfRecipes.push(new ConanRecipe(recipe, false, "", new Map<string, ConanPackage>(), revisions));
+        }
+
+        return listOfRecipes;
+    }
+
+    public override async getProfiles(token?: vscode.CancellationToken): Promise<Array<string>> {
 
         try {
-            const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-            let stdout = execSync(`${this.conanExecutor} profile list --format json`, options);
+            let stdout = await this.execute(["profile", "list", "--format", "json"], token);
             let jsonObject = JSON.parse(stdout.toString());
             return jsonObject;
         }
@@ -134,13 +192,12 @@ export class Conan2API extends ConanAPI {
         }
     }
 
-    public override getPackages(recipe: string): ConanPackage[] {
+    public override async getPackages(recipe: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>> {
         let listOfPackages: Array<ConanPackage> = [];
 
         try {
             if (recipe) {
-                const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-                let jsonStdout = execSync(`${this.conanExecutor} list ${recipe}:* --format json`, options);
+                let jsonStdout = await this.execute(["list", `${recipe}:*`, "--format", "json"], token);
                 let jsonObject = JSON.parse(jsonStdout.toString());
 
                 let recipeRevisionSplit = recipe.split("#");
@@ -171,8 +228,8 @@ export class Conan2API extends ConanAPI {
         return listOfPackages;
     }
 
-    public override getRemoteFilePath(): string | undefined {
-        let conanHomePath = this.getConanHomePath();
+    public override async getRemoteFilePath(token?: vscode.CancellationToken): Promise<string | undefined> {
+        let conanHomePath = await this.getConanHomePath(token);
 
         let remotePath = undefined;
 
@@ -183,10 +240,10 @@ export class Conan2API extends ConanAPI {
         return remotePath;
     }
 
-    public override getRemotes(): ConanRemote[] {
+    public override async getRemotes(token?: vscode.CancellationToken): Promise<Array<ConanRemote>> {
         let arrayRemoteList: Array<ConanRemote> = [];
 
-        let conanHomePath = this.getConanHomePath();
+        let conanHomePath = await this.getConanHomePath(token);
 
         if (conanHomePath === undefined) {
             throw new Error("Unable to locate Conan home folder.");
@@ -208,18 +265,16 @@ export class Conan2API extends ConanAPI {
         return arrayRemoteList;
     }
 
-    public override removePackage(recipe: string, packageId: string): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        execSync(`${this.conanExecutor} remove ${recipe}:${packageId} -c`, options);
+    public override async removePackage(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remove", `${recipe}:${packageId}`, "-c"], token);
     }
 
-    public override removeRecipe(recipe: string): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        execSync(`${this.conanExecutor} remove ${recipe} -c`, options);
+    public override async removeRecipe(recipe: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remove", recipe, "-c"], token);
     }
 
-    public override removeProfile(profile: string): void {
-        let conanProfilesPath = this.getConanProfilesPath();
+    public override async removeProfile(profile: string, token?: vscode.CancellationToken): Promise<void> {
+        let conanProfilesPath = await this.getConanProfilesPath(token);
 
         if (conanProfilesPath === undefined) {
             throw new Error("Unable to locate Conan profiles folder.");
@@ -230,61 +285,56 @@ export class Conan2API extends ConanAPI {
         fs.unlinkSync(profileFilePath);
     }
 
-    public override addRemote(remote: string, url: string): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        execSync(`${this.conanExecutor} remote add ${remote} ${url}`, options);
+    public override async addRemote(remote: string, url: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "add", remote, url], token);
     }
 
-    public override removeRemote(remote: string): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        execSync(`${this.conanExecutor} remote remove ${remote}`, options);
+    public override async removeRemote(remote: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "remove", remote], token);
     }
 
-    public override enableRemote(remote: string, enable: boolean): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
+    public override async enableRemote(remote: string, enable: boolean, token?: vscode.CancellationToken): Promise<void> {
         if (enable) {
-            execSync(`${this.conanExecutor} remote enable ${remote}`, options);
+            await this.execute(["remote", "enable", remote], token);
         }
         else {
-            execSync(`${this.conanExecutor} remote disable ${remote}`, options);
+            await this.execute(["remote", "disable", remote], token);
         }
     }
 
-    public override renameRemote(remoteName: string, newName: string): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        execSync(`${this.conanExecutor} remote rename ${remoteName} ${newName}`, options);
+    public override async renameRemote(remoteName: string, newName: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "rename", remoteName, newName], token);
     }
 
-    public override updateRemoteURL(remoteName: string, url: string): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        execSync(`${this.conanExecutor} remote update ${remoteName} --url ${url}`, options);
+    public override async updateRemoteURL(remoteName: string, url: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "update", remoteName, "--url", url], token);
     }
 
-    public override renameProfile(oldProfileName: string, newProfileName: string): void {
+    public override async renameProfile(oldProfileName: string, newProfileName: string, token?: vscode.CancellationToken): Promise<void> {
         // Get the absolute path to the selected profile
-        let oldProfilePath = this.getProfileFilePath(oldProfileName);
+        let oldProfilePath = await this.getProfileFilePath(oldProfileName, token);
 
         if (oldProfilePath) {
-            fs.renameSync(oldProfilePath, path.join(this.getConanProfilesPath()!, newProfileName));
+            fs.renameSync(oldProfilePath, path.join((await this.getConanProfilesPath(token))!, newProfileName));
         }
         else {
             throw new Error(`Unable to locate profile ${oldProfileName}`);
         }
     }
 
-    public override duplicateProfile(oldProfileName: string, newProfileName: string): void {
-        let oldProfilePath = this.getProfileFilePath(oldProfileName);
+    public override async duplicateProfile(oldProfileName: string, newProfileName: string, token?: vscode.CancellationToken): Promise<void> {
+        let oldProfilePath = await this.getProfileFilePath(oldProfileName, token);
 
         if (oldProfileName) {
-            fs.copyFileSync(oldProfilePath!, path.join(this.getConanProfilesPath()!, newProfileName));
+            fs.copyFileSync(oldProfilePath!, path.join((await this.getConanProfilesPath(token))!, newProfileName));
         }
         else {
             throw new Error(`Unable to duplicate profile ${oldProfileName}`);
         }
     }
 
-    public override createNewProfile(profileName: string): void {
-        let conanProfilesPath = this.getConanProfilesPath();
+    public override async createNewProfile(profileName: string, token?: vscode.CancellationToken): Promise<void> {
+        let conanProfilesPath = await this.getConanProfilesPath(token);
 
         if (conanProfilesPath === undefined) {
             throw new Error("Unable to locate Conan profiles folder.");
@@ -295,51 +345,271 @@ export class Conan2API extends ConanAPI {
         fs.writeFileSync(path.join(conanProfilesPath, profileName), emptyProfileContent);
     }
 
-    public override getRecipeInformation(recipeName: string): string | undefined {
-        throw new Error("Method not implemented.");
+    public override async getRecipeInformation(recipeName: string, token?: vscode.CancellationToken): Promise<string | undefined> {
+        let recipeInfo: string | undefined = undefined;
+
+        // Conan 2 can only inspect a recipe file, not a reference
+        // For the recipe in the local cache, the recipe file is located in the export folder
+        let recipeFilePath: string = recipeName;
+        let isCacheRecipe: boolean = !fs.existsSync(recipeName);
+
+        if (isCacheRecipe) {
+            let exportPath = (await this.execute(["cache", "path", recipeName], token)).trim();
+            recipeFilePath = path.join(exportPath, "conanfile.py");
+        }
+
+        let inspectJson = asJsonObject(JSON.parse(await this.execute(["inspect", recipeFilePath, "--format", "json"], token)));
+
+        // Only take the general information of the recipe, that is also shown by conan 1
+        let recipeAttributes: Array<string> = ["name", "version", "user", "channel", "license", "author", "url", "homepage",
+            "description", "topics", "options", "default_options", "settings"];
+
+        let recipeInfoJson: Record<string, unknown> = {};
+
+        for (let attribute of recipeAttributes) {
+            recipeInfoJson[attribute] = inspectJson[attribute];
+        }
+
+        if (isCacheRecipe) {
+            // Revisions are not part of the recipe file, they are obtained from the local cache
+            let recipeReference = recipeName.split("#")[0];
+            let listJson = asJsonObject(JSON.parse(await this.execute(["list", `${recipeReference}#*`, "--format", "json"], token)));
+
+            let revisionObjects = asJsonObject(asJsonObject(asJsonObject(listJson["Local Cache"])[recipeReference])["revisions"]);
+
+            let revisions: Array<object> = [];
+
+            for (let revisionId in revisionObjects) {
+                revisions.push({
+                    "revision": revisionId,
+                    "timestamp": asJsonObject(revisionObjects[revisionId])["timestamp"]
+                });
+            }
+
+            recipeInfoJson["revisions"] = revisions;
+        }
+
+        // Beautify the json identation in the same way as conan 1
+        recipeInfo = JSON.stringify(recipeInfoJson, null, 4);
+
+        return recipeInfo;
     }
 
-    public override getDirtyPackage(recipeName: string): ConanPackage[] {
-        throw new Error("Method not implemented.");
+    public override async getDirtyPackage(recipeName: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>> {
+        // Packages whose creation has been interrupted are flagged with a '.dirty' file next to their package folder.
+        // Builds that failed before their package is registered are not listed by Conan, so they cannot be assigned to the recipe revision.
+        let packageList = await Promise.all((await this.getPackages(recipeName, token)).map(async pkg => {
+            for (let packageRevision of await this.getPackageRevisions(recipeName, pkg.id, token)) {
+                let packagePath = await this.getPackageRevisionPath(recipeName, pkg.id, packageRevision.id, token);
+
+                if (packagePath && fs.existsSync(`${packagePath}.dirty`)) {
+                    return new ConanPackage(pkg.id, true, {}, false, {}, {}, path.dirname(packagePath));
+                }
+            }
+
+            return undefined;
+        }));
+
+        return packageList.filter((pkg): pkg is ConanPackage => pkg !== undefined);
     }
 
-    public override getEditablePackageRecipes(): ConanRecipe[] {
-        // TODO: Implementation
-        return [];
+    public override async getEditablePackageRecipes(token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
+        let listOfEditableRecipes: Array<ConanRecipe> = [];
+
+        try {
+            let jsonStdout = await this.execute(["editable", "list", "--format", "json"], token);
+
+            // Example of the JSON format looks as following
+            // {
+            //   "foo/1.0.0@user/channel": {
+            //     "path": "/home/user/workspace/foo/conanfile.py",
+            //     "output_folder": null
+            //   }
+            // }
+            let jsonObject = JSON.parse(jsonStdout.toString());
+
+            for (let recipe in jsonObject) {
+                listOfEditableRecipes.push(new ConanRecipe(recipe, true, jsonObject[recipe].path));
+            }
+        }
+        catch (err) {
+            console.log((err as Error).message);
+            listOfEditableRecipes = [];
+        }
+
+        return listOfEditableRecipes;
     }
 
-    public override removeEditablePackageRecipe(recipe: string): void {
-        throw new Error("Method not implemented.");
+    public override async removeEditablePackageRecipe(recipe: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["editable", "remove", "--refs", recipe], token);
     }
 
-    public override addEditablePackage(recipePath: string, name: string, user: string, channel: string, layout: string): void {
-        throw new Error("Method not implemented.");
+    public override async addEditablePackage(recipePath: string, name: string, user: string, channel: string, layout: string, outputFolder: string = "", token?: vscode.CancellationToken): Promise<void> {
+        // Conan 2 does not take the reference as positional argument anymore
+        // The name in this case has the format of "foo/1.0.0", so it needs to be split into name and version
+        let cmd: Array<string> = ["editable", "add", recipePath];
+
+        let recipeName = name.split("/")[0];
+        let recipeVersion = name.split("/")[1];
+
+        if (recipeName) { cmd.push.apply(cmd, ["--name", recipeName]); }
+
+        if (recipeVersion) { cmd.push.apply(cmd, ["--version", recipeVersion]); }
+
+        if (user !== "" && channel !== "") {
+            cmd.push.apply(cmd, ["--user", user]);
+            cmd.push.apply(cmd, ["--channel", channel]);
+        }
+
+        // NOTE: Layout argument is ignored in conan 2, the layout is defined in the recipe itself
+        if (outputFolder) { cmd.push.apply(cmd, ["--output-folder", outputFolder]); }
+
+        await this.execute(cmd, token);
     }
 
-    public override getRecipeAttribute(recipePath: string, attribute: string): string {
-        throw new Error("Method not implemented.");
+    public override async getRecipeAttribute(recipePath: string, attribute: string, token?: vscode.CancellationToken): Promise<string> {
+        let jsonStdout = await this.execute(["inspect", recipePath, "--format", "json"], token);
+        let jsonObject = JSON.parse(jsonStdout.toString());
+
+        let attributeValue = jsonObject[attribute];
+
+        if (attributeValue === undefined || attributeValue === null) {
+            return "";
+        }
+        else if (typeof attributeValue === "string") {
+            return attributeValue;
+        }
+        else {
+            return JSON.stringify(attributeValue);
+        }
     }
 
-    public override getRecipesByRemote(remote: string): ConanRecipe[] {
-        // TODO: Implementation
-        return [];
+    public override async getRecipesByRemote(remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
+        // Conan 2 does not keep track of the remote a recipe was downloaded from.
+        // The remote is asked for the recipe revisions of the local cache instead, once per recipe name to cover all versions.
+        let listOfRecipes: Array<ConanRecipe> = [];
+        let localRecipes = await this.getRecipes(token);
+
+        let recipeNames = new Set(localRecipes.map(recipe => recipe.name.split("/")[0]));
+
+        let remoteRecipes: ConanListReferences = {};
+
+        for (let recipeName of recipeNames) {
+            Object.assign(remoteRecipes, await this.listRemoteReferences(`${recipeName}/*#*`, remote, token));
+        }
+
+        for (let recipe of localRecipes) {
+            let remoteRevisions = remoteRecipes[recipe.name]?.revisions ?? {};
+
+            // Only the revisions that exist on the remote are shown
+            let revisions = recipe.revisions.filter(revision => revision.id in remoteRevisions);
+
+            if (revisions.length > 0) {
+                listOfRecipes.push(new ConanRecipe(recipe.name, false, "", new Map<string, ConanPackage>(), revisions));
+            }
+        }
+
+        return listOfRecipes;
     }
 
-    public override getFolderPathFromRecipe(recipe: string, folderOption: RecipeFolderOption): string {
-        throw new Error("Method not implemented.");
+    public override async getFolderPathFromRecipe(recipe: string, folderOption: RecipeFolderOption, token?: vscode.CancellationToken): Promise<string> {
+        let cmd: Array<string> = ["cache", "path", recipe];
+
+        switch (folderOption) {
+            case RecipeFolderOption.export:
+                // The export folder is the default folder of a recipe reference
+                break;
+            case RecipeFolderOption.exportSource:
+            case RecipeFolderOption.source:
+                cmd.push("--folder", folderOption);
+                break;
+            case RecipeFolderOption.build:
+                // Conan 2 has a build folder per binary package, so the reference has to contain the package ID
+                if (!recipe.includes(":")) {
+                    throw new Error(`The build folder of '${recipe}' requires a binary package, e.g. '${recipe}:<package_id>'.`);
+                }
+
+                cmd.push("--folder", folderOption);
+                break;
+            default:
+                throw new Error(`The folder '${folderOption}' is not available with Conan 2.`);
+        }
+
+        let folderPath = (await this.execute(cmd, token)).trim();
+
+        return fs.existsSync(folderPath) ? folderPath : "";
     }
 
-    public override getPackagesByRemote(recipe: string, remote: string): ConanPackage[] {
-        throw new Error("Method not implemented.");
+    public override async getPackagesByRemote(recipe: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanPackage>> {
+        if (recipe === "") {
+            return [];
+        }
+
+        let localPackages = await this.getPackages(recipe, token);
+
+        if (localPackages.length === 0) {
+            return [];
+        }
+
+        let remoteRecipes = await this.listRemoteReferences(`${recipe}:*`, remote, token);
+        let remotePackageIds = new Set<string>();
+
+        // Without recipe revision conan resolves the latest revision of the remote
+        for (let recipeName in remoteRecipes) {
+            let revisionObjects = remoteRecipes[recipeName].revisions ?? {};
+
+            for (let revisionId in revisionObjects) {
+                for (let packageId in revisionObjects[revisionId].packages ?? {}) {
+                    remotePackageIds.add(packageId);
+                }
+            }
+        }
+
+        return localPackages.filter(pkg => remotePackageIds.has(pkg.id));
     }
 
-    public override getPackageRevisions(recipe: string, packageId: string): Array<ConanPackageRevision> {
+    /**
+     * List the references of a remote matching a pattern
+     * @param pattern Pattern of 'conan list', e.g. 'zlib/*#*' or 'zlib/1.3#rrev:*'
+     * @param remote Name of the remote
+     * @param token Cancellation token to abort the running conan process
+     * @returns JSON object of the references found on the remote, empty if nothing matches the pattern
+     */
+    private async listRemoteReferences(pattern: string, remote: string, token?: vscode.CancellationToken): Promise<ConanListReferences> {
+        let jsonStdout: string;
+
+        try {
+            jsonStdout = await this.execute(["list", pattern, "-r", remote, "--format", "json"], token);
+        }
+        catch (err) {
+            if (err instanceof ConanCommandError && /not found/i.test(err.stderr)) {
+                return {};
+            }
+
+            throw err;
+        }
+
+        let remoteObject = asJsonObject(asJsonObject(JSON.parse(jsonStdout.toString()))[remote]);
+        let error = remoteObject["error"];
+
+        if (typeof error === "string") {
+            // A reference that is not available on the remote is reported as error as well
+            if (/not found/i.test(error)) {
+                return {};
+            }
+
+            throw new Error(error);
+        }
+
+        return remoteObject as ConanListReferences;
+    }
+
+    public override async getPackageRevisions(recipe: string, packageId: string, token?: vscode.CancellationToken): Promise<Array<ConanPackageRevision>> {
         let listOfPackageRevisions: Array<ConanPackageRevision> = [];
 
         try {
             if (recipe && packageId) {
-                const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-                let jsonStdout = execSync(`${this.conanExecutor} list ${recipe}:${packageId}#* --format json`, options);
+                let jsonStdout = await this.execute(["list", `${recipe}:${packageId}#*`, "--format", "json"], token);
                 let jsonObject = JSON.parse(jsonStdout.toString());
 
                 let recipeRevisionSplit = recipe.split("#");
@@ -367,12 +637,11 @@ export class Conan2API extends ConanAPI {
         return listOfPackageRevisions;
     }
 
-    public override getPackageRevisionPath(recipe: string, packageId: string, revisionId: string): string | undefined {
+    public override async getPackageRevisionPath(recipe: string, packageId: string, revisionId: string, token?: vscode.CancellationToken): Promise<string | undefined> {
         let packageRevisionPath: string | undefined = undefined;
 
         try {
-            const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-            packageRevisionPath = execSync(`${this.conanExecutor} cache path ${recipe}:${packageId}#${revisionId}`, options).toString().trim();
+            packageRevisionPath = (await this.execute(["cache", "path", `${recipe}:${packageId}#${revisionId}`], token)).trim();
         }
         catch (err) {
             console.log((err as Error).message);
@@ -381,8 +650,252 @@ export class Conan2API extends ConanAPI {
         return packageRevisionPath;
     }
 
-    public removePackageRevision(recipe: string, packageId: string, revisionId: string): void {
-        const options = { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
-        execSync(`${this.conanExecutor} remove ${recipe}:${packageId}#${revisionId} -c`, options);
+    public async removePackageRevision(recipe: string, packageId: string, revisionId: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remove", `${recipe}:${packageId}#${revisionId}`, "-c"], token);
+    }
+
+    public override async removeRecipeRevision(recipe: string, revisionId: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remove", `${recipe}#${revisionId}`, "-c"], token);
+    }
+
+    public override async getDependencyGraph(conanfilePath: string, profile: string, args: Array<string>, token?: vscode.CancellationToken): Promise<ConanDependencyGraph> {
+        let cmd: Array<string> = ["graph", "info", conanfilePath, "--format", "json"];
+
+        if (profile) {
+            cmd.push("-pr", profile);
+        }
+
+        cmd.push.apply(cmd, args);
+
+        let jsonStdout = await this.execute(cmd, token);
+        let graphObject = JSON.parse(jsonStdout.toString())["graph"];
+
+        let nodes = new Map<string, ConanDependencyNode>();
+
+        for (let nodeId in graphObject["nodes"]) {
+            let node = graphObject["nodes"][nodeId];
+
+            // The consumer of the graph has no real reference, e.g. 'conanfile', so its label is used instead
+            let ref: string = (node["ref"] && node["ref"].includes("/")) ? node["ref"].split("#")[0] : (node["label"] ?? node["ref"] ?? "");
+
+            let requires: Array<string> = [];
+
+            for (let dependencyId in node["dependencies"] ?? {}) {
+                if (node["dependencies"][dependencyId]["direct"]) {
+                    requires.push(dependencyId);
+                }
+            }
+
+            nodes.set(nodeId, new ConanDependencyNode(nodeId, ref, node["rrev"] ?? "", node["binary"] ?? "", node["context"] ?? "host", requires));
+        }
+
+        let rootId: string = graphObject["root"] ? Object.keys(graphObject["root"])[0] : "0";
+
+        return new ConanDependencyGraph(rootId, nodes);
+    }
+
+    public override async createLockfile(conanfilePath: string, lockfileOut: string, profile: string, args: Array<string>, token?: vscode.CancellationToken): Promise<void> {
+        let cmd: Array<string> = ["lock", "create", conanfilePath, "--lockfile-out", lockfileOut];
+
+        if (profile) {
+            cmd.push("-pr", profile);
+        }
+
+        cmd.push.apply(cmd, args);
+
+        await this.execute(cmd, token);
+    }
+
+    public override async addToLockfile(lockfile: string, references: Array<string>, requireType: LockfileRequireType, token?: vscode.CancellationToken): Promise<void> {
+        let cmd: Array<string> = ["lock", "add", "--lockfile", lockfile, "--lockfile-out", lockfile];
+
+        for (let reference of references) {
+            cmd.push(`--${requireType}`, reference);
+        }
+
+        await this.execute(cmd, token);
+    }
+
+    public override async mergeLockfiles(lockfiles: Array<string>, lockfileOut: string, token?: vscode.CancellationToken): Promise<void> {
+        let cmd: Array<string> = ["lock", "merge"];
+
+        for (let lockfile of lockfiles) {
+            cmd.push("--lockfile", lockfile);
+        }
+
+        cmd.push("--lockfile-out", lockfileOut);
+
+        await this.execute(cmd, token);
+    }
+
+    public override async searchRemote(pattern: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipe>> {
+        let listOfRecipes: Array<ConanRecipe> = [];
+
+        let jsonStdout = await this.execute(["list", pattern, "-r", remote, "--format", "json"], token);
+        let remoteObject = JSON.parse(jsonStdout.toString())[remote] ?? {};
+
+        // Conan reports errors of the remote, e.g. missing permission, inside of the JSON result
+        if (typeof remoteObject["error"] === "string") {
+            throw new Error(remoteObject["error"]);
+        }
+
+        for (let recipe in remoteObject) {
+            listOfRecipes.push(new ConanRecipe(recipe, false));
+        }
+
+        return listOfRecipes;
+    }
+
+    public override async getRemoteRecipeRevisions(recipe: string, remote: string, token?: vscode.CancellationToken): Promise<Array<ConanRecipeRevision>> {
+        let listOfRecipeRevisions: Array<ConanRecipeRevision> = [];
+
+        let jsonStdout = await this.execute(["list", `${recipe}#*`, "-r", remote, "--format", "json"], token);
+        let remoteObject = JSON.parse(jsonStdout.toString())[remote] ?? {};
+
+        if (typeof remoteObject["error"] === "string") {
+            throw new Error(remoteObject["error"]);
+        }
+
+        let revisionObjects = remoteObject[recipe]?.["revisions"] ?? {};
+
+        for (let revisionId in revisionObjects) {
+            listOfRecipeRevisions.push(new ConanRecipeRevision(revisionId, revisionObjects[revisionId]["timestamp"]));
+        }
+
+        // Latest revision first
+        return listOfRecipeRevisions.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    public override async downloadReference(ref: string, remote: string, packageQuery: string = "", onlyRecipe: boolean = false, token?: vscode.CancellationToken): Promise<void> {
+        let cmd: Array<string> = [];
+
+        if (onlyRecipe) {
+            cmd.push("download", ref, "-r", remote, "--only-recipe");
+        }
+        else if (utils.conan.isPackageId(packageQuery)) {
+            cmd.push("download", `${ref}:${packageQuery}`, "-r", remote);
+        }
+        else if (packageQuery) {
+            cmd.push("download", ref, "-r", remote, "-p", packageQuery);
+        }
+        else {
+            cmd.push("download", ref, "-r", remote);
+        }
+
+        await this.execute(cmd, token);
+    }
+
+    public override async uploadReference(recipe: string, packageId: string, remote: string, onlyRecipe: boolean, check: boolean, force: boolean, token?: vscode.CancellationToken): Promise<ConanUploadSummary> {
+        let summary = new ConanUploadSummary();
+
+        let cmd: Array<string> = ["upload", packageId ? `${recipe}:${packageId}` : recipe, "-r", remote, "--confirm", "--format", "json"];
+
+        if (onlyRecipe && !packageId) {
+            cmd.push("--only-recipe");
+        }
+
+        if (check) {
+            cmd.push("--check");
+        }
+
+        if (force) {
+            cmd.push("--force");
+        }
+
+        let jsonStdout = await this.execute(cmd, token);
+        let uploadObject = JSON.parse(jsonStdout.toString());
+
+        // The package list of the upload is stored under a single key, e.g. 'Local Cache'
+        for (let listKey in uploadObject) {
+            for (let recipeName in uploadObject[listKey]) {
+                let revisionObjects = uploadObject[listKey][recipeName]["revisions"] ?? {};
+
+                for (let revisionId in revisionObjects) {
+                    let recipeRef = `${recipeName}#${revisionId}`;
+
+                    // Conan marks the items with 'upload: false' if the remote already contains them
+                    (revisionObjects[revisionId]["upload"] === false ? summary.skipped : summary.uploaded).push(recipeRef);
+
+                    let packageObjects = revisionObjects[revisionId]["packages"] ?? {};
+
+                    for (let pkgId in packageObjects) {
+                        let packageRevisionObjects = packageObjects[pkgId]["revisions"] ?? {};
+                        let packageRef = `${recipeRef}:${pkgId}`;
+
+                        if (Object.keys(packageRevisionObjects).length === 0) {
+                            summary.uploaded.push(packageRef);
+                        }
+
+                        for (let packageRevisionId in packageRevisionObjects) {
+                            (packageRevisionObjects[packageRevisionId]["upload"] === false ? summary.skipped : summary.uploaded).push(`${packageRef}#${packageRevisionId}`);
+                        }
+                    }
+                }
+            }
+        }
+
+        return summary;
+    }
+
+    public override async getRemoteUsers(token?: vscode.CancellationToken): Promise<Array<ConanRemoteUser>> {
+        let listOfRemoteUsers: Array<ConanRemoteUser> = [];
+
+        let jsonStdout = await this.execute(["remote", "list-users", "--format", "json"], token);
+
+        for (let remoteUser of JSON.parse(jsonStdout.toString())) {
+            listOfRemoteUsers.push(new ConanRemoteUser(remoteUser["remote_name"], remoteUser["user_name"] ?? "", remoteUser["authenticated"] === true));
+        }
+
+        return listOfRemoteUsers;
+    }
+
+    public override async loginRemote(remote: string, user: string, password: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "login", remote, user], token, utils.conan.getRemoteCredentialEnv(remote, user, password));
+    }
+
+    public override async logoutRemote(remote: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(["remote", "logout", remote], token);
+    }
+
+    public override async cleanCache(temp: boolean, download: boolean, build: boolean, source: boolean, token?: vscode.CancellationToken): Promise<void> {
+        let cmd: Array<string> = ["cache", "clean", "*"];
+
+        if (temp) {
+            cmd.push("--temp");
+        }
+
+        if (download) {
+            cmd.push("--download");
+        }
+
+        if (build) {
+            cmd.push("--build");
+        }
+
+        if (source) {
+            cmd.push("--source");
+        }
+
+        await this.execute(cmd, token);
+    }
+
+    public override async checkIntegrity(pattern: string, token?: vscode.CancellationToken): Promise<Array<ConanIntegrityIssue>> {
+        try {
+            await this.execute(["cache", "check-integrity", pattern], token);
+        }
+        catch (err) {
+            // Conan fails as soon as it finds corrupted items, they are reported in the error output
+            if (err instanceof ConanCommandError) {
+                let issueList = ConanIntegrityIssue.parseCheckOutput(err.stderr);
+
+                if (issueList.length > 0) {
+                    return issueList;
+                }
+            }
+
+            throw err;
+        }
+
+        return [];
     }
 }
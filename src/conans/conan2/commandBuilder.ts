@@ -31,6 +31,10 @@ export class CommandBuilderConan2 extends CommandBuilder {
 
         if (cfg.profile) { cmd.push.apply(cmd, ["-pr", cfg.profile]); }
 
+        if (cfg.lockfile) { cmd.push.apply(cmd, ["--lockfile", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfile)]); }
+
+        if (cfg.lockfileOut) { cmd.push.apply(cmd, ["--lockfile-out", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfileOut)]); }
+
         // Push additional arguments that user can define
         cmd.push.apply(cmd, cfg.args);
 
@@ -54,6 +58,10 @@ export class CommandBuilderConan2 extends CommandBuilder {
 
         if (cfg.profile) { cmd.push.apply(cmd, ["-pr", cfg.profile]); }
 
+        if (cfg.lockfile) { cmd.push.apply(cmd, ["--lockfile", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfile)]); }
+
+        if (cfg.lockfileOut) { cmd.push.apply(cmd, ["--lockfile-out", utils.workspace.getAbsolutePathFromWorkspace(wsPath, cfg.lockfileOut)]); }
+
         // NOTE: Install folder argument is ignored in conan2, conan will generate build folder automatically
 
         cmd.push.apply(cmd, cfg.args);
@@ -0,0 +1,36 @@
+/**
+ * Kind of an item in the local cache whose disk usage is calculated
+ */
+export enum CacheUsageKind {
+    recipe = "recipe",
+    recipeRevision = "recipeRevision",
+    package = "package",
+    packageRevision = "packageRevision"
+}
+
+export class ConanCacheUsage {
+    public kind: CacheUsageKind;
+    public label: string;
+    /** Recipe reference, including the recipe revision for recipe revisions, packages and package revisions of Conan 2 */
+    public recipe: string;
+    /** Binary package ID, empty string for recipes and recipe revisions */
+    public packageId: string;
+    /** Revision of a recipe revision or package revision, empty string otherwise */
+    public revisionId: string;
+    /** Folder in the local cache that is counted for this item itself, without its children */
+    public path: string;
+    /** Disk size in bytes, including all children */
+    public size: number;
+    public children: Array<ConanCacheUsage>;
+
+    constructor(kind: CacheUsageKind, label: string, recipe: string, packageId: string = "", revisionId: string = "", path: string = "", size: number = 0, children: Array<ConanCacheUsage> = []) {
+        this.kind = kind;
+        this.label = label;
+        this.recipe = recipe;
+        this.packageId = packageId;
+        this.revisionId = revisionId;
+        this.path = path;
+        this.size = size;
+        this.children = children;
+    }
+}
@@ -0,0 +1,58 @@
+export class ConanDependencyNode {
+    public id: string;
+    public ref: string;
+    public revision: string;
+    public binary: string;
+    public context: string;
+    public requires: Array<string>;
+
+    /**
+     * @param id Unique ID of the node inside the graph
+     * @param ref Reference of the recipe without revision, e.g. 'zlib/1.2.13'
+     * @param revision Recipe revision, empty string if the revision is not known
+     * @param binary Binary status of the package, e.g. 'Cache', 'Download', 'Build' or 'Missing'
+     * @param context Context of the package, 'host' or 'build'
+     * @param requires List of node IDs of the direct requirements
+     */
+    constructor(id: string, ref: string, revision: string = "", binary: string = "", context: string = "host", requires: Array<string> = []) {
+        this.id = id;
+        this.ref = ref;
+        this.revision = revision;
+        this.binary = binary;
+        this.context = context;
+        this.requires = requires;
+    }
+}
+
+export class ConanDependencyGraph {
+    public rootId: string;
+    public nodes: Map<string, ConanDependencyNode>;
+
+    constructor(rootId: string = "", nodes: Map<string, ConanDependencyNode> = new Map<string, ConanDependencyNode>()) {
+        this.rootId = rootId;
+        this.nodes = nodes;
+    }
+
+    public getRoot(): ConanDependencyNode | undefined {
+        return this.nodes.get(this.rootId);
+    }
+
+    /**
+     * Get the direct requirements of a node
+     * @param node Node in the graph
+     * @returns List of nodes that are directly required by the given node
+     */
+    public getRequires(node: ConanDependencyNode): Array<ConanDependencyNode> {
+        let requires: Array<ConanDependencyNode> = [];
+
+        for (let id of node.requires) {
+            let requireNode = this.nodes.get(id);
+
+            if (requireNode) {
+                requires.push(requireNode);
+            }
+        }
+
+        return requires;
+    }
+}
@@ -0,0 +1,61 @@
+export class ConanIntegrityIssue {
+    public recipe: string;
+    public recipeRevision: string;
+    public packageId: string;
+    public packageRevision: string;
+    public message: string;
+
+    /**
+     * @param recipe Reference of the recipe without revision, e.g. 'zlib/1.3'
+     * @param recipeRevision Recipe revision, empty string if it is unknown (Conan 1)
+     * @param packageId Binary package ID, empty string if the recipe itself is corrupted
+     * @param packageRevision Package revision, empty string if it is unknown (Conan 1)
+     * @param message Description of the failure
+     */
+    constructor(recipe: string, recipeRevision: string = "", packageId: string = "", packageRevision: string = "", message: string = "") {
+        this.recipe = recipe;
+        this.recipeRevision = recipeRevision;
+        this.packageId = packageId;
+        this.packageRevision = packageRevision;
+        this.message = message;
+    }
+
+    /**
+     * Get the reference of the corrupted item
+     * @returns Recipe reference including the package ID and the revisions that are known, e.g. 'zlib/1.3#rrev:pkgid#prev'
+     */
+    public getReference(): string {
+        let reference = this.recipeRevision ? `${this.recipe}#${this.recipeRevision}` : this.recipe;
+
+        if (this.packageId) {
+            reference += `:${this.packageId}`;
+
+            if (this.packageRevision) {
+                reference += `#${this.packageRevision}`;
+            }
+        }
+
+        return reference;
+    }
+
+    /**
+     * Parse the failures reported by 'conan cache check-integrity'
+     * Conan reports each corrupted item in a line starting with its reference, e.g. 'zlib/1.3#rrev:pkgid#prev: Manifest mismatch'.
+     * The following lines with the folder and the manifests and the lines of the intact items ('... checked: ok') are ignored.
+     * @param output Output of the conan process
+     * @returns List of the corrupted items
+     */
+    public static parseCheckOutput(output: string): Array<ConanIntegrityIssue> {
+        let issueList: Array<ConanIntegrityIssue> = [];
+
+        for (let line of output.split(/\r?\n/)) {
+            let match = line.trim().match(/^(?:ERROR: )?([^\s#:/]+\/[^\s#:]+)(?:#(\w+))?(?::(\w+)(?:#(\w+))?)?: (.+)$/);
+
+            if (match && !/:\s*ok$/.test(match[5])) {
+                issueList.push(new ConanIntegrityIssue(match[1], match[2] ?? "", match[3] ?? "", match[4] ?? "", match[5]));
+            }
+        }
+
+        return issueList;
+    }
+}
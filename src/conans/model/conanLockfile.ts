@@ -0,0 +1,172 @@
+/**
+ * Kind of requirement that is pinned in a lockfile
+ * The value is the name of the argument of 'conan lock add' without leading dashes.
+ */
+export enum LockfileRequireType {
+    requires = "requires",
+    buildRequires = "build-requires",
+    pythonRequires = "python-requires"
+}
+
+export class ConanLockfileReference {
+    public ref: string;
+    public revision: string;
+    public timestamp: number | undefined;
+
+    /**
+     * @param ref Reference of the recipe without revision, e.g. 'zlib/1.2.13'
+     * @param revision Recipe revision, empty string if the revision is not pinned
+     * @param timestamp Timestamp of the recipe revision in seconds, undefined if it is not pinned
+     */
+    constructor(ref: string, revision: string = "", timestamp: number | undefined = undefined) {
+        this.ref = ref;
+        this.revision = revision;
+        this.timestamp = timestamp;
+    }
+
+    /**
+     * Parse a locked reference
+     * @param reference Reference in the format of the lockfile, e.g. 'zlib/1.2.13#revision%1692672717.68'
+     * @returns Locked reference
+     */
+    public static parse(reference: string): ConanLockfileReference {
+        let [refWithRevision, timestamp] = reference.split("%");
+        let [ref, revision] = refWithRevision.split("#");
+
+        return new ConanLockfileReference(ref, revision ?? "", timestamp ? parseFloat(timestamp) : undefined);
+    }
+}
+
+export class ConanLockfile {
+    public version: string;
+    public requires: Array<ConanLockfileReference>;
+    public buildRequires: Array<ConanLockfileReference>;
+    public pythonRequires: Array<ConanLockfileReference>;
+
+    constructor(version: string = "",
+        requires: Array<ConanLockfileReference> = [],
+        buildRequires: Array<ConanLockfileReference> = [],
+        pythonRequires: Array<ConanLockfileReference> = []) {
+
+        this.version = version;
+        this.requires = requires;
+        this.buildRequires = buildRequires;
+        this.pythonRequires = pythonRequires;
+    }
+
+    /**
+     * Parse the content of a lockfile
+     * Lockfiles of Conan 2 contain the lists of locked references directly.
+     * Lockfiles of Conan 1 contain the locked graph, the references are collected from its nodes.
+     * @param content Content of the lockfile in JSON format
+     * @returns Lockfile with its locked references
+     * @throws Error if the content is no JSON or the lists of locked references are malformed
+     */
+    public static parse(content: string): ConanLockfile {
+        let lockfileObject: unknown = JSON.parse(content);
+
+        if (!ConanLockfile.isObject(lockfileObject)) {
+            throw new Error("Invalid lockfile: The content has to be a JSON object.");
+        }
+
+        if (lockfileObject["graph_lock"] !== undefined) {
+            return ConanLockfile.parseGraphLock(lockfileObject);
+        }
+
+        let lockfileProperties = lockfileObject;
+        let parseList = (property: string) => ConanLockfile.getReferenceList(lockfileProperties, property, property)
+            .map(reference => ConanLockfileReference.parse(reference));
+
+        return new ConanLockfile(
+            ConanLockfile.getVersion(lockfileProperties),
+            parseList("requires"),
+            parseList("build_requires"),
+            parseList("python_requires")
+        );
+    }
+
+    private static parseGraphLock(lockfileObject: Record<string, unknown>): ConanLockfile {
+        let lockfile = new ConanLockfile(ConanLockfile.getVersion(lockfileObject));
+        let graphLock = lockfileObject["graph_lock"];
+
+        if (!ConanLockfile.isObject(graphLock) || (graphLock["nodes"] !== undefined && !ConanLockfile.isObject(graphLock["nodes"]))) {
+            throw new Error("Invalid lockfile: 'graph_lock' has to be an object with the object 'nodes'.");
+        }
+
+        let nodes = new Map<string, Record<string, unknown>>();
+
+        for (let [nodeId, node] of Object.entries(graphLock["nodes"] ?? {})) {
+            if (!ConanLockfile.isObject(node) || (node["ref"] !== undefined && typeof node["ref"] !== "string")) {
+                throw new Error(`Invalid lockfile: Node '${nodeId}' of 'graph_lock' has to be an object with the reference 'ref'.`);
+            }
+
+            nodes.set(nodeId, node);
+        }
+
+        // A node is a build requirement as soon as one of the other nodes requires it as build requirement
+        let buildRequireIds = new Set<string>();
+        let pythonRequires = new Set<string>();
+
+        for (let [nodeId, node] of nodes) {
+            for (let buildRequireId of ConanLockfile.getReferenceList(node, "build_requires", `graph_lock.nodes.${nodeId}.build_requires`)) {
+                buildRequireIds.add(buildRequireId);
+            }
+
+            for (let pythonRequire of ConanLockfile.getReferenceList(node, "python_requires", `graph_lock.nodes.${nodeId}.python_requires`)) {
+                pythonRequires.add(pythonRequire);
+            }
+        }
+
+        for (let [nodeId, node] of nodes) {
+            // The consumer of the graph is not locked, it does not have any reference
+            if (!node["ref"]) {
+                continue;
+            }
+
+            let reference = ConanLockfileReference.parse(node["ref"] as string);
+
+            if (buildRequireIds.has(nodeId)) {
+                lockfile.buildRequires.push(reference);
+            }
+            else {
+                lockfile.requires.push(reference);
+            }
+        }
+
+        for (let pythonRequire of pythonRequires) {
+            lockfile.pythonRequires.push(ConanLockfileReference.parse(pythonRequire));
+        }
+
+        return lockfile;
+    }
+
+    /**
+     * Get a list of references of the lockfile
+     * @param object Object of the lockfile that contains the list
+     * @param property Name of the list
+     * @param propertyPath Path of the list in the lockfile, used for the error message
+     * @returns List of references, empty if the object does not contain the list
+     * @throws Error if the list is not an array of strings
+     */
+    private static getReferenceList(object: Record<string, unknown>, property: string, propertyPath: string): Array<string> {
+        let list = object[property];
+
+        if (list === undefined) {
+            return [];
+        }
+
+        if (!Array.isArray(list) || list.some(item => typeof item !== "string")) {
+            throw new Error(`Invalid lockfile: '${propertyPath}' has to be an array of references.`);
+        }
+
+        return list;
+    }
+
+    private static getVersion(lockfileObject: Record<string, unknown>): string {
+        return typeof lockfileObject["version"] === "string" ? lockfileObject["version"] : "";
+    }
+
+    private static isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+}
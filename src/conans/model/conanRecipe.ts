@@ -1,15 +1,19 @@
 import { ConanPackage } from "./conanPackage";
+import { ConanRecipeRevision } from "./conanRecipeRevision";
 
 export class ConanRecipe {
     public name: string;
     public editable: boolean;
     public path: string;
     public binaryPackages: Map<string, ConanPackage>;
+    /** Recipe revisions in the local cache, the latest revision first. Only available with Conan 2. */
+    public revisions: Array<ConanRecipeRevision>;
 
-    constructor(name: string, editable: boolean, path: string = "", binaryPackages: Map<string, ConanPackage> = new Map<string, ConanPackage>()) {
+    constructor(name: string, editable: boolean, path: string = "", binaryPackages: Map<string, ConanPackage> = new Map<string, ConanPackage>(), revisions: Array<ConanRecipeRevision> = []) {
         this.name = name;
         this.editable = editable;
         this.path = path;
         this.binaryPackages = binaryPackages;
+        this.revisions = revisions;
     }
 }
\ No newline at end of file
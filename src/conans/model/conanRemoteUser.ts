@@ -0,0 +1,16 @@
+export class ConanRemoteUser {
+    public remote: string;
+    public user: string;
+    public authenticated: boolean;
+
+    /**
+     * @param remote Name of the remote
+     * @param user Name of the user that is logged in, empty string if no user is set for the remote
+     * @param authenticated Whether the user has a valid authentication token for the remote
+     */
+    constructor(remote: string, user: string = "", authenticated: boolean = false) {
+        this.remote = remote;
+        this.user = user;
+        this.authenticated = authenticated;
+    }
+}
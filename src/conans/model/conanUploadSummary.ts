@@ -0,0 +1,11 @@
+export class ConanUploadSummary {
+    /** References that are transferred to the remote, e.g. 'zlib/1.3#rev' or 'zlib/1.3#rev:packageId' */
+    public uploaded: Array<string>;
+    /** References that are skipped, because the remote already contains them */
+    public skipped: Array<string>;
+
+    constructor(uploaded: Array<string> = [], skipped: Array<string> = []) {
+        this.uploaded = uploaded;
+        this.skipped = skipped;
+    }
+}
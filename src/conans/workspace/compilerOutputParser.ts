@@ -0,0 +1,186 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Pattern of GCC and Clang diagnostics, e.g. 'src/main.cpp:10:5: error: expected ';' before '}' token'
+ * Groups: file, line, column, severity, message
+ * The problem pattern 'conan-gcc' of the package.json uses the same regular expression.
+ */
+export const GCC_PATTERN: RegExp = /^(.*?):(\d+):(?:(\d+):)?\s+(?:fatal\s+)?(error|warning|note):\s+(.*)$/;
+
+/**
+ * Pattern of MSVC diagnostics, e.g. 'C:\src\main.cpp(10,5): error C2143: syntax error: missing ';' before '}''
+ * Groups: file, line, column, severity, code, message
+ * The problem pattern 'conan-msvc' of the package.json uses the same regular expression.
+ */
+export const MSVC_PATTERN: RegExp = /^\s*(?:\d+>)?(\S.*?)\((\d+)(?:,(\d+))?\)\s*:\s+(?:fatal\s+)?(error|warning)\s+(\w{1,2}\d+)\s*:\s*(.*)$/;
+
+/**
+ * Patterns of the folders in the Conan cache, which contain copies of the recipe sources.
+ * The only group is the path relative to the source, build or package folder.
+ */
+const CACHE_FOLDER_PATTERNS: Array<RegExp> = [
+    // Conan 2: <home>/p/<ref>/s|e|es/... and <home>/p/b/<pkg>/b/...
+    /[\\/]p[\\/](?:b[\\/])?[^\\/]+[\\/](?:b|s|e|es)[\\/](.+)$/,
+    // Conan 1: <home>/data/<name>/<version>/<user>/<channel>/source|build/<id>|package/<id>/...
+    /[\\/]data[\\/][^\\/]+[\\/][^\\/]+[\\/][^\\/]+[\\/][^\\/]+[\\/](?:source|build[\\/][0-9a-f]+|package[\\/][0-9a-f]+)[\\/](.+)$/
+];
+
+export enum CompilerProblemSeverity {
+    error = "error",
+    warning = "warning",
+    note = "note"
+}
+
+export class CompilerProblem {
+    public file: string;
+    public line: number;
+    public column: number;
+    public severity: CompilerProblemSeverity;
+    public code: string;
+    public message: string;
+
+    /**
+     * @param file Absolute path of the source file, mapped to the workspace if possible
+     * @param line Line of the problem, starting with 1
+     * @param column Column of the problem, starting with 1, or 0 if the compiler does not report it
+     * @param severity Severity of the problem
+     * @param code Diagnostic code of the compiler, e.g. 'C2143', empty for GCC and Clang
+     * @param message Message of the compiler
+     */
+    constructor(file: string, line: number, column: number, severity: CompilerProblemSeverity, code: string, message: string) {
+        this.file = file;
+        this.line = line;
+        this.column = column;
+        this.severity = severity;
+        this.code = code;
+        this.message = message;
+    }
+}
+
+/**
+ * Class to parse the streamed output of conan commands into compiler problems of GCC, Clang and MSVC.
+ * Source files in the build folders of the Conan cache are mapped back to the workspace, if the workspace contains the same file.
+ */
+export class CompilerOutputParser {
+    private workspaceFolders: Array<string>;
+    private fileExists: (filePath: string) => boolean;
+    private buffer: string = "";
+
+    /**
+     * @param workspaceFolders Absolute paths of the workspace folders, relative paths are resolved from the first folder
+     * @param fileExists Function to check whether a file exists
+     */
+    constructor(workspaceFolders: Array<string>, fileExists: (filePath: string) => boolean = fs.existsSync) {
+        this.workspaceFolders = workspaceFolders;
+        this.fileExists = fileExists;
+    }
+
+    /**
+     * Append a chunk of the process output
+     * @param data Chunk of the output, which can end within a line
+     * @returns Problems of the lines that are completed by this chunk
+     */
+    public append(data: string): Array<CompilerProblem> {
+        let lines = (this.buffer + data).split(/\r?\n/);
+
+        this.buffer = lines.pop() ?? "";
+
+        return this.parseLines(lines);
+    }
+
+    /**
+     * Parse the rest of the output after the process is finished
+     * @returns Problems of the last line, which is not terminated by a line break
+     */
+    public flush(): Array<CompilerProblem> {
+        let lines = [this.buffer];
+
+        this.buffer = "";
+
+        return this.parseLines(lines);
+    }
+
+    /**
+     * Parse a single line of the output
+     * @param line Line of the output, which may contain color codes
+     * @returns Problem of the line | undefined if the line is no compiler diagnostic
+     */
+    public parseLine(line: string): CompilerProblem | undefined {
+        let text = line.replace(/\x1b\[[0-9;]*[A-Za-z]/g, "");
+        let match = MSVC_PATTERN.exec(text);
+
+        if (match) {
+            return new CompilerProblem(this.mapPath(match[1].trim()), parseInt(match[2]), match[3] ? parseInt(match[3]) : 0,
+                match[4] as CompilerProblemSeverity, match[5], match[6].trim());
+        }
+
+        match = GCC_PATTERN.exec(text);
+
+        if (match) {
+            return new CompilerProblem(this.mapPath(match[1].trim()), parseInt(match[2]), match[3] ? parseInt(match[3]) : 0,
+                match[4] as CompilerProblemSeverity, "", match[5].trim());
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Map the path of a source file to the workspace
+     * Relative paths are resolved from the workspace folders. Paths in the Conan cache are mapped to the
+     * workspace file with the longest matching relative path, e.g. '<home>/p/b/hello1234/b/src/hello.cpp' to '<workspace>/src/hello.cpp'.
+     * @param filePath Path of the source file reported by the compiler
+     * @returns Absolute path in the workspace | the resolved path of the compiler if there is no matching workspace file
+     */
+    public mapPath(filePath: string): string {
+        if (!path.isAbsolute(filePath)) {
+            let workspaceFile = this.workspaceFolders.map(folder => path.resolve(folder, filePath)).find(candidate => this.fileExists(candidate));
+
+            return workspaceFile ?? path.resolve(this.workspaceFolders[0] ?? "", filePath);
+        }
+
+        if (this.workspaceFolders.some(folder => {
+            let relativePath = path.relative(folder, filePath);
+            return !relativePath.startsWith("..") && !path.isAbsolute(relativePath);
+        })) {
+            return filePath;
+        }
+
+        for (let pattern of CACHE_FOLDER_PATTERNS) {
+            let match = pattern.exec(filePath);
+
+            if (!match) {
+                continue;
+            }
+
+            let segments = match[1].split(/[\\/]/);
+
+            // The file name alone is too ambiguous, except if the file is located directly in the cache folder
+            for (let index = 0; index < Math.max(1, segments.length - 1); index++) {
+                for (let folder of this.workspaceFolders) {
+                    let candidate = path.join(folder, ...segments.slice(index));
+
+                    if (this.fileExists(candidate)) {
+                        return candidate;
+                    }
+                }
+            }
+        }
+
+        return filePath;
+    }
+
+    private parseLines(lines: Array<string>): Array<CompilerProblem> {
+        let problemList: Array<CompilerProblem> = [];
+
+        for (let line of lines) {
+            let problem = this.parseLine(line);
+
+            if (problem) {
+                problemList.push(problem);
+            }
+        }
+
+        return problemList;
+    }
+}
@@ -0,0 +1,434 @@
+import {
+    CommandContainer, ConfigCommand, ConfigCommandBuild, ConfigCommandCreate,
+    ConfigCommandInstall, ConfigCommandPackage, ConfigCommandPackageExport,
+    ConfigCommandSource, ConfigPipeline, ConfigPipelineStep
+} from "../command/configCommand";
+import { ConfigWorkspace } from "./configWorkspace";
+
+/**
+ * Default configuration of each command type of the command container, used to determine the known properties and their types
+ */
+const COMMAND_DEFAULTS: { [commandType: string]: ConfigCommand } = {
+    create: new ConfigCommandCreate(),
+    install: new ConfigCommandInstall(),
+    build: new ConfigCommandBuild(),
+    source: new ConfigCommandSource(),
+    pkg: new ConfigCommandPackage(),
+    pkgExport: new ConfigCommandPackageExport()
+};
+
+/**
+ * Properties with a list of objects, which are validated separately
+ */
+const OBJECT_LIST_PROPERTIES: Array<string> = [...Object.keys(COMMAND_DEFAULTS), "pipelines", "steps"];
+
+export class ConfigValidationIssue {
+    public path: Array<string | number>;
+    public message: string;
+    public isPropertyName: boolean;
+    public offset: number;
+    public length: number;
+
+    /**
+     * @param path Path of the JSON node, e.g. ['commandContainer', 'install', 0, 'installFolder']
+     * @param message Description of the issue
+     * @param isPropertyName 'true' if the issue concerns the name of the property, otherwise its value
+     * @param offset Offset of the JSON node in the text of the configuration file
+     * @param length Length of the JSON node in the text of the configuration file
+     */
+    constructor(path: Array<string | number>, message: string, isPropertyName: boolean = false, offset: number = 0, length: number = 0) {
+        this.path = path;
+        this.message = message;
+        this.isPropertyName = isPropertyName;
+        this.offset = offset;
+        this.length = length;
+    }
+
+    /**
+     * Get the path of the JSON node in a readable format
+     * @returns Path of the JSON node, e.g. 'commandContainer.install[0].installFolder'
+     */
+    public getPathString(): string {
+        return this.path.map((segment, index) => typeof segment === "number" ? `[${segment}]` : (index > 0 ? `.${segment}` : segment)).join("");
+    }
+}
+
+/**
+ * Static class to validate the workspace configuration file '.vsconan/config.json'
+ * The known properties and their types are taken from the default values of the configuration classes.
+ */
+export class ConfigValidator {
+
+    /**
+     * Validate the text of a configuration file
+     * @param text Content of the configuration file
+     * @returns List of the issues with their location in the text, empty if the configuration is valid
+     */
+    public static validateText(text: string): Array<ConfigValidationIssue> {
+        let configObject: any;
+
+        try {
+            configObject = JSON.parse(text);
+        }
+        catch (err) {
+            let position = (err as Error).message.match(/position (\d+)/);
+            let offset = position ? parseInt(position[1]) : 0;
+
+            return [new ConfigValidationIssue([], `Invalid JSON: ${(err as Error).message}`, false, offset, 1)];
+        }
+
+        let locations = ConfigValidator.locateJsonNodes(text);
+        let issueList = ConfigValidator.validate(configObject);
+
+        for (let issue of issueList) {
+            let location = locations.get(JSON.stringify(issue.path));
+
+            if (location) {
+                let node = issue.isPropertyName && location.key ? location.key : location.value;
+
+                issue.offset = node.offset;
+                issue.length = node.length;
+            }
+        }
+
+        return issueList;
+    }
+
+    /**
+     * Validate the parsed configuration of a workspace
+     * Unknown properties, wrong types and duplicate command names are reported.
+     * @param configObject Parsed content of the configuration file
+     * @returns List of the issues, empty if the configuration is valid
+     */
+    public static validate(configObject: any): Array<ConfigValidationIssue> {
+        let issueList: Array<ConfigValidationIssue> = [];
+
+        if (!ConfigValidator.isObject(configObject)) {
+            return [new ConfigValidationIssue([], "The configuration has to be an object with the property 'commandContainer'.")];
+        }
+
+        ConfigValidator.validateProperties(configObject, new ConfigWorkspace(), [], issueList);
+
+        let commandContainer = configObject["commandContainer"];
+
+        if (commandContainer === undefined) {
+            issueList.push(new ConfigValidationIssue([], "Missing property 'commandContainer'."));
+            return issueList;
+        }
+
+        if (!ConfigValidator.isObject(commandContainer)) {
+            issueList.push(new ConfigValidationIssue(["commandContainer"], "Property 'commandContainer' has to be an object."));
+            return issueList;
+        }
+
+        ConfigValidator.validateProperties(commandContainer, new CommandContainer(), ["commandContainer"], issueList);
+
+        for (let commandType in COMMAND_DEFAULTS) {
+            let commandList = commandContainer[commandType];
+            let commandPath: Array<string | number> = ["commandContainer", commandType];
+
+            if (commandList === undefined) {
+                continue;
+            }
+
+            if (!Array.isArray(commandList)) {
+                issueList.push(new ConfigValidationIssue(commandPath, `Property '${commandType}' has to be an array of commands.`));
+                continue;
+            }
+
+            let nameList: Array<string> = [];
+
+            for (let [index, command] of commandList.entries()) {
+                let itemPath = [...commandPath, index];
+
+                if (!ConfigValidator.isObject(command)) {
+                    issueList.push(new ConfigValidationIssue(itemPath, `Command ${index} of '${commandType}' has to be an object.`));
+                    continue;
+                }
+
+                ConfigValidator.validateProperties(command, COMMAND_DEFAULTS[commandType], itemPath, issueList);
+
+                if (command["name"] === undefined) {
+                    issueList.push(new ConfigValidationIssue(itemPath, `Command ${index} of '${commandType}' has no property 'name'.`));
+                }
+                else if (typeof command["name"] === "string") {
+                    if (nameList.includes(command["name"])) {
+                        issueList.push(new ConfigValidationIssue([...itemPath, "name"], `Duplicate name '${command["name"]}' of the '${commandType}' commands.`));
+                    }
+
+                    nameList.push(command["name"]);
+                }
+            }
+        }
+
+        ConfigValidator.validatePipelines(commandContainer, issueList);
+
+        return issueList;
+    }
+
+    /**
+     * Check the pipelines of the command container, whose steps have to reference configured commands
+     * @param commandContainer Command container of the configuration file
+     * @param issueList List the issues are added to
+     */
+    private static validatePipelines(commandContainer: any, issueList: Array<ConfigValidationIssue>) {
+        let pipelineList = commandContainer["pipelines"];
+        let pipelinesPath: Array<string | number> = ["commandContainer", "pipelines"];
+
+        if (pipelineList === undefined) {
+            return;
+        }
+
+        if (!Array.isArray(pipelineList)) {
+            issueList.push(new ConfigValidationIssue(pipelinesPath, "Property 'pipelines' has to be an array of pipelines."));
+            return;
+        }
+
+        let nameList: Array<string> = [];
+
+        for (let [index, pipeline] of pipelineList.entries()) {
+            let pipelinePath = [...pipelinesPath, index];
+
+            if (!ConfigValidator.isObject(pipeline)) {
+                issueList.push(new ConfigValidationIssue(pipelinePath, `Pipeline ${index} has to be an object.`));
+                continue;
+            }
+
+            ConfigValidator.validateProperties(pipeline, new ConfigPipeline(), pipelinePath, issueList);
+
+            if (pipeline["name"] === undefined) {
+                issueList.push(new ConfigValidationIssue(pipelinePath, `Pipeline ${index} has no property 'name'.`));
+            }
+            else if (typeof pipeline["name"] === "string") {
+                if (nameList.includes(pipeline["name"])) {
+                    issueList.push(new ConfigValidationIssue([...pipelinePath, "name"], `Duplicate name '${pipeline["name"]}' of the pipelines.`));
+                }
+
+                nameList.push(pipeline["name"]);
+            }
+
+            let stepList = pipeline["steps"];
+
+            if (stepList === undefined) {
+                issueList.push(new ConfigValidationIssue(pipelinePath, `Pipeline ${index} has no property 'steps'.`));
+                continue;
+            }
+
+            if (!Array.isArray(stepList)) {
+                issueList.push(new ConfigValidationIssue([...pipelinePath, "steps"], "Property 'steps' has to be an array of steps."));
+                continue;
+            }
+
+            for (let [stepIndex, step] of stepList.entries()) {
+                let stepPath = [...pipelinePath, "steps", stepIndex];
+
+                if (!ConfigValidator.isObject(step)) {
+                    issueList.push(new ConfigValidationIssue(stepPath, `Step ${stepIndex} of pipeline ${index} has to be an object.`));
+                    continue;
+                }
+
+                let issueCount = issueList.length;
+
+                ConfigValidator.validateProperties(step, new ConfigPipelineStep(), stepPath, issueList);
+
+                if (issueList.length > issueCount) {
+                    continue;
+                }
+
+                if (step["command"] === undefined || step["name"] === undefined) {
+                    issueList.push(new ConfigValidationIssue(stepPath, `Step ${stepIndex} of pipeline ${index} needs the properties 'command' and 'name'.`));
+                }
+                else if (!(step["command"] in COMMAND_DEFAULTS)) {
+                    issueList.push(new ConfigValidationIssue([...stepPath, "command"],
+                        `Unknown command '${step["command"]}'. Valid commands are ${Object.keys(COMMAND_DEFAULTS).map(type => `'${type}'`).join(", ")}.`));
+                }
+                else {
+                    let commandList = commandContainer[step["command"]];
+
+                    if (!Array.isArray(commandList) || !commandList.some(command => ConfigValidator.isObject(command) && command["name"] === step["name"])) {
+                        issueList.push(new ConfigValidationIssue([...stepPath, "name"], `There is no '${step["command"]}' command with the name '${step["name"]}'.`));
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Check the properties of an object against the properties of its default configuration
+     * @param object Object of the configuration file
+     * @param defaults Default configuration with all known properties
+     * @param objectPath Path of the object in the configuration file
+     * @param issueList List the issues are added to
+     */
+    private static validateProperties(object: any, defaults: object, objectPath: Array<string | number>, issueList: Array<ConfigValidationIssue>) {
+        let knownProperties = Object.keys(defaults);
+
+        for (let property in object) {
+            let propertyPath = [...objectPath, property];
+
+            if (!knownProperties.includes(property)) {
+                let suggestion = ConfigValidator.findSimilarProperty(property, knownProperties);
+
+                issueList.push(new ConfigValidationIssue(propertyPath,
+                    `Unknown property '${property}'.` + (suggestion ? ` Did you mean '${suggestion}'?` : ""), true));
+                continue;
+            }
+
+            let defaultValue = (defaults as any)[property];
+            let value = object[property];
+
+            // Nested objects and command lists are validated separately
+            if (Array.isArray(defaultValue) && defaultValue.length === 0 && !OBJECT_LIST_PROPERTIES.includes(property)) {
+                if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+                    issueList.push(new ConfigValidationIssue(propertyPath, `Property '${property}' has to be an array of strings.`));
+                }
+                else if (property === "args") {
+                    ConfigValidator.validateArguments(value, propertyPath, issueList);
+                }
+            }
+            else if (typeof defaultValue === "string" && typeof value !== "string") {
+                issueList.push(new ConfigValidationIssue(propertyPath, `Property '${property}' has to be a string.`));
+            }
+        }
+    }
+
+    /**
+     * Check the arguments of a command, which are passed to Conan one by one without a shell
+     * An option and its value in one argument, e.g. '-s build_type=Release', would be passed as a single argument.
+     * @param argumentList Arguments of the command
+     * @param argumentsPath Path of the arguments in the configuration file
+     * @param issueList List the issues are added to
+     */
+    private static validateArguments(argumentList: Array<string>, argumentsPath: Array<string | number>, issueList: Array<ConfigValidationIssue>) {
+        for (let [index, argument] of argumentList.entries()) {
+            let match = argument.match(/^(-{1,2}[\w:-]+)\s+(\S.*)$/);
+
+            if (match) {
+                issueList.push(new ConfigValidationIssue([...argumentsPath, index],
+                    `Argument '${argument}' is passed as one argument. Split the option and its value into separate arguments, e.g. "${match[1]}", "${match[2]}".`));
+            }
+        }
+    }
+
+    /**
+     * Find a known property that differs in one or two characters, e.g. 'installFolder' for the typo 'instalFolder'
+     * @param property Unknown property
+     * @param knownProperties List of the known properties
+     * @returns Similar known property | undefined if there is none
+     */
+    private static findSimilarProperty(property: string, knownProperties: Array<string>): string | undefined {
+        let distance = (a: string, b: string): number => {
+            let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+            for (let i = 1; i <= a.length; i++) {
+                let previous = row[0];
+                row[0] = i;
+
+                for (let j = 1; j <= b.length; j++) {
+                    let current = row[j];
+                    row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+                    previous = current;
+                }
+            }
+
+            return row[b.length];
+        };
+
+        return knownProperties.find(known => distance(property, known) <= 2);
+    }
+
+    private static isObject(value: any): boolean {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Determine the location of the property names and values of a valid JSON text
+     * @param text JSON text
+     * @returns Map of the JSON path (as JSON string) to the offset and length of the property name and value.
+     *          Objects and arrays are located by their opening bracket.
+     */
+    private static locateJsonNodes(text: string): Map<string, { key?: { offset: number, length: number }, value: { offset: number, length: number } }> {
+        let locations = new Map<string, { key?: { offset: number, length: number }, value: { offset: number, length: number } }>();
+        let index = 0;
+
+        let skipWhitespace = () => {
+            while (index < text.length && /\s/.test(text[index])) {
+                index++;
+            }
+        };
+
+        let parseString = (): string => {
+            let start = index++;
+
+            while (index < text.length && text[index] !== '"') {
+                index += text[index] === "\\" ? 2 : 1;
+            }
+
+            index++;
+
+            return JSON.parse(text.substring(start, index));
+        };
+
+        let parseValue = (path: Array<string | number>, key?: { offset: number, length: number }) => {
+            skipWhitespace();
+            let start = index;
+
+            if (text[index] === "{") {
+                index++;
+                skipWhitespace();
+
+                while (index < text.length && text[index] !== "}") {
+                    let keyStart = index;
+                    let property = parseString();
+                    let keyLocation = { offset: keyStart, length: index - keyStart };
+
+                    skipWhitespace();
+                    index++; // ':'
+                    parseValue([...path, property], keyLocation);
+                    skipWhitespace();
+
+                    if (text[index] === ",") {
+                        index++;
+                        skipWhitespace();
+                    }
+                }
+
+                index++;
+                locations.set(JSON.stringify(path), { key: key, value: { offset: start, length: 1 } });
+            }
+            else if (text[index] === "[") {
+                index++;
+                skipWhitespace();
+
+                for (let itemIndex = 0; index < text.length && text[index] !== "]"; itemIndex++) {
+                    parseValue([...path, itemIndex]);
+                    skipWhitespace();
+
+                    if (text[index] === ",") {
+                        index++;
+                        skipWhitespace();
+                    }
+                }
+
+                index++;
+                locations.set(JSON.stringify(path), { key: key, value: { offset: start, length: 1 } });
+            }
+            else {
+                if (text[index] === '"') {
+                    parseString();
+                }
+                else {
+                    while (index < text.length && !/[\s,\]}]/.test(text[index])) {
+                        index++;
+                    }
+                }
+
+                locations.set(JSON.stringify(path), { key: key, value: { offset: start, length: index - start } });
+            }
+        };
+
+        parseValue([]);
+
+        return locations;
+    }
+}
@@ -0,0 +1,177 @@
+import * as path from "path";
+import { ConfigCommand } from "../command/configCommand";
+
+/**
+ * Values and callbacks to resolve the variables of a workspace configuration
+ */
+export interface ConfigVariableContext {
+    /** Absolute path of the workspace folder, value of '${workspaceFolder}' */
+    workspaceFolder: string;
+    /** Name of the selected VSConan profile, value of '${selectedProfile}' */
+    selectedProfile: string;
+    /** Get an environment variable, value of '${env:NAME}' */
+    getEnv: (name: string) => string | undefined;
+    /** Get a setting of VS Code, value of '${config:section.key}' */
+    getConfig: (key: string) => unknown;
+    /** Get an attribute of the recipe, value of '${recipe.name}' and '${recipe.version}' */
+    getRecipeAttribute: (recipePath: string, attribute: string) => Promise<string>;
+    /** Ask the user for a value, value of '${input:prompt}'. Returns undefined if the input is cancelled. */
+    promptInput: (prompt: string) => Promise<string | undefined>;
+}
+
+/**
+ * Class to resolve the variables of a workspace configuration, before the conan command is built.
+ * Supported variables are '${workspaceFolder}', '${env:NAME}', '${config:section.key}', '${selectedProfile}',
+ * '${recipe.name}', '${recipe.version}' and '${input:prompt}'. Unknown variables are kept as they are.
+ * Each input and recipe attribute is only determined once per resolver.
+ */
+export class ConfigVariableResolver {
+    private context: ConfigVariableContext;
+    private inputValues: Map<string, string> = new Map<string, string>();
+    private recipeAttributes: Map<string, string> = new Map<string, string>();
+
+    constructor(context: ConfigVariableContext) {
+        this.context = context;
+    }
+
+    /**
+     * Resolve the variables of all text fields and arguments of a command configuration.
+     * The recipe path is resolved first, since '${recipe.name}' and '${recipe.version}' are read from this recipe.
+     * @param command Command configuration of the workspace
+     * @returns Copy of the command configuration with resolved variables | undefined if an input is cancelled by the user
+     */
+    public async resolveCommand<T extends ConfigCommand>(command: T): Promise<T | undefined> {
+        let resolvedCommand: T = Object.assign(Object.create(Object.getPrototypeOf(command)), command);
+        // The fields of the command types differ, so they are resolved by their name
+        let fields = resolvedCommand as unknown as Record<string, unknown>;
+
+        let conanRecipe = await this.resolveText(command.conanRecipe ?? "", "");
+
+        if (conanRecipe === undefined) {
+            return undefined;
+        }
+
+        resolvedCommand.conanRecipe = conanRecipe;
+
+        let recipePath = conanRecipe ? path.resolve(this.context.workspaceFolder, conanRecipe) : "";
+
+        for (let key of Object.keys(fields)) {
+            let value = fields[key];
+
+            if (key === "conanRecipe") {
+                continue;
+            }
+
+            if (typeof value === "string") {
+                let resolvedValue = await this.resolveText(value, recipePath);
+
+                if (resolvedValue === undefined) {
+                    return undefined;
+                }
+
+                fields[key] = resolvedValue;
+            }
+            else if (Array.isArray(value)) {
+                let resolvedList: Array<unknown> = [];
+
+                for (let item of value) {
+                    let resolvedItem = typeof item === "string" ? await this.resolveText(item, recipePath) : item;
+
+                    if (resolvedItem === undefined) {
+                        return undefined;
+                    }
+
+                    resolvedList.push(resolvedItem);
+                }
+
+                fields[key] = resolvedList;
+            }
+        }
+
+        return resolvedCommand;
+    }
+
+    /**
+     * Resolve the variables of a text
+     * @param text Text with variables, e.g. '${workspaceFolder}/build/${env:BUILD_TYPE}'
+     * @param recipePath Absolute path of the recipe for '${recipe.name}' and '${recipe.version}'
+     * @returns Text with resolved variables | undefined if an input is cancelled by the user
+     */
+    public async resolveText(text: string, recipePath: string): Promise<string | undefined> {
+        let variablePattern = /\$\{([^}]+)\}/g;
+        let resolvedText = "";
+        let lastIndex = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = variablePattern.exec(text)) !== null) {
+            let value = await this.resolveVariable(match[1], recipePath);
+
+            if (value === undefined) {
+                return undefined;
+            }
+
+            resolvedText += text.substring(lastIndex, match.index) + value;
+            lastIndex = match.index + match[0].length;
+        }
+
+        return resolvedText + text.substring(lastIndex);
+    }
+
+    /**
+     * Resolve a single variable
+     * @param variable Variable without '${' and '}', e.g. 'env:HOME'
+     * @param recipePath Absolute path of the recipe for '${recipe.name}' and '${recipe.version}'
+     * @returns Value of the variable, the original variable if it is unknown | undefined if an input is cancelled by the user
+     */
+    private async resolveVariable(variable: string, recipePath: string): Promise<string | undefined> {
+        let [kind, ...rest] = variable.split(":");
+        let argument = rest.join(":");
+
+        if (variable === "workspaceFolder") {
+            return this.context.workspaceFolder;
+        }
+        else if (variable === "selectedProfile") {
+            return this.context.selectedProfile;
+        }
+        else if (variable === "recipe.name" || variable === "recipe.version") {
+            return recipePath ? this.getRecipeAttribute(recipePath, variable.substring("recipe.".length)) : "";
+        }
+        else if (kind === "env" && argument) {
+            return this.context.getEnv(argument) ?? "";
+        }
+        else if (kind === "config" && argument) {
+            let value = this.context.getConfig(argument);
+
+            if (value === undefined || value === null) {
+                return "";
+            }
+
+            return typeof value === "string" ? value : JSON.stringify(value);
+        }
+        else if (kind === "input" && argument) {
+            if (!this.inputValues.has(argument)) {
+                let value = await this.context.promptInput(argument);
+
+                if (value === undefined) {
+                    return undefined;
+                }
+
+                this.inputValues.set(argument, value);
+            }
+
+            return this.inputValues.get(argument);
+        }
+
+        return `\${${variable}}`;
+    }
+
+    private async getRecipeAttribute(recipePath: string, attribute: string): Promise<string> {
+        let key = `${recipePath}:${attribute}`;
+
+        if (!this.recipeAttributes.has(key)) {
+            this.recipeAttributes.set(key, await this.context.getRecipeAttribute(recipePath, attribute));
+        }
+
+        return this.recipeAttributes.get(key)!;
+    }
+}
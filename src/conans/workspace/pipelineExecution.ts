@@ -0,0 +1,138 @@
+import { CommandContainer, ConfigCommand, ConfigPipeline, ConfigPipelineStep } from "../command/configCommand";
+
+/**
+ * Command types of the command container that can be used as a step of a pipeline
+ */
+export type PipelineCommandType = keyof Omit<CommandContainer, "pipelines">;
+
+export const PIPELINE_COMMAND_TYPES: Array<PipelineCommandType> = ["create", "install", "build", "source", "pkg", "pkgExport"];
+
+/**
+ * Check whether a command of the configuration is a command type of the command container
+ * @param command Command type, e.g. 'install' or 'pkgExport'
+ * @returns 'true' if the command can be used as a step of a pipeline
+ */
+export function isPipelineCommandType(command: string): command is PipelineCommandType {
+    return (PIPELINE_COMMAND_TYPES as Array<string>).includes(command);
+}
+
+export enum PipelineStepStatus {
+    pending = "pending",
+    running = "running",
+    succeeded = "succeeded",
+    failed = "failed",
+    cancelled = "cancelled",
+    skipped = "skipped"
+}
+
+export class PipelineStepState {
+    public step: ConfigPipelineStep;
+    public config: ConfigCommand;
+    public status: PipelineStepStatus;
+    public exitCode: number | null | undefined;
+
+    constructor(step: ConfigPipelineStep, config: ConfigCommand) {
+        this.step = step;
+        this.config = config;
+        this.status = PipelineStepStatus.pending;
+        this.exitCode = undefined;
+    }
+}
+
+/**
+ * Class to execute the steps of a pipeline one after another.
+ * The execution stops at the first step that exits with a non-zero code, the remaining steps are skipped.
+ */
+export class PipelineExecution {
+    public pipeline: ConfigPipeline;
+    public stepStates: Array<PipelineStepState>;
+
+    /**
+     * Create the execution of a pipeline
+     * @param pipeline Pipeline of the workspace configuration
+     * @param commandContainer Command container with the commands that are referenced by the steps
+     * @throws Error if a step references a command that is not configured
+     */
+    constructor(pipeline: ConfigPipeline, commandContainer: CommandContainer) {
+        this.pipeline = pipeline;
+        this.stepStates = (pipeline.steps ?? []).map(step => new PipelineStepState(step, PipelineExecution.findCommand(step, commandContainer)));
+    }
+
+    /**
+     * Find the configured command of a pipeline step
+     * @param step Step of a pipeline
+     * @param commandContainer Command container of the workspace configuration
+     * @returns Configured command of the step
+     * @throws Error if the command type is unknown or no command with the name of the step is configured
+     */
+    public static findCommand(step: ConfigPipelineStep, commandContainer: CommandContainer): ConfigCommand {
+        if (!isPipelineCommandType(step.command)) {
+            throw new Error(`Unknown command '${step.command}' in the pipeline step '${step.name}'.`);
+        }
+
+        let commandList: Array<ConfigCommand> = commandContainer[step.command] ?? [];
+        let config = commandList.find(command => command.name === step.name);
+
+        if (!config) {
+            throw new Error(`Unable to find the '${step.command}' command '${step.name}' of the pipeline step.`);
+        }
+
+        return config;
+    }
+
+    /**
+     * Execute the steps of the pipeline in order
+     * @param executeStep Callback to execute a single step, returns the exit code of the process | undefined if the step is cancelled
+     * @param onChange Callback that is called each time the status of a step changes
+     * @returns 'true' if all steps succeeded, otherwise 'false'
+     */
+    public async run(executeStep: (stepState: PipelineStepState) => Promise<number | null | undefined>, onChange: () => void = () => { }): Promise<boolean> {
+        this.stepStates.forEach(stepState => {
+            stepState.status = PipelineStepStatus.pending;
+            stepState.exitCode = undefined;
+        });
+        onChange();
+
+        for (let [index, stepState] of this.stepStates.entries()) {
+            stepState.status = PipelineStepStatus.running;
+            onChange();
+
+            try {
+                stepState.exitCode = await executeStep(stepState);
+                stepState.status = stepState.exitCode === undefined ? PipelineStepStatus.cancelled :
+                    (stepState.exitCode === 0 ? PipelineStepStatus.succeeded : PipelineStepStatus.failed);
+            }
+            catch (err) {
+                stepState.status = PipelineStepStatus.failed;
+            }
+
+            if (stepState.status !== PipelineStepStatus.succeeded) {
+                this.stepStates.slice(index + 1).forEach(remaining => remaining.status = PipelineStepStatus.skipped);
+                onChange();
+
+                return false;
+            }
+
+            onChange();
+        }
+
+        return true;
+    }
+
+    /**
+     * Check whether a step of the pipeline is currently executed
+     * @returns 'true' if a step is running, otherwise 'false'
+     */
+    public isRunning(): boolean {
+        return this.stepStates.some(stepState => stepState.status === PipelineStepStatus.running);
+    }
+
+    /**
+     * Get the status of all steps in a readable format
+     * @param getIcon Function to get a symbol for the status of a step, e.g. a codicon
+     * @returns Steps with their status, e.g. '$(pass) source → $(error) install → $(circle-slash) build'
+     */
+    public getSummary(getIcon: (status: PipelineStepStatus) => string): string {
+        return this.stepStates.map(stepState => `${getIcon(stepState.status)} ${stepState.step.name}`).join(" → ");
+    }
+}
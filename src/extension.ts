@@ -6,16 +6,26 @@ import * as utils from "./utils/utils";
 
 import { ConanAPIManager } from "./conans/api/conanAPIManager";
 import { ConanCacheExplorerManager } from "./extension/manager/explorer/conanCache";
+import { ConanCacheUsageExplorerManager } from "./extension/manager/explorer/conanCacheUsage";
+import { ConanDependencyExplorerManager } from "./extension/manager/explorer/conanDependency";
+import { ConanIntegrityExplorerManager } from "./extension/manager/explorer/conanIntegrity";
 import { ConanProfileExplorerManager } from "./extension/manager/explorer/conanProfile";
 import { ConanRemoteExplorerManager } from "./extension/manager/explorer/conanRemote";
+import { ConanCacheCleanupManager } from "./extension/manager/conanCacheCleanup";
+import { ConanLockfileManager } from "./extension/manager/conanLockfile";
+import { VSConanConfigValidationManager } from "./extension/manager/configValidation";
 import { VSConanWorkspaceManager } from "./extension/manager/vsconanWorkspace";
 import { SettingsManager } from "./extension/settings/settingsManager";
 import { SettingsPropertyManager } from "./extension/settings/settingsPropertyManager";
+import { ConanCacheUsageNodeProvider } from "./extension/ui/treeview/conanCacheUsageProvider";
+import { ConanDependencyNodeProvider } from "./extension/ui/treeview/conanDependencyProvider";
+import { ConanIntegrityNodeProvider } from "./extension/ui/treeview/conanIntegrityProvider";
 import { ConanPackageNodeProvider } from "./extension/ui/treeview/conanPackageProvider";
 import { ConanPackageRevisionNodeProvider } from "./extension/ui/treeview/conanPackageRevisionProvider";
 import { ConanProfileNodeProvider } from "./extension/ui/treeview/conanProfileProvider";
 import { ConanRecipeNodeProvider } from "./extension/ui/treeview/conanRecipeProvider";
 import { ConanRemoteNodeProvider } from "./extension/ui/treeview/conanRemoteProvider";
+import { ConanRemoteSearchNodeProvider } from "./extension/ui/treeview/conanRemoteSearchProvider";
 
 // This method is called when the extension is activated
 export function activate(context: vscode.ExtensionContext) {
@@ -43,16 +53,29 @@ export function activate(context: vscode.ExtensionContext) {
     const conanPackageNodeProvider = new ConanPackageNodeProvider(conanApiManager, settingsPropertyManager);
     const conanPackageRevisionNodeProvider = new ConanPackageRevisionNodeProvider(conanApiManager, settingsPropertyManager);
     const conanRemoteNodeProvider = new ConanRemoteNodeProvider(conanApiManager);
+    const conanRemoteSearchNodeProvider = new ConanRemoteSearchNodeProvider(conanApiManager);
+    const conanDependencyNodeProvider = new ConanDependencyNodeProvider(conanApiManager);
+    const conanCacheUsageNodeProvider = new ConanCacheUsageNodeProvider(conanApiManager);
+    const conanIntegrityNodeProvider = new ConanIntegrityNodeProvider();
 
     const conanCacheExplorerManager = new ConanCacheExplorerManager(context, channelVSConan, conanApiManager, settingsPropertyManager, conanRecipeNodeProvider, conanPackageNodeProvider, conanPackageRevisionNodeProvider);
     const conanProfileExplorerManager = new ConanProfileExplorerManager(context, channelVSConan, conanApiManager, conanProfileNodeProvider);
-    const conanRemoteExplorerManager = new ConanRemoteExplorerManager(context, channelVSConan, conanApiManager, conanRemoteNodeProvider);
+    const conanRemoteExplorerManager = new ConanRemoteExplorerManager(context, channelVSConan, conanApiManager, conanRemoteNodeProvider, conanRemoteSearchNodeProvider);
+    const conanDependencyExplorerManager = new ConanDependencyExplorerManager(context, channelVSConan, conanApiManager, conanDependencyNodeProvider);
+    const conanCacheUsageExplorerManager = new ConanCacheUsageExplorerManager(context, channelVSConan, conanApiManager, conanCacheUsageNodeProvider);
+    const conanIntegrityExplorerManager = new ConanIntegrityExplorerManager(context, channelVSConan, conanApiManager, conanIntegrityNodeProvider);
     const conanWorkspaceManager = new VSConanWorkspaceManager(context, channelVSConan, conanApiManager, settingsPropertyManager);
+    const conanLockfileManager = new ConanLockfileManager(context, channelVSConan, conanApiManager);
+    const conanCacheCleanupManager = new ConanCacheCleanupManager(context, channelVSConan, conanApiManager);
+    const configValidationManager = new VSConanConfigValidationManager(context, channelVSConan);
 
     const settingsManager = new SettingsManager(conanApiManager,
         conanCacheExplorerManager,
         conanProfileExplorerManager,
         conanRemoteExplorerManager,
+        conanDependencyExplorerManager,
+        conanCacheUsageExplorerManager,
+        conanIntegrityExplorerManager,
         conanWorkspaceManager,
         settingsPropertyManager);
 
@@ -99,7 +122,13 @@ export function activate(context: vscode.ExtensionContext) {
         conanCacheExplorerManager,
         conanProfileExplorerManager,
         conanRemoteExplorerManager,
+        conanDependencyExplorerManager,
+        conanCacheUsageExplorerManager,
+        conanIntegrityExplorerManager,
         conanWorkspaceManager,
+        conanLockfileManager,
+        conanCacheCleanupManager,
+        configValidationManager,
         configListener
     );
 }
@@ -119,6 +148,9 @@ function initContextState(context: vscode.ExtensionContext) {
     context.workspaceState.update('recipe-filtered', false);
     context.workspaceState.update('recipe-filter-key', "");
 
+    // The pattern filter of the recipes is kept between the sessions
+    vscode.commands.executeCommand('setContext', 'recipe-pattern-filtered', !!context.workspaceState.get('recipe-pattern-filter-key'));
+
     vscode.commands.executeCommand('setContext', 'package-filtered', false);
     context.workspaceState.update('package-filtered', false);
     context.workspaceState.update('package-filter-key', "");
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { CompilerOutputParser, CompilerProblem, CompilerProblemSeverity } from '../../conans/workspace/compilerOutputParser';
+import { Disposable } from '../disposable';
+
+/**
+ * Names of the problem matchers in the package.json, which are used by the conan tasks
+ */
+export const CONAN_PROBLEM_MATCHERS: Array<string> = ["$conan-gcc", "$conan-msvc"];
+
+/**
+ * Handler of the streamed output of a single conan process
+ */
+export interface CompilerOutputHandler {
+    /** Append a chunk of the standard or error output of the process */
+    append: (data: string, stream: "stdout" | "stderr") => void;
+    /** Parse the rest of both outputs once the process is finished */
+    flush: () => void;
+}
+
+/**
+ * Class to show the compiler problems of the workspace commands in the problems view
+ */
+export class VSConanCompilerDiagnostics extends Disposable {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private diagnostics: Map<string, Array<vscode.Diagnostic>> = new Map<string, Array<vscode.Diagnostic>>();
+
+    public constructor() {
+        super();
+
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection("conan-build");
+        this.registerDisposable(this.diagnosticCollection);
+    }
+
+    /**
+     * Remove the problems of the previous conan commands
+     */
+    public clear() {
+        this.diagnostics.clear();
+        this.diagnosticCollection.clear();
+    }
+
+    /**
+     * Create the handler for the output of a conan process, whose compiler problems are added to the problems view
+     * @param wsPath Absolute path of the workspace, which the paths of the Conan cache are mapped to
+     * @returns Output handler of the process
+     */
+    public createOutputHandler(wsPath: string): CompilerOutputHandler {
+        let workspaceFolders = [wsPath, ...(vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath).filter(folder => folder !== wsPath)];
+
+        // The chunks of both streams are interleaved, so each stream is parsed separately to keep its lines intact
+        let parsers = new Map<string, CompilerOutputParser>([
+            ["stdout", new CompilerOutputParser(workspaceFolders)],
+            ["stderr", new CompilerOutputParser(workspaceFolders)]
+        ]);
+
+        return {
+            append: (data: string, stream: "stdout" | "stderr") => this.addProblems(parsers.get(stream)!.append(data)),
+            flush: () => parsers.forEach(parser => this.addProblems(parser.flush()))
+        };
+    }
+
+    private addProblems(problemList: Array<CompilerProblem>) {
+        let changedFiles = new Set<string>();
+
+        for (let problem of problemList) {
+            let line = Math.max(problem.line - 1, 0);
+            let column = Math.max(problem.column - 1, 0);
+            let range = new vscode.Range(line, column, line, problem.column > 0 ? column + 1 : Number.MAX_SAFE_INTEGER);
+            let severity = problem.severity === CompilerProblemSeverity.error ? vscode.DiagnosticSeverity.Error :
+                (problem.severity === CompilerProblemSeverity.warning ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information);
+
+            let diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+            diagnostic.source = "conan";
+
+            if (problem.code) {
+                diagnostic.code = problem.code;
+            }
+
+            let fileDiagnostics = this.diagnostics.get(problem.file) ?? [];
+
+            // Headers are compiled by several translation units, so the same problem can be reported more than once
+            if (!fileDiagnostics.some(existing => existing.range.isEqual(range) && existing.message === diagnostic.message)) {
+                fileDiagnostics.push(diagnostic);
+            }
+
+            this.diagnostics.set(problem.file, fileDiagnostics);
+            changedFiles.add(problem.file);
+        }
+
+        changedFiles.forEach(file => this.diagnosticCollection.set(vscode.Uri.file(file), this.diagnostics.get(file)));
+    }
+}
@@ -0,0 +1,204 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../conans/api/conanAPIManager';
+import { ConanCacheUsageCalculator } from '../../conans/api/conanCacheUsageCalculator';
+import { ConanCacheUsage } from '../../conans/model/conanCacheUsage';
+import * as utils from '../../utils/utils';
+import { ExtensionManager } from "./extensionManager";
+
+/**
+ * Default number of days without usage, after which a recipe is offered for removal
+ */
+const DEFAULT_LRU_DAYS: number = 30;
+
+/**
+ * Class to clean up the local conan cache
+ */
+export class ConanCacheCleanupManager extends ExtensionManager {
+    private context: vscode.ExtensionContext;
+    private outputChannel: vscode.OutputChannel;
+    private conanApiManager: ConanAPIManager;
+    private cacheUsageCalculator: ConanCacheUsageCalculator;
+
+    /**
+     * Create the conan cache cleanup manager
+     * @param context The context of the extension
+     * @param outputChannel Output channel of the extension
+     * @param conanApiManager Conan API
+     */
+    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, conanApiManager: ConanAPIManager) {
+        super();
+
+        this.context = context;
+        this.outputChannel = outputChannel;
+        this.conanApiManager = conanApiManager;
+        this.cacheUsageCalculator = new ConanCacheUsageCalculator(conanApiManager);
+
+        this.registerCommand("vsconan.conan.cache.cleanup.lru", () => this.cleanupUnusedRecipes());
+        this.registerCommand("vsconan.conan.cache.cleanup.dirty", () => this.cleanupDirtyPackages());
+    }
+
+    /**
+     * Remove the recipes with their binary packages that are not used within a number of days.
+     * The user selects the number of days and references to be kept, and confirms the removal in a preview
+     * that lists the unused recipes with the disk space they occupy.
+     */
+    private async cleanupUnusedRecipes() {
+        const daysInput = await vscode.window.showInputBox({
+            title: "Clean Up Cache - Remove recipes that are not used within a number of days",
+            prompt: "Number of days without usage",
+            value: DEFAULT_LRU_DAYS.toString(),
+            validateInput: text => /^[1-9]\d*$/.test(text.trim()) ? null : "Enter a positive number of days."
+        });
+
+        if (!daysInput) {
+            return;
+        }
+
+        let days = parseInt(daysInput.trim());
+
+        const exclusionInput = await vscode.window.showInputBox({
+            title: "Clean Up Cache - Exclusions",
+            prompt: "References or patterns to be kept, separated by whitespace, e.g. 'zlib/* boost/1.83.0'. Leave empty to keep nothing."
+        });
+
+        // Input is cancelled by the user
+        if (exclusionInput === undefined) {
+            return;
+        }
+
+        let exclusions = exclusionInput.trim() ? exclusionInput.trim().split(/\s+/) : [];
+
+        try {
+            const usageList = await this.withConanProgress(`Collecting recipes not used within ${days} days`, async (token, progress) => {
+                let lruRecipes = (await this.conanApiManager.conanApi.getLruRecipes(days, token))
+                    .filter(recipe => !exclusions.some(pattern => utils.conan.matchReferencePattern(recipe.name, pattern)));
+
+                let lruUsageList: Array<ConanCacheUsage> = [];
+
+                for (let [index, recipe] of lruRecipes.entries()) {
+                    // Preview is cancelled by the user
+                    if (token.isCancellationRequested) {
+                        return undefined;
+                    }
+
+                    progress.report({ message: `${recipe.name} (${index + 1}/${lruRecipes.length})`, increment: 100 / lruRecipes.length });
+                    lruUsageList.push(await this.cacheUsageCalculator.calculateRecipeUsage(recipe, token));
+                }
+
+                return lruUsageList.sort((a, b) => b.size - a.size);
+            });
+
+            if (!usageList) {
+                return;
+            }
+
+            if (usageList.length === 0) {
+                vscode.window.showInformationMessage(`No recipes found that are not used within ${days} days.`);
+                return;
+            }
+
+            let totalSize = usageList.reduce((sum, usage) => sum + usage.size, 0);
+
+            const recipeChoice = await vscode.window.showQuickPick(usageList.map(usage => ({
+                label: usage.recipe,
+                description: utils.general.formatSize(usage.size),
+                detail: usage.children.length > 0 && usage.children[0].revisionId ? `Revisions: ${usage.children.map(child => child.revisionId).join(", ")}` : undefined,
+                picked: true,
+                usage: usage
+            })), {
+                title: `Clean Up Cache - ${usageList.length} unused recipes, ${utils.general.formatSize(totalSize)}`,
+                placeHolder: "Deselect the recipes to be kept",
+                canPickMany: true
+            });
+
+            if (!recipeChoice || recipeChoice.length === 0) {
+                return;
+            }
+
+            let answer = await vscode.window.showWarningMessage(`Are you sure you want to remove ${recipeChoice.length} recipes with their binary packages and free ${utils.general.formatSize(recipeChoice.reduce((sum, choice) => sum + choice.usage.size, 0))}?`, ...["Yes", "No"]);
+
+            if (answer !== "Yes") {
+                return;
+            }
+
+            let removedList = await this.withConanProgress(`Removing recipes not used within ${days} days`, async (token, progress) => {
+                // Without exclusions conan is able to remove everything at once
+                if (exclusions.length === 0 && recipeChoice.length === usageList.length) {
+                    await this.conanApiManager.conanApi.removeLruRecipes(days, "*", token);
+                    return usageList;
+                }
+
+                let removedUsageList: Array<ConanCacheUsage> = [];
+
+                for (let [index, choice] of recipeChoice.entries()) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+
+                    progress.report({ message: `${choice.usage.recipe} (${index + 1}/${recipeChoice.length})`, increment: 100 / recipeChoice.length });
+                    await this.conanApiManager.conanApi.removeLruRecipes(days, choice.usage.recipe, token);
+                    removedUsageList.push(choice.usage);
+                }
+
+                return removedUsageList;
+            });
+
+            vscode.window.showInformationMessage(`Removed ${removedList.length} unused recipes and freed ${utils.general.formatSize(removedList.reduce((sum, usage) => sum + usage.size, 0))}.`);
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+
+        vscode.commands.executeCommand("vsconan.explorer.treeview.recipe.refresh");
+        vscode.commands.executeCommand("vsconan.explorer.treeview.cache-usage.refresh");
+    }
+
+    /**
+     * Clean the dirty packages, incomplete builds and intermediate folders of the Conan 2 cache with 'conan cache clean'.
+     * The reclaimed space is measured with the size of the package storage before and after cleaning.
+     */
+    private async cleanupDirtyPackages() {
+        const folderChoice = await vscode.window.showQuickPick([
+            { label: "Temporary files", description: "--temp", detail: "Temporary folders, dirty packages and incomplete builds", picked: true, option: "temp" },
+            { label: "Downloads", description: "--download", detail: "Downloaded archives of recipes and packages", picked: true, option: "download" },
+            { label: "Build folders", description: "--build", detail: "Build folders of the packages built from source", picked: true, option: "build" },
+            { label: "Source folders", description: "--source", detail: "Sources of the recipes, they are retrieved again for the next build from source", picked: true, option: "source" }
+        ], {
+            title: "Clean All Dirty Packages - Select the folders to be cleaned",
+            canPickMany: true
+        });
+
+        if (!folderChoice || folderChoice.length === 0) {
+            return;
+        }
+
+        let options = folderChoice.map(choice => choice.option);
+
+        try {
+            let reclaimedSize = await this.withConanProgress("Cleaning dirty packages", async (token, progress) => {
+                let conanHomePath = await this.conanApiManager.conanApi.getConanHomePath(token);
+                let storagePath = conanHomePath ? path.join(conanHomePath, "p") : "";
+
+                progress.report({ message: "Measuring the cache" });
+                let sizeBefore = storagePath ? await utils.general.getFolderSize(storagePath, token) : 0;
+
+                progress.report({ message: "Running 'conan cache clean'" });
+                await this.conanApiManager.conanApi.cleanCache(options.includes("temp"), options.includes("download"), options.includes("build"), options.includes("source"), token);
+
+                progress.report({ message: "Measuring the cache" });
+                let sizeAfter = storagePath ? await utils.general.getFolderSize(storagePath, token) : 0;
+
+                return Math.max(sizeBefore - sizeAfter, 0);
+            });
+
+            vscode.window.showInformationMessage(`Cleaned the local cache and reclaimed ${utils.general.formatSize(reclaimedSize)}.`);
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+
+        vscode.commands.executeCommand("vsconan.explorer.treeview.package.refresh");
+        vscode.commands.executeCommand("vsconan.explorer.treeview.cache-usage.refresh");
+    }
+}
@@ -0,0 +1,240 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../conans/api/conanAPIManager';
+import { ConfigCommandInstall } from '../../conans/command/configCommand';
+import { ConanLockfile, LockfileRequireType } from '../../conans/model/conanLockfile';
+import * as utils from '../../utils/utils';
+import { createLockfileHtml } from '../ui/webview/conanLockfileView';
+import { ExtensionManager } from "./extensionManager";
+
+/**
+ * Default file name of a lockfile
+ */
+const LOCKFILE_NAME: string = "conan.lock";
+
+/**
+ * File filter of the open and save dialogs for lockfiles
+ */
+function getLockfileFilters(): { [name: string]: string[] } {
+    let filters: { [name: string]: string[] } = {};
+    filters["Conan Lockfile"] = ["lock"];
+
+    return filters;
+}
+
+/**
+ * Class to manage the lockfiles of the conan workspace
+ */
+export class ConanLockfileManager extends ExtensionManager {
+    private context: vscode.ExtensionContext;
+    private outputChannel: vscode.OutputChannel;
+    private conanApiManager: ConanAPIManager;
+
+    /**
+     * Create the conan lockfile manager
+     * @param context The context of the extension
+     * @param outputChannel Output channel of the extension
+     * @param conanApiManager Conan API
+     */
+    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, conanApiManager: ConanAPIManager) {
+        super();
+
+        this.context = context;
+        this.outputChannel = outputChannel;
+        this.conanApiManager = conanApiManager;
+
+        this.registerCommand("vsconan.conan.lockfile.create", () => this.createLockfile());
+        this.registerCommand("vsconan.conan.lockfile.add", (uri?: vscode.Uri) => this.addToLockfile(uri));
+        this.registerCommand("vsconan.conan.lockfile.merge", () => this.mergeLockfiles());
+        this.registerCommand("vsconan.conan.lockfile.open", (uri?: vscode.Uri) => this.openLockfile(uri));
+    }
+
+    /**
+     * Create a lockfile for a recipe of the workspace.
+     * The recipe, profile and arguments are taken from the install configuration of the workspace.
+     * The lockfile is written to 'lockfileOut' of the configuration or next to the recipe.
+     */
+    private async createLockfile() {
+        let wsPath = await utils.workspace.selectWorkspace();
+
+        if (!wsPath) {
+            return;
+        }
+
+        let installConfig: ConfigCommandInstall | undefined = new ConfigCommandInstall();
+        installConfig.profile = "";
+
+        let installConfigList = utils.vsconan.config.readWorkspaceConfig(wsPath)?.commandContainer?.install ?? [];
+
+        if (installConfigList.length > 0) {
+            installConfig = await utils.vsconan.config.selectConfigCommand(installConfigList);
+        }
+
+        // Selection is cancelled by the user
+        if (!installConfig) {
+            return;
+        }
+
+        try {
+            let resolver = utils.vsconan.config.createVariableResolver(wsPath,
+                (recipePath, attribute) => this.conanApiManager.conanApi.getRecipeAttribute(recipePath, attribute));
+
+            installConfig = await resolver.resolveCommand(installConfig);
+
+            // Input of a variable is cancelled by the user
+            if (!installConfig) {
+                return;
+            }
+
+            let conanfilePath = this.getAbsolutePath(wsPath, installConfig.conanRecipe);
+            let lockfileOut = installConfig.lockfileOut ?
+                this.getAbsolutePath(wsPath, installConfig.lockfileOut) :
+                path.join(path.dirname(conanfilePath), LOCKFILE_NAME);
+
+            await this.withConanProgress(`Creating lockfile '${lockfileOut}'`,
+                (token) => this.conanApiManager.conanApi.createLockfile(conanfilePath, lockfileOut, installConfig!.profile ?? "", installConfig!.args ?? [], token));
+
+            this.showLockfile(lockfileOut);
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Pin additional references in a lockfile with 'conan lock add'
+     * @param uri Lockfile selected in the file explorer, the user is asked for a lockfile if this is undefined
+     */
+    private async addToLockfile(uri?: vscode.Uri) {
+        let lockfile = uri?.fsPath ?? await this.selectLockfile();
+
+        if (!lockfile) {
+            return;
+        }
+
+        const requireTypeChoice = await vscode.window.showQuickPick([
+            { label: "Requires", requireType: LockfileRequireType.requires },
+            { label: "Build Requires", requireType: LockfileRequireType.buildRequires },
+            { label: "Python Requires", requireType: LockfileRequireType.pythonRequires }
+        ], { title: "Lockfile - Select the kind of requirement" });
+
+        if (!requireTypeChoice) {
+            return;
+        }
+
+        const referenceInput = await vscode.window.showInputBox({
+            title: "Lockfile - References to be added",
+            prompt: "Separate multiple references with whitespace, e.g. 'zlib/1.2.13#revision fmt/10.1.0'",
+            validateInput: text => text.trim() ? null : "At least one reference is required."
+        });
+
+        if (!referenceInput) {
+            return;
+        }
+
+        try {
+            await this.withConanProgress(`Updating lockfile '${lockfile}'`,
+                (token) => this.conanApiManager.conanApi.addToLockfile(lockfile!, referenceInput.trim().split(/\s+/), requireTypeChoice.requireType, token));
+
+            this.showLockfile(lockfile);
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Merge several lockfiles into one lockfile with 'conan lock merge'
+     */
+    private async mergeLockfiles() {
+        let lockfileUris = await vscode.window.showOpenDialog({
+            title: "Lockfile - Select the lockfiles to be merged",
+            canSelectMany: true,
+            defaultUri: vscode.workspace.workspaceFolders?.[0].uri,
+            filters: getLockfileFilters()
+        });
+
+        if (!lockfileUris) {
+            return;
+        }
+
+        if (lockfileUris.length < 2) {
+            vscode.window.showWarningMessage("Select at least two lockfiles to be merged.");
+            return;
+        }
+
+        let lockfileOutUri = await vscode.window.showSaveDialog({
+            title: "Lockfile - Save the merged lockfile",
+            defaultUri: vscode.Uri.file(path.join(path.dirname(lockfileUris[0].fsPath), LOCKFILE_NAME)),
+            filters: getLockfileFilters()
+        });
+
+        if (!lockfileOutUri) {
+            return;
+        }
+
+        try {
+            await this.withConanProgress(`Merging ${lockfileUris.length} lockfiles`,
+                (token) => this.conanApiManager.conanApi.mergeLockfiles(lockfileUris!.map(uri => uri.fsPath), lockfileOutUri!.fsPath, token));
+
+            this.showLockfile(lockfileOutUri.fsPath);
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Open the lockfile viewer
+     * @param uri Lockfile selected in the file explorer, the user is asked for a lockfile if this is undefined
+     */
+    private async openLockfile(uri?: vscode.Uri) {
+        let lockfile = uri?.fsPath ?? await this.selectLockfile();
+
+        if (lockfile) {
+            this.showLockfile(lockfile);
+        }
+    }
+
+    /**
+     * Show the locked references of a lockfile in a webview
+     * @param lockfile Path of the lockfile
+     */
+    private showLockfile(lockfile: string) {
+        try {
+            let lockfileModel = ConanLockfile.parse(fs.readFileSync(lockfile, 'utf8'));
+
+            const panel = vscode.window.createWebviewPanel(
+                "vsconan.lockfile",
+                path.basename(lockfile),
+                vscode.ViewColumn.One,
+                {}
+            );
+
+            panel.webview.html = createLockfileHtml(lockfile, lockfileModel);
+        }
+        catch (err) {
+            vscode.window.showErrorMessage(`Unable to read lockfile '${lockfile}': ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Ask the user for a lockfile
+     * @returns Path of the selected lockfile | undefined if nothing is selected
+     */
+    private async selectLockfile(): Promise<string | undefined> {
+        let lockfileUris = await vscode.window.showOpenDialog({
+            title: "Lockfile - Select a lockfile",
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0].uri,
+            filters: getLockfileFilters()
+        });
+
+        return lockfileUris?.[0].fsPath;
+    }
+
+    private getAbsolutePath(wsPath: string, pathName: string): string {
+        return path.isAbsolute(pathName) ? pathName : path.join(wsPath, pathName);
+    }
+}
@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import { CommandBuilder } from '../../conans/command/commandBuilder';
+import { CommandContainer, ConfigCommand } from '../../conans/command/configCommand';
+import { ConfigVariableResolver } from '../../conans/workspace/configVariableResolver';
+import { isPipelineCommandType, PIPELINE_COMMAND_TYPES } from '../../conans/workspace/pipelineExecution';
+import * as utils from '../../utils/utils';
+import { CONAN_PROBLEM_MATCHERS } from './compilerDiagnostics';
+
+/**
+ * Type of the conan tasks in 'tasks.json'
+ */
+export const CONAN_TASK_TYPE: string = "conan";
+
+/**
+ * Definition of a conan task in 'tasks.json', which references a command of the workspace configuration
+ */
+export interface ConanTaskDefinition extends vscode.TaskDefinition {
+    /** Type of the command in the command container, e.g. 'install' or 'pkgExport' */
+    command: string;
+    /** Name of the configured command */
+    config: string;
+}
+
+/**
+ * Conan command line of the selected VSConan profile, which the tasks are executed with
+ */
+export interface ConanTaskEnvironment {
+    /** Executable of the conan command followed by its leading arguments, e.g. ['python', '-m', 'conans.conan'] */
+    conanCommand: Array<string>;
+    conanVersion: string;
+    commandBuilder: CommandBuilder;
+    /** Environment variables of the active Conan BuildEnv/RunEnv, without the stored credentials of the remotes */
+    env: { [name: string]: string };
+}
+
+/**
+ * Task provider of the type 'conan', which offers each command of '.vsconan/config.json' as a task.
+ * The tasks run in the integrated terminal with the conan command of the selected VSConan profile.
+ */
+export class ConanTaskProvider implements vscode.TaskProvider {
+    private outputChannel: vscode.OutputChannel;
+    private getTaskEnvironment: () => Promise<ConanTaskEnvironment | undefined>;
+    private getRecipeAttribute: (recipePath: string, attribute: string) => Promise<string>;
+
+    /**
+     * @param outputChannel Output channel of the extension
+     * @param getTaskEnvironment Callback to get the conan command line of the selected profile, undefined if the profile is invalid
+     * @param getRecipeAttribute Callback to read an attribute of a recipe with conan
+     */
+    public constructor(outputChannel: vscode.OutputChannel,
+        getTaskEnvironment: () => Promise<ConanTaskEnvironment | undefined>,
+        getRecipeAttribute: (recipePath: string, attribute: string) => Promise<string>) {
+
+        this.outputChannel = outputChannel;
+        this.getTaskEnvironment = getTaskEnvironment;
+        this.getRecipeAttribute = getRecipeAttribute;
+    }
+
+    public async provideTasks(token: vscode.CancellationToken): Promise<vscode.Task[]> {
+        let taskEnvironment = await this.getTaskEnvironment();
+        let taskList: Array<vscode.Task> = [];
+
+        if (!taskEnvironment) {
+            return taskList;
+        }
+
+        for (let folder of vscode.workspace.workspaceFolders ?? []) {
+            let commandContainer = this.readCommandContainer(folder);
+
+            if (!commandContainer) {
+                continue;
+            }
+
+            let resolver = this.createVariableResolver(folder);
+
+            for (let commandType of PIPELINE_COMMAND_TYPES) {
+                for (let config of this.getCommandList(commandContainer, commandType)) {
+                    if (token.isCancellationRequested) {
+                        return taskList;
+                    }
+
+                    let definition: ConanTaskDefinition = { type: CONAN_TASK_TYPE, command: commandType, config: config.name };
+                    let task = await this.createTask(folder, definition, config, taskEnvironment, resolver);
+
+                    if (task) {
+                        taskList.push(task);
+                    }
+                }
+            }
+        }
+
+        return taskList;
+    }
+
+    public async resolveTask(task: vscode.Task, token: vscode.CancellationToken): Promise<vscode.Task | undefined> {
+        let definition = task.definition as ConanTaskDefinition;
+        let folder = task.scope;
+
+        // Conan tasks are only available for workspace folders, which contain the configuration file
+        if (!definition.command || !definition.config || !folder || typeof folder === "number") {
+            return undefined;
+        }
+
+        let commandContainer = this.readCommandContainer(folder);
+        let config = commandContainer ? this.getCommandList(commandContainer, definition.command).find(command => command.name === definition.config) : undefined;
+
+        if (!config) {
+            this.outputChannel.appendLine(`ERROR: Unable to find the '${definition.command}' command '${definition.config}' in the configuration of '${folder.uri.fsPath}'`);
+            return undefined;
+        }
+
+        let taskEnvironment = await this.getTaskEnvironment();
+
+        if (!taskEnvironment || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        // The definition of 'tasks.json' has to be kept, otherwise VS Code cannot match the resolved task
+        return this.createTask(folder, definition, config, taskEnvironment, this.createVariableResolver(folder));
+    }
+
+    /**
+     * Create a shell task that executes a configured command
+     * @param folder Workspace folder of the configuration
+     * @param definition Task definition
+     * @param config Configured command
+     * @param taskEnvironment Conan command line of the selected profile
+     * @param resolver Resolver for the variables of the configured command
+     * @returns Task | undefined if the command cannot be built with the Conan version of the selected profile
+     */
+    private async createTask(folder: vscode.WorkspaceFolder, definition: ConanTaskDefinition, config: ConfigCommand,
+        taskEnvironment: ConanTaskEnvironment, resolver: ConfigVariableResolver): Promise<vscode.Task | undefined> {
+
+        // The command 'conan package' doesn't exist in Conan 2
+        if (definition.command === "pkg" && taskEnvironment.conanVersion === "2") {
+            return undefined;
+        }
+
+        let resolvedConfig: ConfigCommand | undefined;
+
+        try {
+            resolvedConfig = await resolver.resolveCommand(config);
+        }
+        catch (err) {
+            this.outputChannel.appendLine(`ERROR: Unable to resolve the variables of the '${definition.command}' command '${config.name}': ${(err as Error).message}`);
+            return undefined;
+        }
+
+        let [subCommand, cmdArgs] = taskEnvironment.commandBuilder.buildCommand(definition.command, folder.uri.fsPath, resolvedConfig!);
+
+        if (!cmdArgs) {
+            return undefined;
+        }
+
+        // Each argument is quoted by VS Code for the shell of the terminal, so paths and values with whitespaces are kept as one argument
+        let [executable, ...conanArgs] = taskEnvironment.conanCommand;
+        let execution = new vscode.ShellExecution(this.quote(executable), [...conanArgs, subCommand, ...cmdArgs].map(arg => this.quote(arg)), {
+            cwd: folder.uri.fsPath,
+            env: taskEnvironment.env
+        });
+
+        let task = new vscode.Task(definition, folder, `${subCommand}: ${config.name}`, CONAN_TASK_TYPE, execution, CONAN_PROBLEM_MATCHERS);
+        task.detail = config.description;
+
+        if (definition.command === "build" || definition.command === "create") {
+            task.group = vscode.TaskGroup.Build;
+        }
+
+        return task;
+    }
+
+    private quote(value: string): vscode.ShellQuotedString {
+        return { value: value, quoting: vscode.ShellQuoting.Strong };
+    }
+
+    /**
+     * Create the variable resolver of a workspace folder
+     * Inputs are not asked while the tasks are provided, '${input:...}' is kept and resolved by VS Code from the 'inputs' of 'tasks.json'.
+     * @param folder Workspace folder of the configuration
+     * @returns Variable resolver of the workspace folder
+     */
+    private createVariableResolver(folder: vscode.WorkspaceFolder): ConfigVariableResolver {
+        return utils.vsconan.config.createVariableResolver(folder.uri.fsPath, this.getRecipeAttribute,
+            (prompt) => Promise.resolve(`\${input:${prompt}}`));
+    }
+
+    /**
+     * Read the command container of a workspace folder
+     * @param folder Workspace folder
+     * @returns Command container | undefined if the folder has no or an invalid configuration file
+     */
+    private readCommandContainer(folder: vscode.WorkspaceFolder): CommandContainer | undefined {
+        try {
+            return utils.vsconan.config.readWorkspaceConfig(folder.uri.fsPath)?.commandContainer;
+        }
+        catch (err) {
+            this.outputChannel.appendLine(`ERROR: Unable to read the configuration of '${folder.uri.fsPath}': ${(err as Error).message}`);
+            return undefined;
+        }
+    }
+
+    private getCommandList(commandContainer: CommandContainer, commandType: string): Array<ConfigCommand> {
+        return isPipelineCommandType(commandType) ? commandContainer[commandType] ?? [] : [];
+    }
+}
@@ -0,0 +1,61 @@
+import * as path from "path";
+import * as vscode from 'vscode';
+import { ConfigValidator } from '../../conans/workspace/configValidator';
+import * as constants from "../../utils/constants";
+import { ExtensionManager } from "./extensionManager";
+
+/**
+ * Class to validate the workspace configuration files '.vsconan/config.json' while they are edited
+ */
+export class VSConanConfigValidationManager extends ExtensionManager {
+    private context: vscode.ExtensionContext;
+    private outputChannel: vscode.OutputChannel;
+    private diagnosticCollection: vscode.DiagnosticCollection;
+
+    /**
+     * Create the config validation manager
+     * @param context The context of the extension
+     * @param outputChannel Output channel of the extension
+     */
+    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel) {
+        super();
+
+        this.context = context;
+        this.outputChannel = outputChannel;
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection("vsconan");
+
+        this.registerDisposable(this.diagnosticCollection);
+        this.registerDisposable(vscode.workspace.onDidOpenTextDocument(document => this.validateDocument(document)));
+        this.registerDisposable(vscode.workspace.onDidChangeTextDocument(event => this.validateDocument(event.document)));
+        this.registerDisposable(vscode.workspace.onDidCloseTextDocument(document => this.diagnosticCollection.delete(document.uri)));
+
+        // Configuration files that are already open before the extension is activated
+        vscode.workspace.textDocuments.forEach(document => this.validateDocument(document));
+    }
+
+    /**
+     * Check whether a file is a workspace configuration file of VSConan
+     * @param filePath Absolute path of the file
+     * @returns 'true' if the file is '.vsconan/config.json', otherwise 'false'
+     */
+    public static isConfigFile(filePath: string): boolean {
+        return path.basename(filePath) === constants.CONFIG_FILE && path.basename(path.dirname(filePath)) === constants.VSCONAN_FOLDER;
+    }
+
+    private validateDocument(document: vscode.TextDocument) {
+        if (document.uri.scheme !== "file" || !VSConanConfigValidationManager.isConfigFile(document.uri.fsPath)) {
+            return;
+        }
+
+        let diagnostics = ConfigValidator.validateText(document.getText()).map(issue => {
+            let range = new vscode.Range(document.positionAt(issue.offset), document.positionAt(issue.offset + issue.length));
+            let diagnostic = new vscode.Diagnostic(range, issue.message, vscode.DiagnosticSeverity.Error);
+
+            diagnostic.source = "VSConan";
+
+            return diagnostic;
+        });
+
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+}
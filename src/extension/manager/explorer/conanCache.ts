@@ -1,10 +1,11 @@
 import * as vscode from 'vscode';
 import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
 import { RecipeFolderOption } from '../../../conans/conan/api/conanAPI';
+import * as utils from '../../../utils/utils';
 import { SettingsPropertyManager } from '../../settings/settingsPropertyManager';
 import { ConanPackageItem, ConanPackageNodeProvider } from '../../ui/treeview/conanPackageProvider';
 import { ConanPackageRevisionItem, ConanPackageRevisionNodeProvider } from '../../ui/treeview/conanPackageRevisionProvider';
-import { ConanRecipeItem, ConanRecipeNodeProvider } from '../../ui/treeview/conanRecipeProvider';
+import { ConanRecipeItem, ConanRecipeNodeProvider, ConanRecipeRevisionItem } from '../../ui/treeview/conanRecipeProvider';
 import { ExtensionManager } from '../extensionManager';
 
 /**
@@ -64,12 +65,17 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         this.registerCommand("vsconan.explorer.treeview.recipe.refresh", () => this.recipeRefreshTreeview());
         this.registerCommand("vsconan.explorer.treeview.recipe.filter.set", () => this.recipeSetFilter());
         this.registerCommand("vsconan.explorer.treeview.recipe.filter.clear", () => this.recipeClearFilter());
+        this.registerCommand("vsconan.explorer.treeview.recipe.pattern-filter.set", () => this.recipeSetPatternFilter());
+        this.registerCommand("vsconan.explorer.treeview.recipe.pattern-filter.clear", () => this.recipeClearPatternFilter());
         this.registerCommand("vsconan.explorer.treeview.recipe.item.selected", () => this.recipeItemSelected());
+        this.registerCommand("vsconan.explorer.treeview.recipe.reveal", (ref: string, revision?: string) => this.recipeReveal(ref, revision));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.information", (node: ConanRecipeItem) => this.recipeShowInformation(node));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.open-explorer", (node: ConanRecipeItem) => this.recipeOpenExplorer(node));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.open-vscode", (node: ConanRecipeItem) => this.recipeOpenVSCode(node));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.remove", (node: ConanRecipeItem) => this.recipeRemove(node));
+        this.registerCommand("vsconan.explorer.treeview.recipe.item.upload", (node: ConanRecipeItem) => this.recipeUpload(node));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.copy-clipboard", (node: ConanRecipeItem) => this.recipeCopyPathToClipboard(node));
+        this.registerCommand("vsconan.explorer.treeview.recipe.revision.item.remove", (node: ConanRecipeRevisionItem) => this.recipeRevisionRemove(node));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.open.explorer.build", (node: ConanRecipeItem) => this.recipeOpenFolderInExplorer(node, RecipeFolderOption.build));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.open.explorer.download", (node: ConanRecipeItem) => this.recipeOpenFolderInExplorer(node, RecipeFolderOption.download));
         this.registerCommand("vsconan.explorer.treeview.recipe.item.open.explorer.export", (node: ConanRecipeItem) => this.recipeOpenFolderInExplorer(node, RecipeFolderOption.export));
@@ -96,6 +102,7 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         this.registerCommand("vsconan.explorer.treeview.package.item.open-explorer", (node: ConanPackageItem) => this.packageOpenExplorer(node));
         this.registerCommand("vsconan.explorer.treeview.package.item.open-vscode", (node: ConanPackageItem) => this.packageOpenVSCode(node));
         this.registerCommand("vsconan.explorer.treeview.package.item.remove", (node: ConanPackageItem) => this.packageRemove(node));
+        this.registerCommand("vsconan.explorer.treeview.package.item.upload", (node: ConanPackageItem) => this.packageUpload(node));
         this.registerCommand("vsconan.explorer.treeview.package.item.copy-clipboard", (node: ConanPackageItem) => this.packageCopyPathToClipboard(node));
 
         // Register command for binary package revision treeview
@@ -137,8 +144,18 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         this.nodeProviderConanRecipe.setSelectedRecipe(undefined); // Reset the internal selected recipe from the recipeNodeProvider
 
         // Change the title of the Conan Recipe Treeview to have filter name inside that
+        let filterDescriptions: Array<string> = [];
+
         if (this.settingsPropertyManager.isRecipeFiltered()) {
-            this.treeViewConanRecipe.title = `Conan - Recipe (Remote: ${this.settingsPropertyManager.getRecipeFilterKey()})`;
+            filterDescriptions.push(`Remote: ${this.settingsPropertyManager.getRecipeFilterKey()}`);
+        }
+
+        if (this.settingsPropertyManager.isRecipePatternFiltered()) {
+            filterDescriptions.push(`Filter: ${this.settingsPropertyManager.getRecipePatternFilterKey()}`);
+        }
+
+        if (filterDescriptions.length > 0) {
+            this.treeViewConanRecipe.title = `Conan - Recipe (${filterDescriptions.join(", ")})`;
         }
         else {
             this.treeViewConanRecipe.title = "Conan - Recipe";
@@ -151,7 +168,7 @@ export class ConanCacheExplorerManager extends ExtensionManager {
      */
     private async recipeSetFilter() {
         // Get all the saved remotes
-        let remoteList = this.conanApiManager.conanApi.getRemotes();
+        let remoteList = await this.conanApiManager.conanApi.getRemotes();
 
         // Feed the remotes to Selection box
         const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem>();
@@ -188,21 +205,64 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         this.recipeRefreshTreeview();
     }
 
+    /**
+     * Method to filter the recipes with a text, a pattern or a version range, e.g. 'boost', 'boost/*' or 'zlib/[>=1.2 <1.3]'
+     * The filter is combined with the filter by remote and kept in the workspace state.
+     */
+    private async recipeSetPatternFilter() {
+        const patternInput = await vscode.window.showInputBox({
+            title: "Filter Recipes",
+            prompt: "Text or reference pattern, e.g. 'boost/*', '*@mycompany/stable' or 'zlib/[>=1.2 <1.3]'. Leave empty to clear the filter.",
+            value: this.settingsPropertyManager.getRecipePatternFilterKey() ?? "",
+            validateInput: text => (text.split("[").length === text.split("]").length) ? null : "Version range is not closed with ']'."
+        });
+
+        // Input is cancelled by the user
+        if (patternInput === undefined) {
+            return;
+        }
+
+        if (patternInput.trim()) {
+            this.settingsPropertyManager.setRecipePatternFilter(patternInput.trim());
+        }
+        else {
+            this.settingsPropertyManager.clearRecipePatternFilter();
+        }
+
+        this.recipeRefreshTreeview();
+    }
+
+    /**
+     * Clean the pattern filter, the filter by remote is kept
+     */
+    private recipeClearPatternFilter(): void {
+        this.settingsPropertyManager.clearRecipePatternFilter();
+
+        this.recipeRefreshTreeview();
+    }
+
     /**
      * Callback method if a recipe item in the treeview in selected
+     * The binary packages of a recipe revision are shown, if a recipe is selected the packages of its latest revision are shown.
      */
     private recipeItemSelected() {
+        let selectedItem: ConanRecipeItem | ConanRecipeRevisionItem = this.treeViewConanRecipe.selection[0];
+
         // Only works with non editable package
-        if (this.treeViewConanRecipe.selection[0].isEditable()) {
+        if (selectedItem instanceof ConanRecipeItem && selectedItem.isEditable()) {
             this.nodeProviderConanPackage.refresh("", this.context.workspaceState.get("show-dirty")!); // Empty the binary package treeview
             this.treeViewConanPackage.title = "Conan - Package"; // Reset the title of the binary package treeview panel
         }
         else {
-            this.nodeProviderConanRecipe.setSelectedRecipe(this.treeViewConanRecipe.selection[0].label);
+            let selectedRecipe: string = selectedItem instanceof ConanRecipeRevisionItem ?
+                selectedItem.getReference() :
+                (selectedItem.revisionItems.length > 0 ? selectedItem.revisionItems[0].getReference() : selectedItem.label);
+
+            this.nodeProviderConanRecipe.setSelectedRecipe(selectedRecipe);
 
             // Change the title of the treeview for package explorer to match the selected recipe
-            this.treeViewConanPackage.title = this.treeViewConanRecipe.selection[0].label;
-            this.nodeProviderConanPackage.refresh(this.treeViewConanRecipe.selection[0].label, this.context.workspaceState.get("show-dirty")!);
+            this.treeViewConanPackage.title = selectedRecipe;
+            this.nodeProviderConanPackage.refresh(selectedRecipe, this.context.workspaceState.get("show-dirty")!);
             this.nodeProviderConanPackageRevision.refresh("", "", this.context.workspaceState.get("show-dirty")!);
             this.treeViewConanPackageRevision.title = "Conan - Package Revision"; //
         }
@@ -212,14 +272,32 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         }
     }
 
+    /**
+     * Reveal and select a recipe in the treeview, e.g. from the dependency graph
+     * @param ref Reference of the recipe without revision
+     * @param revision Recipe revision to be revealed if it is listed below the recipe
+     */
+    private async recipeReveal(ref: string, revision?: string) {
+        let recipeItem = this.nodeProviderConanRecipe.getRecipeItem(ref, revision);
+
+        if (recipeItem) {
+            await this.treeViewConanRecipe.reveal(recipeItem, { select: true, focus: true });
+        }
+        else {
+            vscode.window.showInformationMessage(`Recipe '${ref}' is not available in the local cache`);
+        }
+    }
+
     /**
      * Method to show the information of a selected recipe.
      * To view the information we will use a web view panel in this case
      * @param node Selected recipe node item
      */
-    private recipeShowInformation(node: ConanRecipeItem) {
+    private async recipeShowInformation(node: ConanRecipeItem) {
         try {
-            let recipeInfo = this.conanApiManager.conanApi.getRecipeInformation(node.label);
+            // Editable package is not located in the local cache, so the information is taken from the recipe file directly
+            let recipeInfo = await this.withConanProgress(`Inspecting recipe '${node.label}'`,
+                (token) => this.conanApiManager.conanApi.getRecipeInformation(node.isEditable() ? node.model.path : node.label, token));
 
             // Create a web view panel
             const panel = vscode.window.createWebviewPanel(
@@ -233,7 +311,7 @@ export class ConanCacheExplorerManager extends ExtensionManager {
             panel.webview.html = this.getWebviewContent(recipeInfo!);
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -241,17 +319,17 @@ export class ConanCacheExplorerManager extends ExtensionManager {
      * Open the selected recipe in the file explorer
      * @param node Selected recipe node item
      */
-    private recipeOpenExplorer(node: ConanRecipeItem) {
+    private async recipeOpenExplorer(node: ConanRecipeItem) {
         try {
             if (node.isEditable()) {
                 vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(node.model.path));
             }
             else {
-                vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(this.conanApiManager.conanApi.getRecipePath(node.label)!));
+                vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file((await this.conanApiManager.conanApi.getRecipePath(node.label))!));
             }
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -259,7 +337,7 @@ export class ConanCacheExplorerManager extends ExtensionManager {
      * Open the selected recipe in a new VSCode window
      * @param node Selected recipe node item
      */
-    private recipeOpenVSCode(node: ConanRecipeItem) {
+    private async recipeOpenVSCode(node: ConanRecipeItem) {
         try {
             if (node.isEditable()) {
                 // The path in the model is referring to the conanfile.py
@@ -267,12 +345,12 @@ export class ConanCacheExplorerManager extends ExtensionManager {
                 vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(node.model.path + "/.."), true);
             }
             else {
-                let packagePath = this.conanApiManager.conanApi.getRecipePath(node.label);
+                let packagePath = await this.conanApiManager.conanApi.getRecipePath(node.label);
                 vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(packagePath!), true);
             }
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -280,41 +358,76 @@ export class ConanCacheExplorerManager extends ExtensionManager {
      * Remove selected recipe
      * @param node Selected recipe node item to be removed
      */
-    private recipeRemove(node: ConanRecipeItem) {
+    private async recipeRemove(node: ConanRecipeItem) {
         try {
             if (node.isEditable()) {
-                this.conanApiManager.conanApi.removeEditablePackageRecipe(node.label);
+                await this.withConanProgress(`Removing editable package '${node.label}'`,
+                    (token) => this.conanApiManager.conanApi.removeEditablePackageRecipe(node.label, token));
                 this.nodeProviderConanRecipe.refresh();
             }
             else {
-                vscode.window
-                    .showWarningMessage(`Are you sure you want to remove the recipe '${node.label}'?`, ...["Yes", "No"])
-                    .then((answer) => {
-                        if (answer === "Yes") {
-                            this.conanApiManager.conanApi.removeRecipe(node.label);
-                            this.nodeProviderConanRecipe.refresh();
-
-                            this.nodeProviderConanPackage.refresh("", this.context.workspaceState.get("show-dirty")!); // Empty the binary package treeview
-                            this.treeViewConanPackage.title = "Conan - Package"; // Reset the title of the binary package treeview panel
-
-                            this.nodeProviderConanPackageRevision.refresh("", "", this.context.workspaceState.get("show-dirty")!); // Empty the binary package treeview
-                            this.treeViewConanPackageRevision.title = "Conan - Package Revision";
-                        }
-                    });
+                let answer = await vscode.window.showWarningMessage(`Are you sure you want to remove the recipe '${node.label}'?`, ...["Yes", "No"]);
+
+                if (answer === "Yes") {
+                    await this.withConanProgress(`Removing recipe '${node.label}'`,
+                        (token) => this.conanApiManager.conanApi.removeRecipe(node.label, token));
+                    this.nodeProviderConanRecipe.refresh();
+
+                    this.nodeProviderConanPackage.refresh("", this.context.workspaceState.get("show-dirty")!); // Empty the binary package treeview
+                    this.treeViewConanPackage.title = "Conan - Package"; // Reset the title of the binary package treeview panel
+
+                    this.nodeProviderConanPackageRevision.refresh("", "", this.context.workspaceState.get("show-dirty")!); // Empty the binary package treeview
+                    this.treeViewConanPackageRevision.title = "Conan - Package Revision";
+                }
             }
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
-    private recipeCopyPathToClipboard(node: ConanRecipeItem) {
+    /**
+     * Upload selected recipe to a remote
+     * @param node Selected recipe node item to be uploaded
+     */
+    private async recipeUpload(node: ConanRecipeItem) {
+        const uploadChoice = await vscode.window.showQuickPick([
+            { label: "Recipe only", onlyRecipe: true },
+            { label: "Recipe and all binary packages", onlyRecipe: false }
+        ], { title: `Upload '${node.label}' - Select what to upload` });
+
+        if (uploadChoice) {
+            await this.uploadToRemote(node.label, "", uploadChoice.onlyRecipe);
+        }
+    }
+
+    /**
+     * Remove selected recipe revision, the other revisions of the recipe are kept
+     * @param node Selected recipe revision node item to be removed
+     */
+    private async recipeRevisionRemove(node: ConanRecipeRevisionItem) {
+        try {
+            let answer = await vscode.window.showWarningMessage(`Are you sure you want to remove the recipe revision '${node.getReference()}' with its binary packages?`, ...["Yes", "No"]);
+
+            if (answer === "Yes") {
+                await this.withConanProgress(`Removing recipe revision '${node.getReference()}'`,
+                    (token) => this.conanApiManager.conanApi.removeRecipeRevision(node.recipeItem.label, node.model.id, token));
+
+                this.recipeRefreshTreeview();
+            }
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    private async recipeCopyPathToClipboard(node: ConanRecipeItem) {
         try {
             if (node.isEditable()) {
                 vscode.env.clipboard.writeText(node.model.path);
             }
             else {
-                let recipePath = this.conanApiManager.conanApi.getRecipePath(node.label);
+                let recipePath = await this.conanApiManager.conanApi.getRecipePath(node.label);
                 vscode.env.clipboard.writeText(recipePath!);
             }
         }
@@ -323,26 +436,79 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         }
     }
 
-    private recipeOpenFolderInExplorer(node: ConanRecipeItem, folderType: RecipeFolderOption) {
-        let pathToOpen = this.conanApiManager.conanApi.getFolderPathFromRecipe(node.label, folderType);
+    private async recipeOpenFolderInExplorer(node: ConanRecipeItem, folderType: RecipeFolderOption) {
+        try {
+            let pathToOpen = await this.getRecipeFolderPath(node, folderType);
+
+            if (pathToOpen === undefined) {
+                return;
+            }
+
+            if (pathToOpen) {
+                vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(pathToOpen));
+            }
+            else {
+                vscode.window.showErrorMessage("Error while opening the path. The path does not exist.");
+            }
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    private async recipeOpenFolderInVSCode(node: ConanRecipeItem, folderType: RecipeFolderOption) {
+        try {
+            let pathToOpen = await this.getRecipeFolderPath(node, folderType);
+
+            if (pathToOpen === undefined) {
+                return;
+            }
 
-        if (pathToOpen) {
-            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(pathToOpen));
+            if (pathToOpen) {
+                vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(pathToOpen), true);
+            }
+            else {
+                vscode.window.showErrorMessage("Error while opening the path. The path does not exist.");
+            }
         }
-        else {
-            vscode.window.showErrorMessage("Error while opening the path. The path does not exist.");
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
-    private recipeOpenFolderInVSCode(node: ConanRecipeItem, folderType: RecipeFolderOption) {
-        let pathToOpen = this.conanApiManager.conanApi.getFolderPathFromRecipe(node.label, folderType);
+    /**
+     * Get the path of a folder of a recipe in the local cache.
+     * Conan 2 has a build folder per binary package, so the user selects one of the packages of the recipe.
+     * @param node Recipe item
+     * @param folderType Folder of the recipe
+     * @returns Path of the folder, empty string if the folder does not exist | undefined if the selection is cancelled
+     */
+    private async getRecipeFolderPath(node: ConanRecipeItem, folderType: RecipeFolderOption): Promise<string | undefined> {
+        if (this.conanApiManager.conanVersion !== "2" || folderType !== RecipeFolderOption.build) {
+            return this.conanApiManager.conanApi.getFolderPathFromRecipe(node.label, folderType);
+        }
 
-        if (pathToOpen) {
-            vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(pathToOpen), true);
+        // The binary packages are listed per recipe revision, the latest revision is the first one
+        let recipeReference = node.revisionItems.length > 0 ? node.revisionItems[0].getReference() : node.label;
+        let packageList = await this.conanApiManager.conanApi.getPackages(recipeReference);
+
+        if (packageList.length === 0) {
+            return "";
         }
-        else {
-            vscode.window.showErrorMessage("Error while opening the path. The path does not exist.");
+
+        let packageId: string | undefined = packageList[0].id;
+
+        if (packageList.length > 1) {
+            packageId = await vscode.window.showQuickPick(packageList.map(pkg => pkg.id), {
+                title: `Build Folder - Select a binary package of '${node.label}'`
+            });
+        }
+
+        if (!packageId) {
+            return undefined;
         }
+
+        return this.conanApiManager.conanApi.getFolderPathFromRecipe(`${recipeReference}:${packageId}`, folderType);
     }
 
     // ========== BINARY PACKAGE TREEVIEW COMMANDS
@@ -382,7 +548,7 @@ export class ConanCacheExplorerManager extends ExtensionManager {
     private async packageSetFilter() {
 
         // Get all the saved remotes
-        let remoteList = this.conanApiManager.conanApi.getRemotes();
+        let remoteList = await this.conanApiManager.conanApi.getRemotes();
 
         // Feed the remotes to Selection box
         const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem>();
@@ -445,7 +611,7 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         this.nodeProviderConanPackage.setSelectedPackage(this.treeViewConanPackage.selection[0].label);
 
         this.treeViewConanPackageRevision.title = this.treeViewConanPackage.selection[0].label;
-        this.nodeProviderConanPackageRevision.refresh(this.treeViewConanRecipe.selection[0].label, this.treeViewConanPackage.selection[0].label, false);
+        this.nodeProviderConanPackageRevision.refresh(this.nodeProviderConanRecipe.getSelectedRecipe(), this.treeViewConanPackage.selection[0].label, false);
     }
 
     /**
@@ -461,12 +627,14 @@ export class ConanCacheExplorerManager extends ExtensionManager {
      * Open selected binary package in the file explorer
      * @param node Selected binary package node item
      */
-    private packageOpenExplorer(node: ConanPackageItem) {
+    private async packageOpenExplorer(node: ConanPackageItem) {
         try {
-            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(this.conanApiManager.conanApi.getPackagePath(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label)!));
+            // Dirty packages of Conan 2 are not registered completely in the cache, their folder is known already
+            let packagePath = node.model.path || await this.conanApiManager.conanApi.getPackagePath(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label);
+            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(packagePath!));
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -474,13 +642,13 @@ export class ConanCacheExplorerManager extends ExtensionManager {
      * Open selected binary package in VS Code
      * @param node Selected binary package node item
      */
-    private packageOpenVSCode(node: ConanPackageItem) {
+    private async packageOpenVSCode(node: ConanPackageItem) {
         try {
-            let packagePath = this.conanApiManager.conanApi.getPackagePath(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label);
+            let packagePath = await this.conanApiManager.conanApi.getPackagePath(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label);
             vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(packagePath!), true);
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -488,33 +656,94 @@ export class ConanCacheExplorerManager extends ExtensionManager {
      * Remove selected binary package
      * @param node Selected binary package node item to be removed
      */
-    private packageRemove(node: ConanPackageItem) {
+    private async packageRemove(node: ConanPackageItem) {
         try {
-            vscode.window
-                .showWarningMessage(`Are you sure you want to remove the binary package '${node.label}' from '${this.treeViewConanPackage.title!}'?`, ...["Yes", "No"])
-                .then((answer) => {
-                    if (answer === "Yes") {
-                        this.conanApiManager.conanApi.removePackage(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label);
+            let answer = await vscode.window.showWarningMessage(`Are you sure you want to remove the binary package '${node.label}' from '${this.treeViewConanPackage.title!}'?`, ...["Yes", "No"]);
+
+            if (answer === "Yes") {
+                await this.withConanProgress(`Removing binary package '${node.label}'`,
+                    (token) => this.conanApiManager.conanApi.removePackage(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label, token));
 
-                        this.nodeProviderConanPackage.refresh(this.nodeProviderConanRecipe.getSelectedRecipe(), this.context.workspaceState.get("show-dirty")!);
+                this.nodeProviderConanPackage.refresh(this.nodeProviderConanRecipe.getSelectedRecipe(), this.context.workspaceState.get("show-dirty")!);
 
-                        this.nodeProviderConanPackageRevision.refresh("", "", this.context.workspaceState.get("show-dirty")!); // Empty the binary package treeview
-                        this.treeViewConanPackageRevision.title = "Conan - Package Revision"; // Reset the title of the binary package treeview panel
-                    }
-                });
+                this.nodeProviderConanPackageRevision.refresh("", "", this.context.workspaceState.get("show-dirty")!); // Empty the binary package treeview
+                this.treeViewConanPackageRevision.title = "Conan - Package Revision"; // Reset the title of the binary package treeview panel
+            }
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
-    private packageCopyPathToClipboard(node: ConanPackageItem) {
+    /**
+     * Upload selected binary package with its recipe to a remote
+     * @param node Selected binary package node item to be uploaded
+     */
+    private async packageUpload(node: ConanPackageItem) {
+        await this.uploadToRemote(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label, false);
+    }
+
+    private async packageCopyPathToClipboard(node: ConanPackageItem) {
         try {
-            let packagePath = this.conanApiManager.conanApi.getPackagePath(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label);
+            let packagePath = await this.conanApiManager.conanApi.getPackagePath(this.nodeProviderConanRecipe.getSelectedRecipe(), node.label);
             vscode.env.clipboard.writeText(packagePath!);
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Upload a recipe or a binary package to a remote that is selected by the user.
+     * The user can choose to check the integrity of the files and to force the upload.
+     * @param recipe Recipe reference to be uploaded
+     * @param packageId Binary package ID to upload a single package, empty string to upload the recipe
+     * @param onlyRecipe Upload only the recipe without its binary packages
+     */
+    private async uploadToRemote(recipe: string, packageId: string, onlyRecipe: boolean) {
+        let reference = packageId ? `${recipe}:${packageId}` : recipe;
+
+        try {
+            let remoteList = await this.conanApiManager.conanApi.getRemotes();
+
+            const remote = await vscode.window.showQuickPick(remoteList.filter(remote => remote.enabled).map(remote => remote.name), {
+                title: `Upload '${reference}' - Select a remote`
+            });
+
+            if (!remote) {
+                return;
+            }
+
+            const optionChoice = await vscode.window.showQuickPick([
+                { label: "--check", description: "Check the integrity of the files before the upload", check: true, force: false },
+                { label: "--force", description: "Upload even if the remote has the same or a newer revision", check: false, force: true }
+            ], { title: `Upload '${reference}' - Select upload options`, canPickMany: true });
+
+            // Selection is cancelled by the user
+            if (!optionChoice) {
+                return;
+            }
+
+            let check = optionChoice.some(option => option.check);
+            let force = optionChoice.some(option => option.force);
+
+            let summary = await this.withConanProgress(`Uploading '${reference}' to remote '${remote}'`,
+                (token) => this.conanApiManager.conanApi.uploadReference(recipe, packageId, remote, onlyRecipe, check, force, token));
+
+            this.outputChannel.appendLine(`Upload of '${reference}' to remote '${remote}':`);
+            summary.uploaded.forEach(ref => this.outputChannel.appendLine(`  Uploaded: ${ref}`));
+            summary.skipped.forEach(ref => this.outputChannel.appendLine(`  Skipped (already in remote): ${ref}`));
+
+            let answer = await vscode.window.showInformationMessage(
+                `Upload of '${reference}' to remote '${remote}' finished: ${summary.uploaded.length} uploaded, ${summary.skipped.length} skipped.`,
+                "Show Output");
+
+            if (answer === "Show Output") {
+                this.outputChannel.show();
+            }
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -561,51 +790,50 @@ export class ConanCacheExplorerManager extends ExtensionManager {
         // TODO:
     }
 
-    private packageRevisionOpenExplorer(node: ConanPackageRevisionItem) {
+    private async packageRevisionOpenExplorer(node: ConanPackageRevisionItem) {
         try {
-            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(this.conanApiManager.conanApi.getPackageRevisionPath(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label)!));
+            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file((await this.conanApiManager.conanApi.getPackageRevisionPath(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label))!));
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
-    private packageRevisionOpenVSCode(node: ConanPackageRevisionItem) {
+    private async packageRevisionOpenVSCode(node: ConanPackageRevisionItem) {
         try {
-            let packagePath = this.conanApiManager.conanApi.getPackageRevisionPath(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label);
+            let packagePath = await this.conanApiManager.conanApi.getPackageRevisionPath(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label);
             vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(packagePath!), true);
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
-    private packageRevisionRemove(node: ConanPackageRevisionItem) {
+    private async packageRevisionRemove(node: ConanPackageRevisionItem) {
         try {
-            vscode.window
-                .showWarningMessage(`Are you sure you want to remove the binary package revision '${node.label}' from '${this.treeViewConanPackageRevision.title!}'?`, ...["Yes", "No"])
-                .then((answer) => {
-                    if (answer === "Yes") {
-                        this.conanApiManager.conanApi.removePackageRevision(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label);
-
-                        this.nodeProviderConanPackageRevision.refresh(this.nodeProviderConanRecipe.getSelectedRecipe(),
-                            this.nodeProviderConanPackage.getSelectedPackage(),
-                            this.context.workspaceState.get("show-dirty")!);
-                    }
-                });
+            let answer = await vscode.window.showWarningMessage(`Are you sure you want to remove the binary package revision '${node.label}' from '${this.treeViewConanPackageRevision.title!}'?`, ...["Yes", "No"]);
+
+            if (answer === "Yes") {
+                await this.withConanProgress(`Removing binary package revision '${node.label}'`,
+                    (token) => this.conanApiManager.conanApi.removePackageRevision(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label, token));
+
+                this.nodeProviderConanPackageRevision.refresh(this.nodeProviderConanRecipe.getSelectedRecipe(),
+                    this.nodeProviderConanPackage.getSelectedPackage(),
+                    this.context.workspaceState.get("show-dirty")!);
+            }
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
-    private packageRevisionCopyPathToClipboard(node: ConanPackageRevisionItem) {
+    private async packageRevisionCopyPathToClipboard(node: ConanPackageRevisionItem) {
         try {
-            let packageRevisionPath = this.conanApiManager.conanApi.getPackageRevisionPath(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label);
+            let packageRevisionPath = await this.conanApiManager.conanApi.getPackageRevisionPath(this.nodeProviderConanRecipe.getSelectedRecipe(), this.nodeProviderConanPackage.getSelectedPackage(), node.label);
             vscode.env.clipboard.writeText(packageRevisionPath!);
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
+import { CacheUsageKind, ConanCacheUsage } from '../../../conans/model/conanCacheUsage';
+import * as utils from '../../../utils/utils';
+import { ConanCacheUsageItem, ConanCacheUsageNodeProvider } from '../../ui/treeview/conanCacheUsageProvider';
+import { ExtensionManager } from "../extensionManager";
+
+/**
+ * Class to manage the treeview explorer of the disk usage of the local conan cache
+ */
+export class ConanCacheUsageExplorerManager extends ExtensionManager {
+
+    private context: vscode.ExtensionContext;
+    private outputChannel: vscode.OutputChannel;
+    private conanApiManager: ConanAPIManager;
+    private nodeProviderConanCacheUsage: ConanCacheUsageNodeProvider;
+    private treeViewConanCacheUsage: vscode.TreeView<any>;
+
+    /**
+     * Create conan cache usage explorer manager
+     * @param context The context of the extension
+     * @param outputChannel Output channel of the extension
+     * @param conanApiManager Conan API
+     * @param nodeProviderConanCacheUsage Treedata provider for the disk usage of the conan cache
+     */
+    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, conanApiManager: ConanAPIManager, nodeProviderConanCacheUsage: ConanCacheUsageNodeProvider) {
+        super();
+
+        this.context = context;
+        this.outputChannel = outputChannel;
+        this.conanApiManager = conanApiManager;
+        this.nodeProviderConanCacheUsage = nodeProviderConanCacheUsage;
+
+        this.treeViewConanCacheUsage = vscode.window.createTreeView("vsconan-explorer.treeview.cache-usage", {
+            treeDataProvider: this.nodeProviderConanCacheUsage
+        });
+
+        this.registerCommand("vsconan.explorer.treeview.cache-usage.refresh", () => this.refresh());
+        this.registerCommand("vsconan.explorer.treeview.cache-usage.item.remove", (node: ConanCacheUsageItem) => this.removeItem(node));
+    }
+
+    public refresh() {
+        this.nodeProviderConanCacheUsage.refresh();
+    }
+
+    public clean() {
+        this.nodeProviderConanCacheUsage.refresh();
+    }
+
+    /**
+     * Remove an item of the cache usage treeview from the local cache
+     * @param node Selected recipe, recipe revision, package or package revision
+     */
+    private async removeItem(node: ConanCacheUsageItem) {
+        let usage: ConanCacheUsage = node.model;
+        let itemName = this.getItemName(usage);
+
+        let answer = await vscode.window.showWarningMessage(`Are you sure you want to remove ${itemName} (${utils.general.formatSize(usage.size)})?`, ...["Yes", "No"]);
+
+        if (answer !== "Yes") {
+            return;
+        }
+
+        try {
+            await this.withConanProgress(`Removing ${itemName}`, (token) => {
+                switch (usage.kind) {
+                    case CacheUsageKind.recipe:
+                        return this.conanApiManager.conanApi.removeRecipe(usage.recipe, token);
+                    case CacheUsageKind.recipeRevision:
+                        return this.conanApiManager.conanApi.removeRecipeRevision(usage.recipe.split("#")[0], usage.revisionId, token);
+                    case CacheUsageKind.package:
+                        return this.conanApiManager.conanApi.removePackage(usage.recipe, usage.packageId, token);
+                    case CacheUsageKind.packageRevision:
+                        return this.conanApiManager.conanApi.removePackageRevision(usage.recipe, usage.packageId, usage.revisionId, token);
+                }
+            });
+
+            this.nodeProviderConanCacheUsage.refresh();
+            vscode.commands.executeCommand("vsconan.explorer.treeview.recipe.refresh");
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    private getItemName(usage: ConanCacheUsage): string {
+        switch (usage.kind) {
+            case CacheUsageKind.recipe:
+                return `recipe '${usage.recipe}'`;
+            case CacheUsageKind.recipeRevision:
+                return `recipe revision '${usage.recipe}'`;
+            case CacheUsageKind.package:
+                return `package '${usage.packageId}' of '${usage.recipe}'`;
+            case CacheUsageKind.packageRevision:
+                return `package revision '${usage.packageId}#${usage.revisionId}' of '${usage.recipe}'`;
+        }
+    }
+}
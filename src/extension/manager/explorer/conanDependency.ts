@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
+import { ConfigCommandInstall } from '../../../conans/command/configCommand';
+import * as utils from '../../../utils/utils';
+import { ConanDependencyNodeProvider } from '../../ui/treeview/conanDependencyProvider';
+import { ConanDependencyGraphPanel } from '../../ui/webview/conanDependencyGraphPanel';
+import { ExtensionManager } from "../extensionManager";
+
+/**
+ * Recipe of the workspace and the parameters to resolve its dependency graph
+ */
+interface DependencyGraphInput {
+    conanfilePath: string;
+    profile: string;
+    args: Array<string>;
+}
+
+/**
+ * Class to manage the treeview explorer of the dependency graph of a workspace recipe
+ */
+export class ConanDependencyExplorerManager extends ExtensionManager {
+
+    private context: vscode.ExtensionContext;
+    private outputChannel: vscode.OutputChannel;
+    private conanApiManager: ConanAPIManager;
+    private nodeProviderConanDependency: ConanDependencyNodeProvider;
+    private treeViewConanDependency: vscode.TreeView<any>;
+    private graphPanel: ConanDependencyGraphPanel | undefined = undefined;
+
+    /**
+     * Create conan dependency explorer manager
+     * @param context The context of the extension
+     * @param outputChannel Output channel of the extension
+     * @param conanApiManager Conan API
+     * @param nodeProviderConanDependency Treedata provider for conan dependency graph
+     */
+    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, conanApiManager: ConanAPIManager, nodeProviderConanDependency: ConanDependencyNodeProvider) {
+        super();
+
+        this.context = context;
+        this.outputChannel = outputChannel;
+        this.conanApiManager = conanApiManager;
+        this.nodeProviderConanDependency = nodeProviderConanDependency;
+
+        this.treeViewConanDependency = vscode.window.createTreeView("vsconan-explorer.treeview.dependency", {
+            treeDataProvider: this.nodeProviderConanDependency
+        });
+
+        this.registerCommand("vsconan.explorer.treeview.dependency.refresh", () => this.refreshDependencyTreeview());
+        this.registerCommand("vsconan.explorer.treeview.dependency.graph", () => this.showDependencyGraph());
+    }
+
+    public refresh() {
+        this.nodeProviderConanDependency.refresh();
+    }
+
+    public clean() {
+        this.nodeProviderConanDependency.refresh("", "", []);
+    }
+
+    /**
+     * Select a recipe of the workspace and resolve its dependency graph in the treeview
+     */
+    private async refreshDependencyTreeview() {
+        let graphInput = await this.selectDependencyGraphInput();
+
+        if (graphInput) {
+            this.nodeProviderConanDependency.refresh(graphInput.conanfilePath, graphInput.profile, graphInput.args);
+        }
+    }
+
+    /**
+     * Show the dependency graph as an interactive diagram in a webview.
+     * The graph of the treeview is shown if it is already resolved, otherwise a recipe of the workspace needs to be selected first.
+     */
+    private async showDependencyGraph() {
+        let graph = this.nodeProviderConanDependency.getGraph();
+
+        try {
+            if (!graph.getRoot()) {
+                let graphInput = await this.selectDependencyGraphInput();
+
+                if (!graphInput) {
+                    return;
+                }
+
+                graph = await this.withConanProgress(`Resolving dependency graph of '${graphInput.conanfilePath}'`,
+                    (token) => this.conanApiManager.conanApi.getDependencyGraph(graphInput!.conanfilePath, graphInput!.profile, graphInput!.args, token));
+
+                this.nodeProviderConanDependency.refresh(graphInput.conanfilePath, graphInput.profile, graphInput.args);
+            }
+
+            let title = `Dependency Graph - ${graph.getRoot()?.ref ?? ""}`;
+
+            if (this.graphPanel) {
+                this.graphPanel.update(title, graph);
+            }
+            else {
+                this.graphPanel = new ConanDependencyGraphPanel(title, graph, () => this.graphPanel = undefined);
+            }
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Select a recipe of the workspace and the parameters to resolve its dependency graph.
+     * The recipe, profile and arguments are taken from the install configuration of the workspace.
+     * If the workspace has no configuration, the conanfile in the root of the workspace is used.
+     * @returns Recipe and parameters or undefined if the selection is cancelled or no recipe is found
+     */
+    private async selectDependencyGraphInput(): Promise<DependencyGraphInput | undefined> {
+        let wsPath = await utils.workspace.selectWorkspace();
+
+        if (!wsPath) {
+            return undefined;
+        }
+
+        let conanfilePath: string | undefined = undefined;
+        let profile: string = "";
+        let args: Array<string> = [];
+
+        let configWorkspace = utils.vsconan.config.readWorkspaceConfig(wsPath);
+        let installConfigList: Array<ConfigCommandInstall> = configWorkspace?.commandContainer?.install ?? [];
+
+        if (installConfigList.length > 0) {
+            let installConfig = await utils.vsconan.config.selectConfigCommand(installConfigList);
+
+            // Selection is cancelled by the user
+            if (!installConfig) {
+                return undefined;
+            }
+
+            conanfilePath = path.isAbsolute(installConfig.conanRecipe) ? installConfig.conanRecipe : path.join(wsPath, installConfig.conanRecipe);
+            profile = installConfig.profile ?? "";
+            args = installConfig.args ?? [];
+        }
+
+        if (!conanfilePath) {
+            conanfilePath = ["conanfile.py", "conanfile.txt"]
+                .map(recipe => path.join(wsPath!, recipe))
+                .find(recipe => fs.existsSync(recipe));
+        }
+
+        if (!conanfilePath) {
+            vscode.window.showWarningMessage(`Unable to find a conan recipe in the workspace '${wsPath}'`);
+            return undefined;
+        }
+
+        return { conanfilePath: conanfilePath, profile: profile, args: args };
+    }
+}
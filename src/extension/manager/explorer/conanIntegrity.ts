@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
+import { ConanIntegrityIssue } from '../../../conans/model/conanIntegrityIssue';
+import * as utils from '../../../utils/utils';
+import { ConanIntegrityDecorationProvider, ConanIntegrityItem, ConanIntegrityNodeProvider } from '../../ui/treeview/conanIntegrityProvider';
+import { ConanRecipeItem, ConanRecipeRevisionItem } from '../../ui/treeview/conanRecipeProvider';
+import { ExtensionManager } from "../extensionManager";
+
+/**
+ * Class to manage the integrity check of the local conan cache and the treeview of its result
+ */
+export class ConanIntegrityExplorerManager extends ExtensionManager {
+
+    private context: vscode.ExtensionContext;
+    private outputChannel: vscode.OutputChannel;
+    private conanApiManager: ConanAPIManager;
+    private nodeProviderConanIntegrity: ConanIntegrityNodeProvider;
+    private decorationProviderConanIntegrity: ConanIntegrityDecorationProvider;
+    private treeViewConanIntegrity: vscode.TreeView<any>;
+
+    /**
+     * Create conan integrity explorer manager
+     * @param context The context of the extension
+     * @param outputChannel Output channel of the extension
+     * @param conanApiManager Conan API
+     * @param nodeProviderConanIntegrity Treedata provider for the result of the integrity check
+     */
+    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, conanApiManager: ConanAPIManager, nodeProviderConanIntegrity: ConanIntegrityNodeProvider) {
+        super();
+
+        this.context = context;
+        this.outputChannel = outputChannel;
+        this.conanApiManager = conanApiManager;
+        this.nodeProviderConanIntegrity = nodeProviderConanIntegrity;
+        this.decorationProviderConanIntegrity = new ConanIntegrityDecorationProvider();
+
+        this.treeViewConanIntegrity = vscode.window.createTreeView("vsconan-explorer.treeview.integrity", {
+            treeDataProvider: this.nodeProviderConanIntegrity
+        });
+
+        this.registerDisposable(vscode.window.registerFileDecorationProvider(this.decorationProviderConanIntegrity));
+
+        this.registerCommand("vsconan.conan.cache.check-integrity", () => this.checkIntegrity());
+        this.registerCommand("vsconan.explorer.treeview.recipe.item.check-integrity", (node: ConanRecipeItem | ConanRecipeRevisionItem) => this.checkIntegrity(node));
+        this.registerCommand("vsconan.explorer.treeview.integrity.item.repair", (node: ConanIntegrityItem) => this.repairItem(node));
+    }
+
+    public refresh() {
+        // The result of the last check belongs to the previous conan configuration
+        this.showIssues([]);
+    }
+
+    public clean() {
+        this.showIssues([]);
+    }
+
+    /**
+     * Check the integrity of the local cache and show the corrupted recipes and packages
+     * @param node Recipe or recipe revision to be checked, the user is asked what to check if this is undefined
+     */
+    private async checkIntegrity(node?: ConanRecipeItem | ConanRecipeRevisionItem) {
+        let pattern: string | undefined = undefined;
+
+        if (node instanceof ConanRecipeRevisionItem) {
+            pattern = node.getReference();
+        }
+        else if (node instanceof ConanRecipeItem) {
+            pattern = node.label;
+        }
+        else {
+            pattern = await this.selectPattern();
+        }
+
+        if (!pattern) {
+            return;
+        }
+
+        try {
+            let issueList = await this.withConanProgress(`Checking integrity of '${pattern}'`,
+                (token) => this.conanApiManager.conanApi.checkIntegrity(pattern!, token));
+
+            this.showIssues(issueList);
+
+            if (issueList.length === 0) {
+                vscode.window.showInformationMessage(`Integrity check of '${pattern}': No corrupted recipes or packages found.`);
+            }
+            else {
+                let answer = await vscode.window.showWarningMessage(`Integrity check of '${pattern}': ${issueList.length} corrupted recipes or packages found.`, ...["Show Results"]);
+
+                if (answer === "Show Results") {
+                    vscode.commands.executeCommand("vsconan-explorer.treeview.integrity.focus");
+                }
+            }
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Remove a corrupted recipe or package from the local cache and download it again from a remote.
+     * Removing a recipe removes its binary packages as well, only the recipe is downloaded again.
+     * @param node Corrupted recipe or package of the integrity check result
+     */
+    private async repairItem(node: ConanIntegrityItem) {
+        let issue: ConanIntegrityIssue = node.model;
+        let recipe = issue.recipeRevision ? `${issue.recipe}#${issue.recipeRevision}` : issue.recipe;
+
+        let answer = await vscode.window.showWarningMessage(issue.packageId ?
+            `Are you sure you want to remove the package '${issue.packageId}' of '${recipe}' and download it again?` :
+            `Are you sure you want to remove the recipe '${recipe}' with its binary packages and download the recipe again?`, ...["Yes", "No"]);
+
+        if (answer !== "Yes") {
+            return;
+        }
+
+        try {
+            let remoteList = await this.conanApiManager.conanApi.getRemotes();
+
+            let remote = await vscode.window.showQuickPick(remoteList.filter(remote => remote.enabled).map(remote => remote.name), {
+                title: `Remove and Re-download - Select a remote to download '${issue.getReference()}' from`
+            });
+
+            if (!remote) {
+                return;
+            }
+
+            await this.withConanProgress(`Removing and downloading '${issue.getReference()}'`, async (token) => {
+                if (issue.packageId) {
+                    await this.conanApiManager.conanApi.removePackage(recipe, issue.packageId, token);
+                    await this.conanApiManager.conanApi.downloadReference(recipe, remote!, issue.packageId, false, token);
+                }
+                else {
+                    if (issue.recipeRevision) {
+                        await this.conanApiManager.conanApi.removeRecipeRevision(issue.recipe, issue.recipeRevision, token);
+                    }
+                    else {
+                        await this.conanApiManager.conanApi.removeRecipe(issue.recipe, token);
+                    }
+
+                    await this.conanApiManager.conanApi.downloadReference(recipe, remote!, "", true, token);
+                }
+            });
+
+            // Packages of a removed recipe are removed as well
+            this.showIssues(this.nodeProviderConanIntegrity.getIssues().filter(other => other !== issue &&
+                !(!issue.packageId && other.recipe === issue.recipe && (!issue.recipeRevision || other.recipeRevision === issue.recipeRevision))));
+
+            vscode.commands.executeCommand("vsconan.explorer.treeview.recipe.refresh");
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Ask the user which references of the local cache are checked
+     * @returns Pattern of the recipe references | undefined if the selection is cancelled
+     */
+    private async selectPattern(): Promise<string | undefined> {
+        const scopeChoice = await vscode.window.showQuickPick([
+            { label: "All references", pattern: "*" },
+            { label: "References matching a pattern…", pattern: undefined }
+        ], { title: "Check Cache Integrity - Select the references to be checked" });
+
+        if (!scopeChoice) {
+            return undefined;
+        }
+
+        if (scopeChoice.pattern) {
+            return scopeChoice.pattern;
+        }
+
+        let patternInput = await vscode.window.showInputBox({
+            title: "Check Cache Integrity - Pattern of the references",
+            prompt: "Wildcards are supported, e.g. 'zlib/*'",
+            validateInput: text => text.trim() ? null : "Pattern is required."
+        });
+
+        return patternInput?.trim();
+    }
+
+    private showIssues(issueList: Array<ConanIntegrityIssue>) {
+        this.nodeProviderConanIntegrity.refresh(issueList);
+        this.decorationProviderConanIntegrity.refresh(issueList);
+    }
+}
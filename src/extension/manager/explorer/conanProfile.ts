@@ -61,12 +61,12 @@ export class ConanProfileExplorerManager extends ExtensionManager {
      * Edit selected profile in VSCode, open this as file to be edited
      * @param node Selected conan profile node item
      */
-    private editProfile(node: ConanProfileItem) {
+    private async editProfile(node: ConanProfileItem) {
         // Get the list of the profile from the treeview in string format
-        let conanProfileList = this.nodeProviderConanProfile.getChildrenString();
+        let conanProfileList = await this.nodeProviderConanProfile.getChildrenString();
 
         if (conanProfileList.includes(node.label)) {
-            utils.editor.openFileInEditor(this.conanApiManager.conanApi.getProfileFilePath(node.label)!);
+            utils.editor.openFileInEditor((await this.conanApiManager.conanApi.getProfileFilePath(node.label))!);
         }
         else {
             vscode.window.showErrorMessage(`Unable to find the profile with name '${node.label}'.`);
@@ -77,18 +77,23 @@ export class ConanProfileExplorerManager extends ExtensionManager {
      * Remove conan profile
      * @param node Selected conan profile node item
      */
-    private removeProfile(node: ConanProfileItem) {
-        let conanProfileList = this.nodeProviderConanProfile.getChildrenString();
+    private async removeProfile(node: ConanProfileItem) {
+        let conanProfileList = await this.nodeProviderConanProfile.getChildrenString();
 
         // Check if the profile still exists in the treeview, since the refresh progress needs to be done manually.
         if (conanProfileList.includes(node.label)) {
             vscode.window
                 .showWarningMessage(`Are you sure you want to remove the profile '${node.label}'?`, ...["Yes", "No"])
-                .then((answer) => {
+                .then(async (answer) => {
                     if (answer === "Yes") {
-                        this.conanApiManager.conanApi.removeProfile(node.label);
-
-                        this.nodeProviderConanProfile.refresh();
+                        try {
+                            await this.conanApiManager.conanApi.removeProfile(node.label);
+
+                            this.nodeProviderConanProfile.refresh();
+                        }
+                        catch (err) {
+                            utils.vsconan.showErrorMessage(err, this.outputChannel);
+                        }
                     }
                 });
         }
@@ -101,11 +106,11 @@ export class ConanProfileExplorerManager extends ExtensionManager {
      * Open profile in the file explorer
      * @param node Selected conan profile node item
      */
-    private openProfileInExplorer(node: ConanProfileItem) {
-        let conanProfileList = this.nodeProviderConanProfile.getChildrenString();
+    private async openProfileInExplorer(node: ConanProfileItem) {
+        let conanProfileList = await this.nodeProviderConanProfile.getChildrenString();
 
         if (conanProfileList.includes(node.label)) {
-            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(this.conanApiManager.conanApi.getProfileFilePath(node.label)!));
+            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file((await this.conanApiManager.conanApi.getProfileFilePath(node.label))!));
         }
         else {
             vscode.window.showErrorMessage(`Unable to find the profile with name '${node.label}'.`);
@@ -117,7 +122,7 @@ export class ConanProfileExplorerManager extends ExtensionManager {
      * @param node Selected conan profile node item
      */
     private async renameProfile(node: ConanProfileItem) {
-        let conanProfileList = this.nodeProviderConanProfile.getChildrenString();
+        let conanProfileList = await this.nodeProviderConanProfile.getChildrenString();
 
         if (conanProfileList.includes(node.label)) {
 
@@ -139,11 +144,11 @@ export class ConanProfileExplorerManager extends ExtensionManager {
 
             if (newProfileName) {
                 try {
-                    this.conanApiManager.conanApi.renameProfile(node.label, newProfileName);
+                    await this.conanApiManager.conanApi.renameProfile(node.label, newProfileName);
                     this.nodeProviderConanProfile.refresh();
                 }
                 catch (err) {
-                    vscode.window.showErrorMessage((err as Error).message);
+                    utils.vsconan.showErrorMessage(err, this.outputChannel);
                 }
             }
         }
@@ -157,7 +162,7 @@ export class ConanProfileExplorerManager extends ExtensionManager {
      * @param node Selected conan profile node item
      */
     private async duplicateProfile(node: ConanProfileItem) {
-        let conanProfileList = this.nodeProviderConanProfile.getChildrenString();
+        let conanProfileList = await this.nodeProviderConanProfile.getChildrenString();
 
         if (conanProfileList.includes(node.label)) {
 
@@ -179,13 +184,13 @@ export class ConanProfileExplorerManager extends ExtensionManager {
 
             if (newProfileName) {
                 try {
-                    this.conanApiManager.conanApi.duplicateProfile(node.label, newProfileName);
+                    await this.conanApiManager.conanApi.duplicateProfile(node.label, newProfileName);
 
                     // Refresh the treeview once again
                     this.nodeProviderConanProfile.refresh();
                 }
                 catch (err) {
-                    vscode.window.showErrorMessage((err as Error).message);
+                    utils.vsconan.showErrorMessage(err, this.outputChannel);
                 }
             }
         }
@@ -199,7 +204,7 @@ export class ConanProfileExplorerManager extends ExtensionManager {
      */
     private async addProfile() {
         this.refreshProfileTreeview();
-        let conanProfileList = this.nodeProviderConanProfile.getChildrenString();
+        let conanProfileList = await this.nodeProviderConanProfile.getChildrenString();
 
         const profileName = await vscode.window.showInputBox({
             title: "Create a new Profile. Enter the name of the profile...",
@@ -218,13 +223,13 @@ export class ConanProfileExplorerManager extends ExtensionManager {
 
         if (profileName) {
             try {
-                this.conanApiManager.conanApi.createNewProfile(profileName);
+                await this.conanApiManager.conanApi.createNewProfile(profileName);
 
                 // Refresh the treeview once again
                 this.nodeProviderConanProfile.refresh();
             }
             catch (err) {
-                vscode.window.showErrorMessage((err as Error).message);
+                utils.vsconan.showErrorMessage(err, this.outputChannel);
             }
         }
     }
@@ -2,8 +2,23 @@ import * as vscode from 'vscode';
 import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
 import * as utils from '../../../utils/utils';
 import { ConanRemoteItem, ConanRemoteNodeProvider } from '../../ui/treeview/conanRemoteProvider';
+import { ConanRemoteSearchItem, ConanRemoteSearchNodeProvider } from '../../ui/treeview/conanRemoteSearchProvider';
 import { ExtensionManager } from "../extensionManager";
 
+/**
+ * Key of the global state that lists the remotes with stored credentials
+ * The SecretStorage of VS Code cannot list its entries.
+ */
+const REMOTE_CREDENTIALS_KEY: string = "remote-credentials";
+
+/**
+ * Credentials of a remote that are kept in the SecretStorage of VS Code
+ */
+interface RemoteCredentials {
+    user: string;
+    password: string;
+}
+
 /**
  * Class to manage the treeview explorer of conan remotes
  */
@@ -14,6 +29,8 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
     private conanApiManager: ConanAPIManager;
     private nodeProviderConanRemote: ConanRemoteNodeProvider;
     private treeViewConanRemote: vscode.TreeView<any>;
+    private nodeProviderConanRemoteSearch: ConanRemoteSearchNodeProvider;
+    private treeViewConanRemoteSearch: vscode.TreeView<any>;
 
     /**
      * Create conan remote explorer manager
@@ -21,19 +38,25 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
      * @param outputChannel Output channel of the extension
      * @param conanApi Conan API
      * @param nodeProviderConanRemote Treedata provider for conan remote
+     * @param nodeProviderConanRemoteSearch Treedata provider for the search result of a conan remote
      */
-    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, conanApiManager: ConanAPIManager, nodeProviderConanRemote: ConanRemoteNodeProvider) {
+    public constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, conanApiManager: ConanAPIManager, nodeProviderConanRemote: ConanRemoteNodeProvider, nodeProviderConanRemoteSearch: ConanRemoteSearchNodeProvider) {
         super();
 
         this.context = context;
         this.outputChannel = outputChannel;
         this.conanApiManager = conanApiManager;
         this.nodeProviderConanRemote = nodeProviderConanRemote;
+        this.nodeProviderConanRemoteSearch = nodeProviderConanRemoteSearch;
 
         this.treeViewConanRemote = vscode.window.createTreeView("vsconan-explorer.treeview.remote", {
             treeDataProvider: this.nodeProviderConanRemote
         });
 
+        this.treeViewConanRemoteSearch = vscode.window.createTreeView("vsconan-explorer.treeview.search", {
+            treeDataProvider: this.nodeProviderConanRemoteSearch
+        });
+
         this.registerCommand("vsconan.explorer.treeview.remote.refresh", () => this.refreshRemoteTreeview());
         this.registerCommand("vsconan.explorer.treeview.remote.edit", () => this.editRemote());
         this.registerCommand("vsconan.explorer.treeview.remote.add", () => this.addRemote());
@@ -42,6 +65,13 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
         this.registerCommand("vsconan.explorer.treeview.remote.item.disable", (node: ConanRemoteItem) => this.disableRemote(node));
         this.registerCommand("vsconan.explorer.treeview.remote.item.rename", (node: ConanRemoteItem) => this.renameRemote(node));
         this.registerCommand("vsconan.explorer.treeview.remote.item.update-url", (node: ConanRemoteItem) => this.updateRemoteURL(node));
+        this.registerCommand("vsconan.explorer.treeview.remote.item.login", (node: ConanRemoteItem) => this.loginRemote(node));
+        this.registerCommand("vsconan.explorer.treeview.remote.item.logout", (node: ConanRemoteItem) => this.logoutRemote(node));
+        this.registerCommand("vsconan.explorer.treeview.search.remote", (node?: ConanRemoteItem) => this.searchRemote(node));
+        this.registerCommand("vsconan.explorer.treeview.search.item.download", (node: ConanRemoteSearchItem) => this.downloadSearchItem(node));
+        this.registerCommand("vsconan.conan.download", (node?: ConanRemoteItem) => this.downloadReference(node));
+
+        this.applyStoredCredentials().catch(err => utils.vsconan.showErrorMessage(err, this.outputChannel));
     }
 
     public refresh() {
@@ -50,6 +80,8 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
 
     public clean() {
         this.nodeProviderConanRemote.refresh();
+        this.nodeProviderConanRemoteSearch.refresh("", "");
+        this.treeViewConanRemoteSearch.title = "Conan - Remote Search";
     }
 
     /**
@@ -62,8 +94,8 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
     /**
      * Edit the remotes.json file in the VS Code
      */
-    private editRemote() {
-        let remoteFile = this.conanApiManager.conanApi.getRemoteFilePath();
+    private async editRemote() {
+        let remoteFile = await this.conanApiManager.conanApi.getRemoteFilePath();
 
         if (remoteFile) {
             utils.editor.openFileInEditor(remoteFile);
@@ -77,17 +109,23 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
      * Remove selected remote
      * @param node Selected conan remote node item
      */
-    private removeRemote(node: ConanRemoteItem) {
-        let conanRemoteList = this.nodeProviderConanRemote.getChildrenString();
+    private async removeRemote(node: ConanRemoteItem) {
+        let conanRemoteList = await this.nodeProviderConanRemote.getChildrenString();
 
         if (conanRemoteList.includes(node.label)) {
             vscode.window
                 .showWarningMessage(`Are you sure you want to remove the remote '${node.label}'?`, ...["Yes", "No"])
-                .then((answer) => {
+                .then(async (answer) => {
                     if (answer === "Yes") {
-                        this.conanApiManager.conanApi.removeRemote(node.label);
-
-                        this.nodeProviderConanRemote.refresh();
+                        try {
+                            await this.conanApiManager.conanApi.removeRemote(node.label);
+                            await this.deleteCredentials(node.label);
+
+                            this.nodeProviderConanRemote.refresh();
+                        }
+                        catch (err) {
+                            utils.vsconan.showErrorMessage(err, this.outputChannel);
+                        }
                     }
                 });
         }
@@ -101,7 +139,7 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
      */
     private async addRemote() {
         this.refreshRemoteTreeview();
-        let conanRemoteList = this.nodeProviderConanRemote.getChildrenString();
+        let conanRemoteList = await this.nodeProviderConanRemote.getChildrenString();
 
         const remoteName = await vscode.window.showInputBox({
             title: "Add a new remote. Enter the name of the remote...",
@@ -134,13 +172,13 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
 
             if (remoteURL) {
                 try {
-                    this.conanApiManager.conanApi.addRemote(remoteName, remoteURL);
+                    await this.conanApiManager.conanApi.addRemote(remoteName, remoteURL);
 
                     // Refresh the treeview once again
                     this.nodeProviderConanRemote.refresh();
                 }
                 catch (err) {
-                    vscode.window.showErrorMessage((err as Error).message);
+                    utils.vsconan.showErrorMessage(err, this.outputChannel);
                 }
             }
         }
@@ -150,14 +188,14 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
      * Enable selected remote
      * @param node Selected conan remote node item
      */
-    private enableRemote(node: ConanRemoteItem) {
+    private async enableRemote(node: ConanRemoteItem) {
         try {
-            this.conanApiManager.conanApi.enableRemote(node.label, true);
+            await this.conanApiManager.conanApi.enableRemote(node.label, true);
 
             this.nodeProviderConanRemote.refresh();
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -165,14 +203,14 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
      * Disable selected remote
      * @param node Selected conan remote node item
      */
-    private disableRemote(node: ConanRemoteItem) {
+    private async disableRemote(node: ConanRemoteItem) {
         try {
-            this.conanApiManager.conanApi.enableRemote(node.label, false);
+            await this.conanApiManager.conanApi.enableRemote(node.label, false);
 
             this.nodeProviderConanRemote.refresh();
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 
@@ -181,7 +219,7 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
      * @param node Selected conan remote node item
      */
     private async renameRemote(node: ConanRemoteItem) {
-        let conanRemoteList = this.nodeProviderConanRemote.getChildrenString();
+        let conanRemoteList = await this.nodeProviderConanRemote.getChildrenString();
 
         if (conanRemoteList.includes(node.label)) {
 
@@ -203,11 +241,12 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
 
             if (newRemoteName) {
                 try {
-                    this.conanApiManager.conanApi.renameRemote(node.label, newRemoteName);
+                    await this.conanApiManager.conanApi.renameRemote(node.label, newRemoteName);
+                    await this.renameCredentials(node.label, newRemoteName);
                     this.nodeProviderConanRemote.refresh();
                 }
                 catch (err) {
-                    vscode.window.showErrorMessage((err as Error).message);
+                    utils.vsconan.showErrorMessage(err, this.outputChannel);
                 }
             }
         }
@@ -221,7 +260,7 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
      * @param node Selected conan remote node item
      */
     private async updateRemoteURL(node: ConanRemoteItem) {
-        let conanRemoteList = this.nodeProviderConanRemote.getChildrenString();
+        let conanRemoteList = await this.nodeProviderConanRemote.getChildrenString();
 
         if (conanRemoteList.includes(node.label)) {
 
@@ -245,11 +284,11 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
 
             if (newURL) {
                 try {
-                    this.conanApiManager.conanApi.updateRemoteURL(node.label, newURL);
+                    await this.conanApiManager.conanApi.updateRemoteURL(node.label, newURL);
                     this.nodeProviderConanRemote.refresh();
                 }
                 catch (err) {
-                    vscode.window.showErrorMessage((err as Error).message);
+                    utils.vsconan.showErrorMessage(err, this.outputChannel);
                 }
             }
         }
@@ -257,4 +296,237 @@ export class ConanRemoteExplorerManager extends ExtensionManager {
             vscode.window.showErrorMessage(`Unable to find the remote with name '${node.label}'.`);
         }
     }
+
+    /**
+     * Search recipes on a remote and show the result in the remote search treeview
+     * @param node Selected conan remote node item, the user is asked for a remote if this is undefined
+     */
+    private async searchRemote(node?: ConanRemoteItem) {
+        let remote: string | undefined = node?.label;
+
+        if (!remote) {
+            try {
+                let remoteList = await this.conanApiManager.conanApi.getRemotes();
+
+                remote = await vscode.window.showQuickPick(remoteList.filter(remote => remote.enabled).map(remote => remote.name), {
+                    title: "Search Remote - Select a remote"
+                });
+            }
+            catch (err) {
+                utils.vsconan.showErrorMessage(err, this.outputChannel);
+                return;
+            }
+        }
+
+        if (!remote) {
+            return;
+        }
+
+        const pattern = await vscode.window.showInputBox({
+            title: `Search Remote - Enter a search pattern for remote '${remote}'`,
+            prompt: "Wildcards are supported, e.g. 'zlib/*' or 'boost/1.8*'",
+            validateInput: text => text.trim() ? null : "Enter a search pattern..."
+        });
+
+        if (!pattern) {
+            return;
+        }
+
+        this.nodeProviderConanRemoteSearch.refresh(pattern.trim(), remote);
+        this.treeViewConanRemoteSearch.title = `Conan - Remote Search (${remote}: ${pattern.trim()})`;
+
+        vscode.commands.executeCommand("vsconan-explorer.treeview.search.focus");
+    }
+
+    /**
+     * Download selected item of the remote search result into the local cache
+     * @param node Selected recipe or recipe revision of the remote search result
+     */
+    private async downloadSearchItem(node: ConanRemoteSearchItem) {
+        const downloadChoice = await vscode.window.showQuickPick([
+            { label: "Recipe only", onlyRecipe: true },
+            { label: "Recipe and binaries", onlyRecipe: false }
+        ], { title: `Download '${node.getReference()}' from remote '${node.remote}'` });
+
+        if (!downloadChoice) {
+            return;
+        }
+
+        try {
+            await this.withConanProgress(`Downloading '${node.getReference()}' from remote '${node.remote}'`,
+                (token) => this.conanApiManager.conanApi.downloadReference(node.getReference(), node.remote, "", downloadChoice.onlyRecipe, token));
+
+            vscode.commands.executeCommand("vsconan.explorer.treeview.recipe.refresh");
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Download a reference that is entered by the user from a remote into the local cache
+     * @param node Selected conan remote node item, the user is asked for a remote if this is undefined
+     */
+    private async downloadReference(node?: ConanRemoteItem) {
+        const ref = await vscode.window.showInputBox({
+            title: "Download Reference - Enter the recipe reference",
+            prompt: "e.g. 'zlib/1.3', 'foo/1.0@user/channel' or 'zlib/1.3#revision'",
+            validateInput: text => utils.conan.isValidReference(text.trim()) ? null : "Enter a valid recipe reference..."
+        });
+
+        if (!ref) {
+            return;
+        }
+
+        const packageQuery = await vscode.window.showInputBox({
+            title: `Download Reference - Enter a package ID or settings query for '${ref.trim()}'`,
+            prompt: "e.g. 'os=Linux AND arch=x86_64', leave it empty to download all binary packages"
+        });
+
+        // Input is cancelled by the user
+        if (packageQuery === undefined) {
+            return;
+        }
+
+        let remote: string | undefined = node?.label;
+
+        try {
+            if (!remote) {
+                let remoteList = await this.conanApiManager.conanApi.getRemotes();
+
+                remote = await vscode.window.showQuickPick(remoteList.filter(remote => remote.enabled).map(remote => remote.name), {
+                    title: `Download Reference - Select a remote to download '${ref.trim()}' from`
+                });
+            }
+
+            if (!remote) {
+                return;
+            }
+
+            await this.withConanProgress(`Downloading '${ref.trim()}' from remote '${remote}'`,
+                (token) => this.conanApiManager.conanApi.downloadReference(ref.trim(), remote!, packageQuery.trim(), false, token));
+
+            vscode.commands.executeCommand("vsconan.explorer.treeview.recipe.refresh");
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Log in to selected remote and store the credentials in the SecretStorage of VS Code
+     * @param node Selected conan remote node item
+     */
+    private async loginRemote(node: ConanRemoteItem) {
+        let storedCredentials = await this.getCredentials(node.label);
+
+        const user = await vscode.window.showInputBox({
+            title: `Log in to remote '${node.label}'. Enter the user name...`,
+            value: storedCredentials?.user ?? "",
+            validateInput: text => text ? null : "Enter a user name..."
+        });
+
+        if (!user) {
+            return;
+        }
+
+        const password = await vscode.window.showInputBox({
+            title: `Log in to remote '${node.label}'. Enter the password or access token for user '${user}'...`,
+            password: true,
+            validateInput: text => text ? null : "Enter a password..."
+        });
+
+        if (!password) {
+            return;
+        }
+
+        try {
+            await this.withConanProgress(`Logging in to remote '${node.label}'`,
+                (token) => this.conanApiManager.conanApi.loginRemote(node.label, user, password, token));
+
+            await this.storeCredentials(node.label, { user: user, password: password });
+
+            this.nodeProviderConanRemote.refresh();
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    /**
+     * Log out from selected remote and remove its stored credentials
+     * @param node Selected conan remote node item
+     */
+    private async logoutRemote(node: ConanRemoteItem) {
+        try {
+            await this.withConanProgress(`Logging out from remote '${node.label}'`,
+                (token) => this.conanApiManager.conanApi.logoutRemote(node.label, token));
+
+            await this.deleteCredentials(node.label);
+
+            this.nodeProviderConanRemote.refresh();
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+        }
+    }
+
+    private getSecretKey(remote: string): string {
+        return `vsconan.remote.credentials.${remote}`;
+    }
+
+    private async getCredentials(remote: string): Promise<RemoteCredentials | undefined> {
+        let secret = await this.context.secrets.get(this.getSecretKey(remote));
+
+        return secret ? JSON.parse(secret) as RemoteCredentials : undefined;
+    }
+
+    private async storeCredentials(remote: string, credentials: RemoteCredentials) {
+        await this.context.secrets.store(this.getSecretKey(remote), JSON.stringify(credentials));
+
+        let remoteList = this.context.globalState.get<Array<string>>(REMOTE_CREDENTIALS_KEY, []);
+
+        if (!remoteList.includes(remote)) {
+            await this.context.globalState.update(REMOTE_CREDENTIALS_KEY, [...remoteList, remote]);
+        }
+
+        await this.applyStoredCredentials();
+    }
+
+    private async deleteCredentials(remote: string) {
+        await this.context.secrets.delete(this.getSecretKey(remote));
+
+        let remoteList = this.context.globalState.get<Array<string>>(REMOTE_CREDENTIALS_KEY, []);
+        await this.context.globalState.update(REMOTE_CREDENTIALS_KEY, remoteList.filter(name => name !== remote));
+
+        await this.applyStoredCredentials();
+    }
+
+    private async renameCredentials(remote: string, newName: string) {
+        let credentials = await this.getCredentials(remote);
+
+        if (credentials) {
+            await this.deleteCredentials(remote);
+            await this.storeCredentials(newName, credentials);
+        }
+    }
+
+    /**
+     * Pass the stored credentials of all remotes to the conan processes.
+     * Conan reads the credentials from the environment variables as soon as a remote requires authentication,
+     * e.g. after the authentication token of the remote is expired.
+     */
+    private async applyStoredCredentials() {
+        let env: { [name: string]: string } = {};
+
+        for (let remote of this.context.globalState.get<Array<string>>(REMOTE_CREDENTIALS_KEY, [])) {
+            let credentials = await this.getCredentials(remote);
+
+            if (credentials) {
+                env = { ...env, ...utils.conan.getRemoteCredentialEnv(remote, credentials.user, credentials.password) };
+            }
+        }
+
+        this.conanApiManager.setProcessEnv(env);
+    }
 }
\ No newline at end of file
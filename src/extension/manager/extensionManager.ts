@@ -14,4 +14,18 @@ export abstract class ExtensionManager extends Disposable {
 			})
 		);
 	} 
+
+	/**
+	 * Run a conan task with a cancellable progress notification, so the user is able to abort a long running conan process
+	 * @param title Title of the progress notification
+	 * @param task Task to be executed with the cancellation token of the notification and the progress to report the current step
+	 * @returns Result of the task
+	 */
+	protected withConanProgress<T>(title: string, task: (token: vscode.CancellationToken, progress: vscode.Progress<{ message?: string; increment?: number }>) => Promise<T>): Thenable<T> {
+		return vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: title,
+			cancellable: true
+		}, (progress, token) => task(token, progress));
+	}
 }
@@ -4,12 +4,16 @@ import * as vscode from 'vscode';
 import { ConanAPIManager } from '../../conans/api/conanAPIManager';
 import { CommandBuilder } from "../../conans/command/commandBuilder";
 import { CommandBuilderFactory } from "../../conans/command/commandBuilderFactory";
-import { ConfigCommand, ConfigCommandBuild, ConfigCommandCreate, ConfigCommandInstall, ConfigCommandPackage, ConfigCommandPackageExport, ConfigCommandSource } from '../../conans/command/configCommand';
+import { CommandContainer, ConfigCommand, ConfigCommandBuild, ConfigCommandCreate, ConfigCommandInstall, ConfigCommandPackage, ConfigCommandPackageExport, ConfigCommandSource } from '../../conans/command/configCommand';
+import { ConfigValidator } from '../../conans/workspace/configValidator';
 import { ConfigWorkspace } from '../../conans/workspace/configWorkspace';
+import { PipelineExecution, PipelineStepState, PipelineStepStatus } from '../../conans/workspace/pipelineExecution';
 import * as constants from "../../utils/constants";
 import * as utils from '../../utils/utils';
 import { ConanProfileConfiguration } from "../settings/model";
 import { SettingsPropertyManager } from "../settings/settingsPropertyManager";
+import { VSConanCompilerDiagnostics } from "./compilerDiagnostics";
+import { CONAN_TASK_TYPE, ConanTaskEnvironment, ConanTaskProvider } from "./conanTaskProvider";
 import { ExtensionManager } from "./extensionManager";
 import { VSConanWorkspaceEnvironment } from "./workspaceEnvironment";
 
@@ -22,13 +26,26 @@ enum ConanCommand {
     packageExport,
     activateBuildEnv,
     activateRunEnv,
-    deactivateEnv
+    deactivateEnv,
+    pipeline
 }
 
 interface ConfigCommandQuickPickItem extends vscode.QuickPickItem {
     index: number;
 }
 
+/**
+ * Icons of the pipeline step status in the quick pick and the status bar
+ */
+const PIPELINE_STEP_ICONS: { [status: string]: string } = {
+    [PipelineStepStatus.pending]: "$(circle-outline)",
+    [PipelineStepStatus.running]: "$(sync~spin)",
+    [PipelineStepStatus.succeeded]: "$(pass)",
+    [PipelineStepStatus.failed]: "$(error)",
+    [PipelineStepStatus.cancelled]: "$(circle-slash)",
+    [PipelineStepStatus.skipped]: "$(debug-step-over)"
+};
+
 /**
  * Class to manage conan workspace extension
  */
@@ -38,9 +55,14 @@ export class VSConanWorkspaceManager extends ExtensionManager {
     private conanApiManager: ConanAPIManager;
     private settingsPropertyManager: SettingsPropertyManager;
     private workspaceEnvironment: VSConanWorkspaceEnvironment;
+    private compilerDiagnostics: VSConanCompilerDiagnostics;
 
     private statusBarConanVersion: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
     private statusBarCommands: vscode.StatusBarItem[] = Array.from({ length: 6 }, _ => vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left));
+    private statusBarPipeline: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+
+    // Last execution of each pipeline, the key is the workspace path and the name of the pipeline
+    private pipelineExecutions: Map<string, PipelineExecution> = new Map<string, PipelineExecution>();
 
     /**
      * Create the conan workspace manager
@@ -59,6 +81,9 @@ export class VSConanWorkspaceManager extends ExtensionManager {
         this.conanApiManager = conanApiManager;
         this.settingsPropertyManager = settingsPropertyManager;
         this.workspaceEnvironment = new VSConanWorkspaceEnvironment(context, settingsPropertyManager, outputChannel);
+        this.compilerDiagnostics = new VSConanCompilerDiagnostics();
+
+        this.registerDisposable(this.compilerDiagnostics);
 
         this.registerCommand("vsconan.conan.create", () => this.executeConanCommand(ConanCommand.create));
         this.registerCommand("vsconan.conan.install", () => this.executeConanCommand(ConanCommand.install));
@@ -74,6 +99,11 @@ export class VSConanWorkspaceManager extends ExtensionManager {
         this.registerCommand("vsconan.conan.buildenv", () => this.executeConanCommand(ConanCommand.activateBuildEnv));
         this.registerCommand("vsconan.conan.runenv", () => this.executeConanCommand(ConanCommand.activateRunEnv));
         this.registerCommand("vsconan.conan.deactivateenv", () => this.executeConanCommand(ConanCommand.deactivateEnv));
+        this.registerCommand("vsconan.conan.pipeline", () => this.executeConanCommand(ConanCommand.pipeline));
+
+        this.registerDisposable(vscode.tasks.registerTaskProvider(CONAN_TASK_TYPE, new ConanTaskProvider(outputChannel,
+            () => this.getTaskEnvironment(),
+            (recipePath, attribute) => this.conanApiManager.conanApi.getRecipeAttribute(recipePath, attribute))));
 
         this.initStatusBarConanVersion();
         this.initStatusBarCommands();
@@ -122,7 +152,25 @@ export class VSConanWorkspaceManager extends ExtensionManager {
         this.statusBarCommands[5].command = "vsconan.conan.deactivateenv";
         this.statusBarCommands[5].show();
 
+        this.statusBarPipeline.text = "$(run-all)";
+        this.statusBarPipeline.tooltip = "VSConan - Run a pipeline of conan commands";
+        this.statusBarPipeline.command = "vsconan.conan.pipeline";
+        this.statusBarPipeline.show();
+
         this.context.subscriptions.push(this.statusBarConanVersion);
+        this.context.subscriptions.push(this.statusBarPipeline);
+    }
+
+    /**
+     * Show the status of each step of a pipeline execution in the status bar
+     * @param execution Current or last execution of a pipeline
+     */
+    private updateStatusBarPipeline(execution: PipelineExecution) {
+        let summary = execution.getSummary(status => PIPELINE_STEP_ICONS[status]);
+
+        this.statusBarPipeline.text = `$(run-all) ${execution.pipeline.name}: ${summary}`;
+        this.statusBarPipeline.tooltip = `VSConan - Pipeline '${execution.pipeline.name}'\n${execution.stepStates.map(stepState =>
+            `${stepState.step.command} '${stepState.step.name}': ${stepState.status}` + (typeof stepState.exitCode === "number" ? ` (exit code ${stepState.exitCode})` : "")).join("\n")}`;
     }
 
     private updateStatusBar() {
@@ -242,9 +290,27 @@ export class VSConanWorkspaceManager extends ExtensionManager {
         if (fs.existsSync(configPath)) {
             let configWorkspace = new ConfigWorkspace();
             let configText = fs.readFileSync(configPath, 'utf8');
+
+            // An invalid configuration would result in a malformed conan command
+            let issueList = ConfigValidator.validateText(configText);
+
+            if (issueList.length > 0) {
+                this.outputChannel.appendLine(`ERROR: Invalid configuration file '${configPath}'`);
+                issueList.forEach(issue => this.outputChannel.appendLine(`${issue.getPathString() || "(root)"}: ${issue.message}`));
+
+                let answer = await vscode.window.showErrorMessage(`Invalid configuration file '${configPath}': ${issueList[0].message}` +
+                    (issueList.length > 1 ? ` (${issueList.length - 1} more issues)` : ""), ...["Open Configuration"]);
+
+                if (answer === "Open Configuration") {
+                    utils.editor.openFileInEditor(configPath);
+                }
+
+                return;
+            }
+
             configWorkspace = JSON.parse(configText);
 
-            let conanCommand = "";
+            let conanCommand: Array<string> = [];
             let commandBuilder: CommandBuilder | undefined;
             let conanVersion: string | null = "";
             let conanProfileObject: ConanProfileConfiguration | undefined;
@@ -257,14 +323,9 @@ export class VSConanWorkspaceManager extends ExtensionManager {
                 commandBuilder = CommandBuilderFactory.getCommandBuilder(conanVersion!);
 
                 conanProfileObject = await this.settingsPropertyManager.getConanProfileObject(currentConanProfile!);
+                conanCommand = this.getConanCommandOfProfile(conanProfileObject);
 
-                if (conanProfileObject?.conanExecutionMode === "pythonInterpreter" && conanProfileObject.conanPythonInterpreter) {
-                    conanCommand = `${conanProfileObject.conanPythonInterpreter} -m conans.conan`;
-                }
-                else if (conanProfileObject?.conanExecutionMode === "conanExecutable" && conanProfileObject.conanExecutable) {
-                    conanCommand = `${conanProfileObject.conanExecutable}`;
-                }
-                else {
+                if (conanCommand.length === 0) {
                     vscode.window.showErrorMessage("Empty Conan Command");
                     return;
                 }
@@ -309,7 +370,7 @@ export class VSConanWorkspaceManager extends ExtensionManager {
                         vscode.window.showErrorMessage("This command is not yet supported for Conan 1");
                         break;
                     }
-                    this.executeCommandActivateEnv(wsPath!, conanProfileObject.conanPythonInterpreter, utils.conan.ConanEnv.buildEnv, commandBuilder!, configWorkspace.commandContainer.install);
+                    this.executeCommandActivateEnv(wsPath!, conanProfileObject!.conanPythonInterpreter, utils.conan.ConanEnv.buildEnv, commandBuilder!, configWorkspace.commandContainer.install);
                     break;
                 }
                 case ConanCommand.activateRunEnv: {
@@ -317,7 +378,7 @@ export class VSConanWorkspaceManager extends ExtensionManager {
                         vscode.window.showErrorMessage("This command is not yet supported for Conan 1");
                         break;
                     }
-                    this.executeCommandActivateEnv(wsPath!, conanProfileObject.conanPythonInterpreter, utils.conan.ConanEnv.runEnv, commandBuilder!, configWorkspace.commandContainer.install);
+                    this.executeCommandActivateEnv(wsPath!, conanProfileObject!.conanPythonInterpreter, utils.conan.ConanEnv.runEnv, commandBuilder!, configWorkspace.commandContainer.install);
                     break;
                 }
                 case ConanCommand.deactivateEnv: {
@@ -328,6 +389,10 @@ export class VSConanWorkspaceManager extends ExtensionManager {
                     this.executeCommandDeactivateEnv();
                     break;
                 }
+                case ConanCommand.pipeline: {
+                    this.executeCommandPipeline(wsPath!, conanCommand, conanVersion!, commandBuilder!, configWorkspace.commandContainer);
+                    break;
+                }
             }
         }
         else {
@@ -335,6 +400,50 @@ export class VSConanWorkspaceManager extends ExtensionManager {
         }
     }
 
+    /**
+     * Get the conan command of a profile, which is either the python interpreter with the conan module or the conan executable
+     * @param conanProfileObject Configuration of the VSConan profile
+     * @returns Executable of the conan command followed by its leading arguments, e.g. ['python', '-m', 'conans.conan'] | empty array if the profile has no conan command
+     */
+    private getConanCommandOfProfile(conanProfileObject: ConanProfileConfiguration | undefined): Array<string> {
+        if (conanProfileObject?.conanExecutionMode === "pythonInterpreter" && conanProfileObject.conanPythonInterpreter) {
+            return [conanProfileObject.conanPythonInterpreter, "-m", "conans.conan"];
+        }
+        else if (conanProfileObject?.conanExecutionMode === "conanExecutable" && conanProfileObject.conanExecutable) {
+            return [conanProfileObject.conanExecutable];
+        }
+
+        return [];
+    }
+
+    /**
+     * Get the conan command line of the selected profile for the conan tasks
+     * The environment contains the variables of the active Conan BuildEnv/RunEnv, so the tasks are executed within this environment.
+     * @returns Conan command line of the selected profile | undefined if the selected profile is invalid
+     */
+    private async getTaskEnvironment(): Promise<ConanTaskEnvironment | undefined> {
+        let currentConanProfile = this.settingsPropertyManager.getSelectedConanProfile();
+
+        if (!currentConanProfile || !await this.settingsPropertyManager.isProfileValid(currentConanProfile)) {
+            return undefined;
+        }
+
+        let conanVersion = await this.settingsPropertyManager.getConanVersionOfProfile(currentConanProfile);
+        let commandBuilder = CommandBuilderFactory.getCommandBuilder(conanVersion ?? "");
+        let conanCommand = this.getConanCommandOfProfile(await this.settingsPropertyManager.getConanProfileObject(currentConanProfile));
+
+        if (!conanVersion || !commandBuilder || conanCommand.length === 0) {
+            return undefined;
+        }
+
+        // The stored credentials of the remotes are left out, since the environment of a task is readable in its terminal
+        let env: { [name: string]: string } = {};
+
+        this.workspaceEnvironment.activeEnv()?.[3].forEach(([name, value]) => env[name] = value);
+
+        return { conanCommand: conanCommand, conanVersion: conanVersion, commandBuilder: commandBuilder, env: env };
+    }
+
     /**
      * Helper method to get the index of selected command.
      * This method basically will pop up quick pick window to select configuration where the user has to choose.
@@ -373,27 +482,74 @@ export class VSConanWorkspaceManager extends ExtensionManager {
         });
     }
 
+    /**
+     * Execute a conan command of the workspace and show the compiler problems of its output in the problems view
+     * @param wsPath Absolute path of the workspace, which source files of the Conan cache are mapped to
+     * @param conanCommand Executable of the conan command followed by its leading arguments
+     * @param subCommand Conan subcommand, e.g. 'build'
+     * @param args Arguments of the conan subcommand
+     * @param clearProblems Remove the problems of the previous commands, which is disabled for the steps of a pipeline
+     * @returns Exit code of the process | null if the process could not be started or was terminated
+     */
+    private async executeWorkspaceCommand(wsPath: string, conanCommand: Array<string>, subCommand: string, args: Array<string>, clearProblems: boolean = true): Promise<number | null> {
+        if (clearProblems) {
+            this.compilerDiagnostics.clear();
+        }
+
+        let outputHandler = this.compilerDiagnostics.createOutputHandler(wsPath);
+        let [executable, ...conanArgs] = conanCommand;
+        let exitCode = await utils.vsconan.cmd.executeCommand(executable, [...conanArgs, subCommand, ...args],
+            this.outputChannel, this.conanApiManager.processEnv, outputHandler.append);
+
+        outputHandler.flush();
+
+        return exitCode;
+    }
+
+    /**
+     * Resolve the variables of the selected configuration, e.g. '${workspaceFolder}' or '${input:Version}', before the conan command is built
+     * @param wsPath Absolute path of the workspace
+     * @param config Selected configuration
+     * @returns Configuration with resolved variables | undefined if an input is cancelled or the recipe cannot be inspected
+     */
+    private async resolveConfigVariables<T extends ConfigCommand>(wsPath: string, config: T): Promise<T | undefined> {
+        let resolver = utils.vsconan.config.createVariableResolver(wsPath,
+            (recipePath, attribute) => this.conanApiManager.conanApi.getRecipeAttribute(recipePath, attribute));
+
+        try {
+            return await resolver.resolveCommand(config);
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+            return undefined;
+        }
+    }
+
     /**
      * Execute the 'conan create' command
      * @param wsPath Absolute path of the workspace
      * @param python Python interpreter (absolute path or predefined in the environment variables)
      * @param configList List of possible configurations
      */
-    private executeCommandConanCreate(wsPath: string, conanCommand: string, commandBuilder: CommandBuilder, configList: Array<ConfigCommandCreate>) {
+    private executeCommandConanCreate(wsPath: string, conanCommand: Array<string>, commandBuilder: CommandBuilder, configList: Array<ConfigCommandCreate>) {
         let promiseIndex = this.getCommandConfigIndex(configList);
 
-        promiseIndex.then(index => {
+        promiseIndex.then(async index => {
             if (index !== undefined) {
-                let selectedConfig = configList[index];
+                let selectedConfig = await this.resolveConfigVariables(wsPath, configList[index]);
+
+                if (!selectedConfig) {
+                    return;
+                }
 
                 let cmd = commandBuilder.buildCommandCreate(wsPath, selectedConfig);
 
                 if (cmd) {
                     try {
-                        utils.vsconan.cmd.executeCommand(`${conanCommand} create`, cmd, this.outputChannel);
+                        await this.executeWorkspaceCommand(wsPath, conanCommand, "create", cmd);
                     }
                     catch (err) {
-                        vscode.window.showErrorMessage((err as Error).message);
+                        utils.vsconan.showErrorMessage(err, this.outputChannel);
                     }
                 }
                 else {
@@ -403,6 +559,125 @@ export class VSConanWorkspaceManager extends ExtensionManager {
         });
     }
 
+    /**
+     * Execute a pipeline, whose steps run one after another until a step exits with a non-zero code
+     * @param wsPath Absolute path of the workspace
+     * @param conanCommand Conan command (executable or python module)
+     * @param conanVersion Conan version of the selected profile
+     * @param commandBuilder Builder for Conan commands
+     * @param commandContainer Command container with the pipelines and the commands of the steps
+     */
+    private async executeCommandPipeline(wsPath: string, conanCommand: Array<string>, conanVersion: string, commandBuilder: CommandBuilder, commandContainer: CommandContainer) {
+        let execution = await this.selectPipeline(wsPath, commandContainer);
+
+        if (!execution) {
+            return;
+        }
+
+        if (execution.isRunning()) {
+            vscode.window.showWarningMessage(`Pipeline '${execution.pipeline.name}' is already running.`);
+            return;
+        }
+
+        if (conanVersion === "2" && execution.stepStates.some(stepState => stepState.step.command === "pkg")) {
+            vscode.window.showErrorMessage(`Pipeline '${execution.pipeline.name}' contains a 'pkg' step, which doesn't work on Conan 2`);
+            return;
+        }
+
+        // The compiler problems of all steps are kept until the next execution
+        this.compilerDiagnostics.clear();
+
+        // A single resolver for all steps, so each input is only asked once per pipeline execution
+        let resolver = utils.vsconan.config.createVariableResolver(wsPath,
+            (recipePath, attribute) => this.conanApiManager.conanApi.getRecipeAttribute(recipePath, attribute));
+
+        let succeeded = await execution.run(async (stepState: PipelineStepState) => {
+            try {
+                let selectedConfig = await resolver.resolveCommand(stepState.config);
+
+                if (!selectedConfig) {
+                    return undefined;
+                }
+
+                let [subCommand, cmdArgs] = commandBuilder.buildCommand(stepState.step.command, wsPath, selectedConfig);
+
+                if (cmdArgs === undefined) {
+                    throw new Error(`Unable to build the conan ${subCommand} command of the step '${stepState.step.name}'`);
+                }
+
+                this.outputChannel.appendLine(`Pipeline '${execution!.pipeline.name}': ${stepState.step.command} '${stepState.step.name}'`);
+
+                return await this.executeWorkspaceCommand(wsPath, conanCommand, subCommand, cmdArgs, false);
+            }
+            catch (err) {
+                utils.vsconan.showErrorMessage(err, this.outputChannel);
+                throw err;
+            }
+        }, () => this.updateStatusBarPipeline(execution!));
+
+        if (succeeded) {
+            vscode.window.showInformationMessage(`Pipeline '${execution.pipeline.name}' finished successfully.`);
+        }
+        else {
+            let stoppedStep = execution.stepStates.find(stepState => stepState.status === PipelineStepStatus.failed || stepState.status === PipelineStepStatus.cancelled);
+
+            if (stoppedStep) {
+                vscode.window.showErrorMessage(`Pipeline '${execution.pipeline.name}' stopped at step '${stoppedStep.step.name}' (${stoppedStep.status}).`);
+            }
+        }
+    }
+
+    /**
+     * Select a pipeline of the workspace with a quick pick, which shows the step status of the last execution
+     * @param wsPath Absolute path of the workspace
+     * @param commandContainer Command container with the pipelines
+     * @returns Execution of the selected pipeline | undefined if the selection is cancelled or a step references an unknown command
+     */
+    private async selectPipeline(wsPath: string, commandContainer: CommandContainer): Promise<PipelineExecution | undefined> {
+        let pipelineList = commandContainer.pipelines ?? [];
+
+        if (pipelineList.length === 0) {
+            vscode.window.showWarningMessage(`No pipelines configured in the workspace '${wsPath}'`);
+            return undefined;
+        }
+
+        let quickPickItems: Array<ConfigCommandQuickPickItem> = pipelineList.map((pipeline, index) => {
+            let lastExecution = this.pipelineExecutions.get(`${wsPath}:${pipeline.name}`);
+
+            return {
+                label: pipeline.name,
+                description: pipeline.description,
+                detail: lastExecution ? lastExecution.getSummary(status => PIPELINE_STEP_ICONS[status]) :
+                    (pipeline.steps ?? []).map(step => step.name).join(" → "),
+                index: index
+            };
+        });
+
+        let choice = await vscode.window.showQuickPick(quickPickItems, { title: "VSConan - Run Pipeline" });
+
+        if (!choice) {
+            return undefined;
+        }
+
+        let key = `${wsPath}:${pipelineList[choice.index].name}`;
+        let lastExecution = this.pipelineExecutions.get(key);
+
+        if (lastExecution?.isRunning()) {
+            return lastExecution;
+        }
+
+        try {
+            let execution = new PipelineExecution(pipelineList[choice.index], commandContainer);
+            this.pipelineExecutions.set(key, execution);
+
+            return execution;
+        }
+        catch (err) {
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
+            return undefined;
+        }
+    }
+
     /**
      * Deactivate Conan environment; i.e. restore original environment variables.
      */
@@ -423,9 +698,14 @@ export class VSConanWorkspaceManager extends ExtensionManager {
     private executeCommandActivateEnv(wsPath: string, pythonInterpreter: string, whichEnv: utils.conan.ConanEnv, commandBuilder: CommandBuilder, configList: Array<ConfigCommandInstall>) {
         let promiseIndex = this.getCommandConfigIndex(configList);
 
-        promiseIndex.then(index => {
+        promiseIndex.then(async index => {
             if (index !== undefined) {
-                let selectedConfig = configList[index];
+                let selectedConfig = await this.resolveConfigVariables(wsPath, configList[index]);
+
+                if (!selectedConfig) {
+                    return;
+                }
+
                 const cmd = commandBuilder.buildCommandInstall(wsPath, selectedConfig)!;
                 this.workspaceEnvironment.activateEnvironment(whichEnv, selectedConfig.name, pythonInterpreter, cmd).then(this.updateStatusBar);
             }
@@ -438,20 +718,25 @@ export class VSConanWorkspaceManager extends ExtensionManager {
      * @param python Python interpreter (absolute path or predefined in the environment variables)
      * @param configList List of possible configurations
      */
-    private executeCommandConanInstall(wsPath: string, conanCommand: string, commandBuilder: CommandBuilder, configList: Array<ConfigCommandInstall>) {
+    private executeCommandConanInstall(wsPath: string, conanCommand: Array<string>, commandBuilder: CommandBuilder, configList: Array<ConfigCommandInstall>) {
         let promiseIndex = this.getCommandConfigIndex(configList);
 
-        promiseIndex.then(index => {
+        promiseIndex.then(async index => {
             if (index !== undefined) {
-                let selectedConfig = configList[index];
+                let selectedConfig = await this.resolveConfigVariables(wsPath, configList[index]);
+
+                if (!selectedConfig) {
+                    return;
+                }
+
                 let cmdArgs = commandBuilder.buildCommandInstall(wsPath, selectedConfig);
 
                 if (cmdArgs !== undefined) {
                     try {
-                        utils.vsconan.cmd.executeCommand(`${conanCommand} install`, cmdArgs, this.outputChannel);
+                        await this.executeWorkspaceCommand(wsPath, conanCommand, "install", cmdArgs);
                     }
                     catch (err) {
-                        vscode.window.showErrorMessage((err as Error).message);
+                        utils.vsconan.showErrorMessage(err, this.outputChannel);
                     }
                 }
                 else {
@@ -467,20 +752,25 @@ export class VSConanWorkspaceManager extends ExtensionManager {
      * @param python Python interpreter (absolute path or predefined in the environment variables)
      * @param configList List of possible configurations
      */
-    private executeCommandConanBuild(wsPath: string, conanCommand: string, commandBuilder: CommandBuilder, configList: Array<ConfigCommandBuild>) {
+    private executeCommandConanBuild(wsPath: string, conanCommand: Array<string>, commandBuilder: CommandBuilder, configList: Array<ConfigCommandBuild>) {
         let promiseIndex = this.getCommandConfigIndex(configList);
 
-        promiseIndex.then(index => {
+        promiseIndex.then(async index => {
             if (index !== undefined) {
-                let selectedConfig = configList[index];
+                let selectedConfig = await this.resolveConfigVariables(wsPath, configList[index]);
+
+                if (!selectedConfig) {
+                    return;
+                }
+
                 let cmd = commandBuilder.buildCommandBuild(wsPath, selectedConfig);
 
                 if (cmd !== undefined) {
                     try {
-                        utils.vsconan.cmd.executeCommand(`${conanCommand} build`, cmd, this.outputChannel);
+                        await this.executeWorkspaceCommand(wsPath, conanCommand, "build", cmd);
                     }
                     catch (err) {
-                        vscode.window.showErrorMessage((err as Error).message);
+                        utils.vsconan.showErrorMessage(err, this.outputChannel);
                     }
                 }
                 else {
@@ -496,20 +786,25 @@ export class VSConanWorkspaceManager extends ExtensionManager {
      * @param python Python interpreter (absolute path or predefined in the environment variables)
      * @param configList List of possible configurations
      */
-    private executeCommandConanSource(wsPath: string, conanCommand: string, commandBuilder: CommandBuilder, configList: Array<ConfigCommandSource>) {
+    private executeCommandConanSource(wsPath: string, conanCommand: Array<string>, commandBuilder: CommandBuilder, configList: Array<ConfigCommandSource>) {
         let promiseIndex = this.getCommandConfigIndex(configList);
 
-        promiseIndex.then(index => {
+        promiseIndex.then(async index => {
             if (index !== undefined) {
-                let selectedConfig = configList[index];
+                let selectedConfig = await this.resolveConfigVariables(wsPath, configList[index]);
+
+                if (!selectedConfig) {
+                    return;
+                }
+
                 let cmd = commandBuilder.buildCommandSource(wsPath, selectedConfig);
 
                 if (cmd !== undefined) {
                     try {
-                        utils.vsconan.cmd.executeCommand(`${conanCommand} source`, cmd, this.outputChannel);
+                        await this.executeWorkspaceCommand(wsPath, conanCommand, "source", cmd);
                     }
                     catch (err) {
-                        vscode.window.showErrorMessage((err as Error).message);
+                        utils.vsconan.showErrorMessage(err, this.outputChannel);
                     }
                 }
                 else {
@@ -525,20 +820,25 @@ export class VSConanWorkspaceManager extends ExtensionManager {
      * @param python Python interpreter (absolute path or predefined in the environment variables)
      * @param configList List of possible configurations
      */
-    private executeCommandConanPackage(wsPath: string, conanCommand: string, commandBuilder: CommandBuilder, configList: Array<ConfigCommandPackage>) {
+    private executeCommandConanPackage(wsPath: string, conanCommand: Array<string>, commandBuilder: CommandBuilder, configList: Array<ConfigCommandPackage>) {
         let promiseIndex = this.getCommandConfigIndex(configList);
 
-        promiseIndex.then(index => {
+        promiseIndex.then(async index => {
             if (index !== undefined) {
-                let selectedConfig = configList[index];
+                let selectedConfig = await this.resolveConfigVariables(wsPath, configList[index]);
+
+                if (!selectedConfig) {
+                    return;
+                }
+
                 let cmd = commandBuilder.buildCommandPackage(wsPath, selectedConfig);
 
                 if (cmd !== undefined) {
                     try {
-                        utils.vsconan.cmd.executeCommand(`${conanCommand} package`, cmd, this.outputChannel);
+                        await this.executeWorkspaceCommand(wsPath, conanCommand, "package", cmd);
                     }
                     catch (err) {
-                        vscode.window.showErrorMessage((err as Error).message);
+                        utils.vsconan.showErrorMessage(err, this.outputChannel);
                     }
                 }
                 else {
@@ -554,20 +854,25 @@ export class VSConanWorkspaceManager extends ExtensionManager {
      * @param python Python interpreter (absolute path or predefined in the environment variables)
      * @param configList List of possible configurations
      */
-    private executeCommandConanPackageExport(wsPath: string, conanCommand: string, commandBuilder: CommandBuilder, configList: Array<ConfigCommandPackageExport>) {
+    private executeCommandConanPackageExport(wsPath: string, conanCommand: Array<string>, commandBuilder: CommandBuilder, configList: Array<ConfigCommandPackageExport>) {
         let promiseIndex = this.getCommandConfigIndex(configList);
 
-        promiseIndex.then(index => {
+        promiseIndex.then(async index => {
             if (index !== undefined) {
-                let selectedConfig = configList[index];
+                let selectedConfig = await this.resolveConfigVariables(wsPath, configList[index]);
+
+                if (!selectedConfig) {
+                    return;
+                }
+
                 let cmd = commandBuilder.buildCommandPackageExport(wsPath, selectedConfig);
 
                 if (cmd !== undefined) {
                     try {
-                        utils.vsconan.cmd.executeCommand(`${conanCommand} export-pkg`, cmd, this.outputChannel);
+                        await this.executeWorkspaceCommand(wsPath, conanCommand, "export-pkg", cmd);
                     }
                     catch (err) {
-                        vscode.window.showErrorMessage((err as Error).message);
+                        utils.vsconan.showErrorMessage(err, this.outputChannel);
                     }
                 }
                 else {
@@ -611,15 +916,15 @@ export class VSConanWorkspaceManager extends ExtensionManager {
 
                 if (wsChoice) {
                     // Get the name and version in the recipe
-                    let name = this.conanApiManager.conanApi.getRecipeAttribute(wsChoice!.label, "name");
-                    let version = this.conanApiManager.conanApi.getRecipeAttribute(wsChoice!.label, "version");
+                    let name = await this.conanApiManager.conanApi.getRecipeAttribute(wsChoice!.label, "name");
+                    let version = await this.conanApiManager.conanApi.getRecipeAttribute(wsChoice!.label, "version");
                     let packageInformation = `${name}/${version}`;
 
                     // Input for 'user' and 'channel'
                     // Initial value is defined as 'undefined' to put the logic at the end.
                     // Even there is no user and channel it should be at least an empty string, not 'undefined'
-                    let user = undefined;
-                    let channel = undefined;
+                    let user: string | undefined = undefined;
+                    let channel: string | undefined = undefined;
 
                     const userInput = await vscode.window.showInputBox({
                         title: `Editable - Select 'user' for package '${packageInformation}'`,
@@ -664,27 +969,42 @@ export class VSConanWorkspaceManager extends ExtensionManager {
                     // Make sure that user and channel are string, not 'undefined', and then we can execute the conan API command to add the editable package
                     if (user !== undefined && channel !== undefined) {
 
-                        const layout = await vscode.window.showInputBox({
-                            title: `Editable - Select 'layout' for package '${packageInformation}'`
-                        });
-
-                        if (layout !== undefined) {
-                            this.conanApiManager.conanApi.addEditablePackage(wsChoice.label, packageInformation, user, channel, layout);
-                            vscode.window.showInformationMessage(`Editable package '${packageInformation}' with user '${user}' and channel '${channel}' has been added.`);
+                        if (this.conanApiManager.conanVersion === "2") {
+                            // Conan 2 does not support layout file for editable package, the layout is defined in the recipe
+                            // Instead of that the user can define an output folder for the generated files
+                            const outputFolder = await vscode.window.showInputBox({
+                                title: `Editable - Select 'output folder' for package '${packageInformation}' (Optional)`
+                            });
+
+                            if (outputFolder !== undefined) {
+                                await this.withConanProgress(`Adding editable package '${packageInformation}'`,
+                                    (token) => this.conanApiManager.conanApi.addEditablePackage(wsChoice.label, packageInformation, user!, channel!, "", outputFolder, token));
+                                vscode.window.showInformationMessage(`Editable package '${packageInformation}' with user '${user}' and channel '${channel}' has been added.`);
+                            }
+                        }
+                        else {
+                            const layout = await vscode.window.showInputBox({
+                                title: `Editable - Select 'layout' for package '${packageInformation}'`
+                            });
+
+                            if (layout !== undefined) {
+                                await this.withConanProgress(`Adding editable package '${packageInformation}'`,
+                                    (token) => this.conanApiManager.conanApi.addEditablePackage(wsChoice.label, packageInformation, user!, channel!, layout, undefined, token));
+                                vscode.window.showInformationMessage(`Editable package '${packageInformation}' with user '${user}' and channel '${channel}' has been added.`);
+                            }
                         }
-
                     }
                 }
             }
             catch (err) {
-                vscode.window.showErrorMessage((err as Error).message);
+                utils.vsconan.showErrorMessage(err, this.outputChannel);
             }
         }
     }
 
     private async removeEditablePackage() {
         try {
-            let editablePackageRecipes = this.conanApiManager.conanApi.getEditablePackageRecipes();
+            let editablePackageRecipes = await this.conanApiManager.conanApi.getEditablePackageRecipes();
 
             const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem>();
             let quickPickItems = [];
@@ -702,12 +1022,13 @@ export class VSConanWorkspaceManager extends ExtensionManager {
             const choice = await vscode.window.showQuickPick(quickPickItems);
 
             if (choice) {
-                this.conanApiManager.conanApi.removeEditablePackageRecipe(choice.label);
+                await this.withConanProgress(`Removing editable package '${choice.label}'`,
+                    (token) => this.conanApiManager.conanApi.removeEditablePackageRecipe(choice.label, token));
                 vscode.window.showInformationMessage(`Editable package ${choice?.label} has been removed.`);
             }
         }
         catch (err) {
-            vscode.window.showErrorMessage((err as Error).message);
+            utils.vsconan.showErrorMessage(err, this.outputChannel);
         }
     }
 }
@@ -16,21 +16,4 @@ export class ConanProfileConfiguration {
 
         return valid;
     }
-
-    /**
-     * Public function of the model to escaping the whitespace inside that path string.
-     */
-    public escapeWhitespace(): void {
-        if (this.conanPythonInterpreter) {
-            this.conanPythonInterpreter = this.conanPythonInterpreter.replace(/(?<!\\)\s/g, "\\ ");
-        }
-
-        if (this.conanExecutable) {
-            this.conanExecutable = this.conanExecutable.replace(/(?<!\\)\s/g, "\\ ");
-        }
-
-        if (this.conanUserHome) {
-            this.conanUserHome = this.conanUserHome.replace(/(?<!\\)\s/g, "\\ ");
-        }
-    }
 }
@@ -2,6 +2,9 @@ import * as vscode from "vscode";
 import { ConanExecutionMode } from "../../conans/api/base/conanAPI";
 import { ConanAPIManager } from "../../conans/api/conanAPIManager";
 import { ConanCacheExplorerManager } from "../manager/explorer/conanCache";
+import { ConanCacheUsageExplorerManager } from "../manager/explorer/conanCacheUsage";
+import { ConanDependencyExplorerManager } from "../manager/explorer/conanDependency";
+import { ConanIntegrityExplorerManager } from "../manager/explorer/conanIntegrity";
 import { ConanProfileExplorerManager } from "../manager/explorer/conanProfile";
 import { ConanRemoteExplorerManager } from "../manager/explorer/conanRemote";
 import { VSConanWorkspaceManager } from "../manager/vsconanWorkspace";
@@ -12,6 +15,9 @@ export class SettingsManager {
     private conanCacheExplorerManager: ConanCacheExplorerManager;
     private conanProfileExplorerManager: ConanProfileExplorerManager;
     private conanRemoteExplorerManager: ConanRemoteExplorerManager;
+    private conanDependencyExplorerManager: ConanDependencyExplorerManager;
+    private conanCacheUsageExplorerManager: ConanCacheUsageExplorerManager;
+    private conanIntegrityExplorerManager: ConanIntegrityExplorerManager;
     private conanWorkspaceManager: VSConanWorkspaceManager;
     private settingsPropertyManager: SettingsPropertyManager;
 
@@ -20,6 +26,9 @@ export class SettingsManager {
         conanCacheExplorerManager: ConanCacheExplorerManager,
         conanProfileExplorerManager: ConanProfileExplorerManager,
         conanRemoteExplorerManager: ConanRemoteExplorerManager,
+        conanDependencyExplorerManager: ConanDependencyExplorerManager,
+        conanCacheUsageExplorerManager: ConanCacheUsageExplorerManager,
+        conanIntegrityExplorerManager: ConanIntegrityExplorerManager,
         conanWorkspaceManager: VSConanWorkspaceManager,
         settingsPropertyManager: SettingsPropertyManager
     ) {
@@ -27,6 +36,9 @@ export class SettingsManager {
         this.conanCacheExplorerManager = conanCacheExplorerManager;
         this.conanProfileExplorerManager = conanProfileExplorerManager;
         this.conanRemoteExplorerManager = conanRemoteExplorerManager;
+        this.conanDependencyExplorerManager = conanDependencyExplorerManager;
+        this.conanCacheUsageExplorerManager = conanCacheUsageExplorerManager;
+        this.conanIntegrityExplorerManager = conanIntegrityExplorerManager;
         this.conanWorkspaceManager = conanWorkspaceManager;
         this.settingsPropertyManager = settingsPropertyManager;
     }
@@ -38,6 +50,8 @@ export class SettingsManager {
         this.settingsPropertyManager.setEnvConanUserHome(process.env.CONAN_USER_HOME);
         this.settingsPropertyManager.setEnvConanHome(process.env.CONAN_HOME);
 
+        this.conanApiManager.setProcessTimeout(this.settingsPropertyManager.getConanProcessTimeout());
+
 
         // // Get the configuration from 'settings.json' for this matter
         // let conanUserHome: string | null | undefined = vscode.workspace.getConfiguration("vsconan").get("general.conanUserHome");
@@ -60,6 +74,10 @@ export class SettingsManager {
             if (event.affectsConfiguration("vsconan.conan.profile")) {
                 this.changeConanProfile();
             }
+
+            if (event.affectsConfiguration("vsconan.conan.process")) {
+                this.conanApiManager.setProcessTimeout(this.settingsPropertyManager.getConanProcessTimeout());
+            }
         }
     }
 
@@ -81,13 +99,16 @@ export class SettingsManager {
 
             this.conanApiManager.setApiInstance(
                 profileObject!.conanVersion,
-                profileObject!.conanPythonInterpreter.replace(/(?<!\\)\s/g, "\\ "),
-                profileObject!.conanExecutable.replace(/(?<!\\)\s/g, "\\ "),
+                profileObject!.conanPythonInterpreter,
+                profileObject!.conanExecutable,
                 conanExecutionMode);
 
             this.conanCacheExplorerManager.refresh();
             this.conanProfileExplorerManager.refresh();
             this.conanRemoteExplorerManager.refresh();
+            this.conanDependencyExplorerManager.refresh();
+            this.conanCacheUsageExplorerManager.refresh();
+            this.conanIntegrityExplorerManager.refresh();
             this.conanWorkspaceManager.refresh();
         }
         else {
@@ -103,7 +124,13 @@ export class SettingsManager {
             this.conanCacheExplorerManager.clean();
             this.conanProfileExplorerManager.clean();
             this.conanRemoteExplorerManager.clean();
+            this.conanDependencyExplorerManager.clean();
+            this.conanCacheUsageExplorerManager.clean();
+            this.conanIntegrityExplorerManager.clean();
             this.conanWorkspaceManager.refresh();
         }
+
+        // Context menu entries that depend on the conan version
+        vscode.commands.executeCommand('setContext', 'conan-version', this.conanApiManager.conanVersion);
     }
 }
@@ -63,6 +63,24 @@ export class SettingsPropertyManager {
         return this.context.workspaceState.get('recipe-filter-key');
     }
 
+    public isRecipePatternFiltered(): boolean {
+        return !!this.getRecipePatternFilterKey();
+    }
+
+    public setRecipePatternFilter(pattern: string) {
+        vscode.commands.executeCommand('setContext', 'recipe-pattern-filtered', true);
+        this.context.workspaceState.update("recipe-pattern-filter-key", pattern);
+    }
+
+    public clearRecipePatternFilter() {
+        vscode.commands.executeCommand('setContext', 'recipe-pattern-filtered', false);
+        this.context.workspaceState.update("recipe-pattern-filter-key", "");
+    }
+
+    public getRecipePatternFilterKey(): string | undefined {
+        return this.context.workspaceState.get('recipe-pattern-filter-key');
+    }
+
     public isPackageFiltered(): boolean {
         return this.context.workspaceState.get('package-filtered')!;
     }
@@ -109,7 +127,6 @@ export class SettingsPropertyManager {
             let selectedProfileObject: Object = Object.assign({}, profileConfigurationsObject[profileName as keyof typeof profileConfigurationsObject]);
 
             profileObject = general.plainObjectToClass(ConanProfileConfiguration, selectedProfileObject);
-            profileObject.escapeWhitespace();
         }
 
         if (profileObject) {
@@ -191,4 +208,14 @@ export class SettingsPropertyManager {
     public isUpdateDotEnv(): boolean | undefined {
         return vscode.workspace.getConfiguration("vsconan.conan").get("env.dotenv");
     }
+
+    /**
+     * Get the timeout for a conan process
+     * @returns Timeout in milliseconds, 0 if the timeout is disabled
+     */
+    public getConanProcessTimeout(): number {
+        let timeout: number | undefined = vscode.workspace.getConfiguration("vsconan.conan").get("process.timeout");
+
+        return (timeout ?? 0) * 1000;
+    }
 }
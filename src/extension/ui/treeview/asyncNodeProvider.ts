@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+
+/**
+ * Base class for treeview providers whose items are loaded by a conan process.
+ * The items are loaded in the background, while loading a placeholder item is shown in the treeview.
+ * A running load is cancelled as soon as the treeview is refreshed again.
+ */
+export abstract class AsyncNodeProvider<T extends vscode.TreeItem> implements vscode.TreeDataProvider<T | LoadingItem> {
+
+    protected _onDidChangeTreeData: vscode.EventEmitter<T | LoadingItem | undefined | void> = new vscode.EventEmitter<T | LoadingItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<T | LoadingItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    private childItems: Array<T> | undefined = undefined;
+    private loadingTokenSource: vscode.CancellationTokenSource | undefined = undefined;
+
+    /**
+     * Load the items of the treeview
+     * @param token Cancellation token to abort the running conan process
+     * @returns Promise with the list of the tree items
+     */
+    protected abstract loadChildren(token?: vscode.CancellationToken): Promise<Array<T>>;
+
+    public getTreeItem(element: T | LoadingItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: T | LoadingItem): Array<T | LoadingItem> | Thenable<Array<T | LoadingItem>> {
+        if (element) {
+            return [];
+        }
+
+        if (this.childItems) {
+            return this.childItems;
+        }
+
+        if (!this.loadingTokenSource) {
+            this.startLoading();
+        }
+
+        return [new LoadingItem()];
+    }
+
+    /**
+     * Get the labels of the current items. The items are loaded again to get the actual state of the conan cache.
+     * @returns Promise with the list of the item labels
+     */
+    public async getChildrenString(): Promise<string[]> {
+        let childStringList: Array<string> = [];
+
+        for (let child of await this.loadChildren()) {
+            childStringList.push(child.label as string);
+        }
+
+        return childStringList;
+    }
+
+    /**
+     * Get the items that are currently shown in the treeview
+     * @returns List of the loaded items, empty if the items are not loaded yet
+     */
+    public getLoadedChildren(): Array<T> {
+        return this.childItems ?? [];
+    }
+
+    /**
+     * Drop the loaded items, cancel the running load and notify the treeview to load the items again
+     */
+    protected reload(): void {
+        this.loadingTokenSource?.cancel();
+        this.loadingTokenSource?.dispose();
+        this.loadingTokenSource = undefined;
+        this.childItems = undefined;
+
+        this._onDidChangeTreeData.fire();
+    }
+
+    private startLoading(): void {
+        let tokenSource = new vscode.CancellationTokenSource();
+        this.loadingTokenSource = tokenSource;
+
+        this.loadChildren(tokenSource.token)
+            .catch((err) => {
+                if (!tokenSource.token.isCancellationRequested) {
+                    vscode.window.showErrorMessage((err as Error).message);
+                }
+
+                return [];
+            })
+            .then((items) => {
+                // A newer load has been started in the meantime, the result of this one is outdated
+                if (tokenSource.token.isCancellationRequested) {
+                    return;
+                }
+
+                this.childItems = items;
+                this.loadingTokenSource = undefined;
+                tokenSource.dispose();
+
+                this._onDidChangeTreeData.fire();
+            });
+    }
+}
+
+/**
+ * Placeholder item that is shown in a treeview as long as its items are being loaded
+ */
+export class LoadingItem extends vscode.TreeItem {
+
+    constructor() {
+        super("Loading...", vscode.TreeItemCollapsibleState.None);
+
+        this.iconPath = new vscode.ThemeIcon("loading~spin");
+    }
+
+    contextValue = 'loading';
+}
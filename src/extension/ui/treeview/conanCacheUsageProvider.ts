@@ -0,0 +1,118 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
+import { ConanCacheUsageCalculator } from '../../../conans/api/conanCacheUsageCalculator';
+import { CacheUsageKind, ConanCacheUsage } from '../../../conans/model/conanCacheUsage';
+import * as utils from '../../../utils/utils';
+import { AsyncNodeProvider, LoadingItem } from './asyncNodeProvider';
+
+export class ConanCacheUsageNodeProvider extends AsyncNodeProvider<ConanCacheUsageItem> {
+
+    private conanApiManager: ConanAPIManager;
+    private cacheUsageCalculator: ConanCacheUsageCalculator;
+    private totalSize: number = 0;
+
+    public constructor(conanApiManager: ConanAPIManager) {
+        super();
+
+        this.conanApiManager = conanApiManager;
+        this.cacheUsageCalculator = new ConanCacheUsageCalculator(conanApiManager);
+    }
+
+    public refresh(): void {
+        this.reload();
+    }
+
+    /**
+     * Get the disk size of the whole local cache from the last calculation
+     * @returns Size in bytes
+     */
+    public getTotalSize(): number {
+        return this.totalSize;
+    }
+
+    public override getChildren(element?: ConanCacheUsageItem | LoadingItem): Array<ConanCacheUsageItem | LoadingItem> | Thenable<Array<ConanCacheUsageItem | LoadingItem>> {
+        if (element instanceof ConanCacheUsageItem) {
+            return element.model.children.map(child => new ConanCacheUsageItem(child, this.totalSize));
+        }
+
+        return super.getChildren(element);
+    }
+
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanCacheUsageItem[]> {
+        let usageList: Array<ConanCacheUsage> = [];
+
+        this.totalSize = 0;
+
+        if (this.conanApiManager.conanApi) {
+            let recipeList = (await this.conanApiManager.conanApi.getRecipes(token)).filter(recipe => !recipe.editable);
+
+            for (let recipe of recipeList) {
+                if (token?.isCancellationRequested) {
+                    break;
+                }
+
+                let usage = await this.cacheUsageCalculator.calculateRecipeUsage(recipe, token);
+
+                usageList.push(usage);
+                this.totalSize += usage.size;
+            }
+        }
+
+        return this.sortBySize(usageList).map(usage => new ConanCacheUsageItem(usage, this.totalSize));
+    }
+
+    /**
+     * Sort the items and all their children by size, the largest item first
+     */
+    private sortBySize(usageList: Array<ConanCacheUsage>): Array<ConanCacheUsage> {
+        for (let usage of usageList) {
+            usage.children = this.sortBySize(usage.children);
+        }
+
+        return usageList.sort((a, b) => b.size - a.size);
+    }
+}
+
+export class ConanCacheUsageItem extends vscode.TreeItem {
+    public model: ConanCacheUsage;
+
+    /**
+     * @param model Disk usage of the item
+     * @param totalSize Disk size of the whole local cache, to show the share of this item
+     */
+    constructor(model: ConanCacheUsage, totalSize: number) {
+        super(model.label, model.children.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+
+        this.model = model;
+
+        let share = totalSize > 0 ? (this.model.size / totalSize * 100).toFixed(1) : "0.0";
+
+        this.description = `${utils.general.formatSize(this.model.size)} (${share}%)`;
+        this.tooltip = this.model.path ? `${this.model.recipe}\n${this.model.path}` : this.model.recipe;
+
+        let iconName: string;
+
+        switch (this.model.kind) {
+            case CacheUsageKind.recipe: {
+                iconName = 'recipe.png';
+                break;
+            }
+            case CacheUsageKind.package: {
+                iconName = 'package.png';
+                break;
+            }
+            default: {
+                iconName = 'package_revision.png';
+                break;
+            }
+        }
+
+        this.iconPath = {
+            light: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', iconName),
+            dark: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', iconName)
+        };
+
+        this.contextValue = 'cacheUsage';
+    }
+}
@@ -0,0 +1,99 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
+import { ConanDependencyGraph, ConanDependencyNode } from '../../../conans/model/conanDependencyGraph';
+import { AsyncNodeProvider, LoadingItem } from './asyncNodeProvider';
+
+export class ConanDependencyNodeProvider extends AsyncNodeProvider<ConanDependencyItem> {
+
+    private conanApiManager: ConanAPIManager;
+    private conanfilePath: string = "";
+    private profile: string = "";
+    private args: Array<string> = [];
+    private graph: ConanDependencyGraph = new ConanDependencyGraph();
+
+    public constructor(conanApi: ConanAPIManager) {
+        super();
+
+        this.conanApiManager = conanApi;
+    }
+
+    /**
+     * Resolve the dependency graph of a recipe again
+     * @param conanfilePath Path to the conanfile.py or conanfile.txt, the treeview will be emptied if this is empty
+     * @param profile Name of the profile to resolve the graph with
+     * @param args Additional arguments for the conan command
+     */
+    public refresh(conanfilePath: string = this.conanfilePath, profile: string = this.profile, args: Array<string> = this.args): void {
+        this.conanfilePath = conanfilePath;
+        this.profile = profile;
+        this.args = args;
+
+        this.reload();
+    }
+
+    public getGraph(): ConanDependencyGraph {
+        return this.graph;
+    }
+
+    public override getChildren(element?: ConanDependencyItem | LoadingItem): Array<ConanDependencyItem | LoadingItem> | Thenable<Array<ConanDependencyItem | LoadingItem>> {
+        if (element instanceof ConanDependencyItem) {
+            let requireItemList: Array<ConanDependencyItem> = [];
+
+            for (let node of this.graph.getRequires(element.model)) {
+                requireItemList.push(new ConanDependencyItem(node, this.graph.getRequires(node).length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None));
+            }
+
+            return requireItemList;
+        }
+
+        return super.getChildren(element);
+    }
+
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanDependencyItem[]> {
+        let dependencyItemList: Array<ConanDependencyItem> = [];
+
+        this.graph = new ConanDependencyGraph();
+
+        if (this.conanApiManager.conanApi && this.conanfilePath) {
+            this.graph = await this.conanApiManager.conanApi.getDependencyGraph(this.conanfilePath, this.profile, this.args, token);
+
+            let root = this.graph.getRoot();
+
+            if (root) {
+                dependencyItemList.push(new ConanDependencyItem(root, vscode.TreeItemCollapsibleState.Expanded));
+            }
+        }
+
+        return dependencyItemList;
+    }
+}
+
+export class ConanDependencyItem extends vscode.TreeItem {
+
+    constructor(
+        public model: ConanDependencyNode,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState) {
+
+        super(model.ref, collapsibleState);
+
+        this.model = model;
+
+        this.description = [this.model.binary, this.model.context].filter(value => value).join(" · ");
+
+        this.tooltip = [
+            this.model.ref,
+            `Revision: ${this.model.revision || "-"}`,
+            `Binary: ${this.model.binary || "-"}`,
+            `Context: ${this.model.context}`,
+            `Requires: ${this.model.requires.length}`
+        ].join("\n");
+
+        this.iconPath = {
+            light: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'recipe.png'),
+            dark: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'recipe.png')
+        };
+    }
+
+    contextValue = 'dependency';
+}
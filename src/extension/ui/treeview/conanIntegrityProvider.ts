@@ -0,0 +1,101 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConanIntegrityIssue } from '../../../conans/model/conanIntegrityIssue';
+import { AsyncNodeProvider } from './asyncNodeProvider';
+import { createReferenceUri, REFERENCE_URI_SCHEME } from './referenceUri';
+
+export class ConanIntegrityNodeProvider extends AsyncNodeProvider<ConanIntegrityItem> {
+
+    private issueList: Array<ConanIntegrityIssue> = [];
+
+    /**
+     * Show the result of an integrity check
+     * @param issueList Corrupted recipes and packages, the treeview will be emptied if this is empty
+     */
+    public refresh(issueList: Array<ConanIntegrityIssue>): void {
+        this.issueList = issueList;
+
+        this.reload();
+    }
+
+    /**
+     * Get the result of the last integrity check
+     * @returns List of corrupted recipes and packages
+     */
+    public getIssues(): Array<ConanIntegrityIssue> {
+        return this.issueList;
+    }
+
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanIntegrityItem[]> {
+        return this.issueList.map(issue => new ConanIntegrityItem(issue));
+    }
+}
+
+export class ConanIntegrityItem extends vscode.TreeItem {
+    public model: ConanIntegrityIssue;
+
+    constructor(model: ConanIntegrityIssue) {
+        super(model.getReference(), vscode.TreeItemCollapsibleState.None);
+
+        this.model = model;
+
+        this.description = this.model.message;
+        this.tooltip = `${this.model.getReference()}\n${this.model.message}`;
+        this.resourceUri = createReferenceUri(this.model.recipe, this.model.packageId);
+
+        let iconName = this.model.packageId ? 'package_dirty.png' : 'recipe.png';
+
+        this.iconPath = {
+            light: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', iconName),
+            dark: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', iconName)
+        };
+
+        this.contextValue = 'integrityIssue';
+    }
+}
+
+/**
+ * Decorate the recipes and packages of the treeviews that failed the last integrity check.
+ * A recipe is decorated as well, if one of its binary packages is corrupted.
+ */
+export class ConanIntegrityDecorationProvider implements vscode.FileDecorationProvider {
+
+    private _onDidChangeFileDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[] | undefined> = this._onDidChangeFileDecorations.event;
+
+    private issueList: Array<ConanIntegrityIssue> = [];
+
+    /**
+     * Update the decorations with the result of an integrity check
+     * @param issueList Corrupted recipes and packages
+     */
+    public refresh(issueList: Array<ConanIntegrityIssue>): void {
+        this.issueList = issueList;
+
+        this._onDidChangeFileDecorations.fire(undefined);
+    }
+
+    public provideFileDecoration(uri: vscode.Uri, token: vscode.CancellationToken): vscode.FileDecoration | undefined {
+        if (uri.scheme !== REFERENCE_URI_SCHEME) {
+            return undefined;
+        }
+
+        let [recipe, recipeRevision] = uri.path.substring(1).split("#");
+        let packageId = uri.fragment;
+
+        let matchingIssues = this.issueList.filter(issue =>
+            issue.recipe === recipe &&
+            (!recipeRevision || !issue.recipeRevision || issue.recipeRevision === recipeRevision) &&
+            (!packageId || issue.packageId === packageId));
+
+        if (matchingIssues.length === 0) {
+            return undefined;
+        }
+
+        return {
+            badge: "!",
+            tooltip: `Integrity check failed: ${matchingIssues.map(issue => issue.message).join(", ")}`,
+            color: new vscode.ThemeColor("list.errorForeground")
+        };
+    }
+}
@@ -4,11 +4,10 @@ import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
 import { ConanPackage } from '../../../conans/model/conanPackage';
 import { SettingsPropertyManager } from '../../settings/settingsPropertyManager';
 import { ConanAPI } from '../../../conans/api/base/conanAPI';
+import { AsyncNodeProvider } from './asyncNodeProvider';
+import { createReferenceUri } from './referenceUri';
 
-export class ConanPackageNodeProvider implements vscode.TreeDataProvider<ConanPackageItem> {
-
-    private _onDidChangeTreeData: vscode.EventEmitter<ConanPackageItem | undefined | void> = new vscode.EventEmitter<ConanPackageItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<ConanPackageItem | undefined | void> = this._onDidChangeTreeData.event;
+export class ConanPackageNodeProvider extends AsyncNodeProvider<ConanPackageItem> {
 
     private recipeName: string = "";
     private showDirtyPackage: boolean = false;
@@ -18,6 +17,8 @@ export class ConanPackageNodeProvider implements vscode.TreeDataProvider<ConanPa
     private selectedPackage: string | undefined = undefined;
 
     public constructor(conanApiManager: ConanAPIManager, settingsPropertyManager: SettingsPropertyManager) {
+        super();
+
         this.conanApiManager = conanApiManager;
         this.settingsPropertyManager = settingsPropertyManager;
     }
@@ -25,52 +26,41 @@ export class ConanPackageNodeProvider implements vscode.TreeDataProvider<ConanPa
     public refresh(recipeName: string, showDirtyPackage: boolean): void {
         this.recipeName = recipeName;
         this.showDirtyPackage = showDirtyPackage;
-        this._onDidChangeTreeData.fire();
-    }
-
-    public getTreeItem(element: ConanPackageItem): vscode.TreeItem {
-        return element;
+        this.reload();
     }
 
-    public getChildren(element?: ConanPackageItem): ConanPackageItem[] {
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanPackageItem[]> {
         let packageList: Array<ConanPackage> = [];
         let dirtyPackageList: Array<ConanPackage> = [];
         let packageItemList: Array<ConanPackageItem> = [];
 
         if (this.conanApiManager.conanApi) {
             if (this.settingsPropertyManager.isPackageFiltered()) {
-                packageList = this.conanApiManager.conanApi.getPackagesByRemote(this.recipeName, this.settingsPropertyManager.getPackageFilterKey()!);
+                packageList = await this.conanApiManager.conanApi.getPackagesByRemote(this.recipeName, this.settingsPropertyManager.getPackageFilterKey()!, token);
             }
             else {
-                packageList = this.conanApiManager.conanApi.getPackages(this.recipeName);
+                packageList = await this.conanApiManager.conanApi.getPackages(this.recipeName, token);
             }
 
             if (this.showDirtyPackage) {
-                dirtyPackageList = this.conanApiManager.conanApi.getDirtyPackage(this.recipeName);
+                dirtyPackageList = await this.conanApiManager.conanApi.getDirtyPackage(this.recipeName, token);
             }
 
+            // Dirty packages of Conan 2 are registered in the cache as well, they are only listed once as dirty package
+            packageList = packageList.filter(pkg => !dirtyPackageList.some(dirtyPkg => dirtyPkg.id === pkg.id));
+
             for (let pkg of packageList) {
-                packageItemList.push(new ConanPackageItem(pkg.id, vscode.TreeItemCollapsibleState.None, pkg));
+                packageItemList.push(new ConanPackageItem(pkg.id, vscode.TreeItemCollapsibleState.None, pkg, this.recipeName));
             }
 
             for (let pkg of dirtyPackageList) {
-                packageItemList.push(new ConanPackageItem(pkg.id, vscode.TreeItemCollapsibleState.None, pkg));
+                packageItemList.push(new ConanPackageItem(pkg.id, vscode.TreeItemCollapsibleState.None, pkg, this.recipeName));
             }
         }
         
         return packageItemList;
     }
 
-    public getChildrenString(): string[] {
-        let childStringList = [];
-
-        for (let child of this.getChildren()) {
-            childStringList.push(child.label);
-        }
-
-        return childStringList;
-    }
-
     public setSelectedPackage(packageId: string | undefined) {
         this.selectedPackage = packageId;
     }
@@ -83,15 +73,26 @@ export class ConanPackageNodeProvider implements vscode.TreeDataProvider<ConanPa
 export class ConanPackageItem extends vscode.TreeItem {
     public model: ConanPackage;
 
+    /**
+     * @param label Label of the item, the package ID
+     * @param collapsibleState Collapsible state of the item
+     * @param model Binary package
+     * @param recipe Recipe reference of the package, used to decorate the package if it is corrupted
+     */
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        model: ConanPackage) {
+        model: ConanPackage,
+        recipe: string = "") {
 
         super(label, collapsibleState);
 
         this.model = model;
 
+        if (recipe) {
+            this.resourceUri = createReferenceUri(recipe, this.model.id);
+        }
+
         this.command = {
             "title": "Conan Package Selected",
             "command": "vsconan.explorer.treeview.package.item.selected",
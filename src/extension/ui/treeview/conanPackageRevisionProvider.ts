@@ -3,11 +3,9 @@ import * as vscode from 'vscode';
 import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
 import { ConanPackageRevision } from '../../../conans/model/conanPackageRevision';
 import { SettingsPropertyManager } from '../../settings/settingsPropertyManager';
+import { AsyncNodeProvider } from './asyncNodeProvider';
 
-export class ConanPackageRevisionNodeProvider implements vscode.TreeDataProvider<ConanPackageRevisionItem> {
-
-    private _onDidChangeTreeData: vscode.EventEmitter<ConanPackageRevisionItem | undefined | void> = new vscode.EventEmitter<ConanPackageRevisionItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<ConanPackageRevisionItem | undefined | void> = this._onDidChangeTreeData.event;
+export class ConanPackageRevisionNodeProvider extends AsyncNodeProvider<ConanPackageRevisionItem> {
 
     private recipeName: string = "";
     private packageId: string = "";
@@ -16,6 +14,8 @@ export class ConanPackageRevisionNodeProvider implements vscode.TreeDataProvider
     private settingsPropertyManager: SettingsPropertyManager;
 
     public constructor(conanApiManager: ConanAPIManager, settingsPropertyManager: SettingsPropertyManager) {
+        super();
+
         this.conanApiManager = conanApiManager;
         this.settingsPropertyManager = settingsPropertyManager;
     }
@@ -24,21 +24,17 @@ export class ConanPackageRevisionNodeProvider implements vscode.TreeDataProvider
         this.recipeName = recipeName;
         this.packageId = packageId;
         this.showDirtyPackage = showDirtyPackage;
-        this._onDidChangeTreeData.fire();
+        this.reload();
     }
 
-    public getTreeItem(element: ConanPackageRevisionItem): vscode.TreeItem {
-        return element;
-    }
-
-    public getChildren(element?: ConanPackageRevisionItem): ConanPackageRevisionItem[] {
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanPackageRevisionItem[]> {
 
         let packageRevisionList: Array<ConanPackageRevision> = [];
         let dirtyPackageList: Array<ConanPackageRevision> = [];
         let packageRevisionItemList: Array<ConanPackageRevisionItem> = [];
 
         if (this.conanApiManager.conanApi) {
-            packageRevisionList = this.conanApiManager.conanApi.getPackageRevisions(this.recipeName, this.packageId);
+            packageRevisionList = await this.conanApiManager.conanApi.getPackageRevisions(this.recipeName, this.packageId, token);
 
             for (let pkgRevision of packageRevisionList) {
                 packageRevisionItemList.push(new ConanPackageRevisionItem(pkgRevision.id, vscode.TreeItemCollapsibleState.None, pkgRevision));
@@ -47,16 +43,6 @@ export class ConanPackageRevisionNodeProvider implements vscode.TreeDataProvider
 
         return packageRevisionItemList;
     }
-
-    public getChildrenString(): string[] {
-        let childStringList = [];
-
-        for (let child of this.getChildren()) {
-            childStringList.push(child.label);
-        }
-
-        return childStringList;
-    }
 }
 
 export class ConanPackageRevisionItem extends vscode.TreeItem {
@@ -1,32 +1,28 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
+import { AsyncNodeProvider } from './asyncNodeProvider';
 
-export class ConanProfileNodeProvider implements vscode.TreeDataProvider<ConanProfileItem> {
-
-    private _onDidChangeTreeData: vscode.EventEmitter<ConanProfileItem | undefined | void> = new vscode.EventEmitter<ConanProfileItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<ConanProfileItem | undefined | void> = this._onDidChangeTreeData.event;
+export class ConanProfileNodeProvider extends AsyncNodeProvider<ConanProfileItem> {
 
     private conanApiManager: ConanAPIManager;
 
     public constructor(conanApiManager: ConanAPIManager) {
+        super();
+
         this.conanApiManager = conanApiManager;
     }
 
     public refresh(): void {
-        this._onDidChangeTreeData.fire();
+        this.reload();
     }
 
-    public getTreeItem(element: ConanProfileItem): vscode.TreeItem {
-        return element;
-    }
-
-    public getChildren(element?: ConanProfileItem): ConanProfileItem[] {
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanProfileItem[]> {
         let profileList: string[] = [];
         let profileItemList: Array<ConanProfileItem> = [];
 
         if (this.conanApiManager.conanApi) {
-            profileList = this.conanApiManager.conanApi.getProfiles();
+            profileList = await this.conanApiManager.conanApi.getProfiles(token);
 
             for (let profile of profileList) {
                 profileItemList.push(new ConanProfileItem(profile, vscode.TreeItemCollapsibleState.None));
@@ -35,16 +31,6 @@ export class ConanProfileNodeProvider implements vscode.TreeDataProvider<ConanPr
 
         return profileItemList;
     }
-
-    public getChildrenString(): string[] {
-        let childStringList = [];
-
-        for (let child of this.getChildren()) {
-            childStringList.push(child.label);
-        }
-
-        return childStringList;
-    }
 }
 
 export class ConanProfileItem extends vscode.TreeItem {
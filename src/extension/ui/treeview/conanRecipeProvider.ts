@@ -2,13 +2,14 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
 import { ConanRecipe } from '../../../conans/model/conanRecipe';
+import { ConanRecipeRevision } from '../../../conans/model/conanRecipeRevision';
 import { SettingsPropertyManager } from '../../settings/settingsPropertyManager';
 import { ConanAPI } from '../../../conans/api/base/conanAPI';
+import * as utils from '../../../utils/utils';
+import { AsyncNodeProvider, LoadingItem } from './asyncNodeProvider';
+import { createReferenceUri } from './referenceUri';
 
-export class ConanRecipeNodeProvider implements vscode.TreeDataProvider<ConanRecipeItem> {
-
-    private _onDidChangeTreeData: vscode.EventEmitter<ConanRecipeItem | undefined | void> = new vscode.EventEmitter<ConanRecipeItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<ConanRecipeItem | undefined | void> = this._onDidChangeTreeData.event;
+export class ConanRecipeNodeProvider extends AsyncNodeProvider<ConanRecipeItem | ConanRecipeRevisionItem> {
 
     private selectedRecipe: string | undefined = undefined;
 
@@ -16,19 +17,26 @@ export class ConanRecipeNodeProvider implements vscode.TreeDataProvider<ConanRec
     private settingsPropertyManager: SettingsPropertyManager;
 
     public constructor(conanApiManager: ConanAPIManager, settingsPropertyManager: SettingsPropertyManager) {
+        super();
+
         this.conanApiManager = conanApiManager;
         this.settingsPropertyManager = settingsPropertyManager;
     }
 
     public refresh(): void {
-        this._onDidChangeTreeData.fire();
+        this.reload();
     }
 
-    public getTreeItem(element: ConanRecipeItem): vscode.TreeItem {
-        return element;
+    public override getChildren(element?: ConanRecipeItem | ConanRecipeRevisionItem | LoadingItem): Array<ConanRecipeItem | ConanRecipeRevisionItem | LoadingItem> | Thenable<Array<ConanRecipeItem | ConanRecipeRevisionItem | LoadingItem>> {
+        // The recipe revisions are already loaded together with the recipes
+        if (element instanceof ConanRecipeItem) {
+            return element.revisionItems;
+        }
+
+        return super.getChildren(element);
     }
 
-    public getChildren(element?: ConanRecipeItem): ConanRecipeItem[] {
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanRecipeItem[]> {
         let recipeList: Array<ConanRecipe> = [];
         let recipeEditableList: Array<ConanRecipe> = [];
         let recipeItemList: Array<ConanRecipeItem> = [];
@@ -41,11 +49,19 @@ export class ConanRecipeNodeProvider implements vscode.TreeDataProvider<ConanRec
             if (this.settingsPropertyManager.isRecipeFiltered()) {
                 let filterKey: string = this.settingsPropertyManager.getRecipeFilterKey()!;
 
-                recipeList = this.conanApiManager.conanApi.getRecipesByRemote(filterKey);
+                recipeList = await this.conanApiManager.conanApi.getRecipesByRemote(filterKey, token);
             }
             else {
-                recipeList = this.conanApiManager.conanApi.getRecipes();
-                recipeEditableList = this.conanApiManager.conanApi.getEditablePackageRecipes();
+                recipeList = await this.conanApiManager.conanApi.getRecipes(token);
+                recipeEditableList = await this.conanApiManager.conanApi.getEditablePackageRecipes(token);
+            }
+
+            // The pattern filter is applied on top of the remote filter
+            if (this.settingsPropertyManager.isRecipePatternFiltered()) {
+                let pattern: string = this.settingsPropertyManager.getRecipePatternFilterKey()!;
+
+                recipeList = recipeList.filter(recipe => utils.conan.matchReferenceFilter(recipe.name, pattern));
+                recipeEditableList = recipeEditableList.filter(recipe => utils.conan.matchReferenceFilter(recipe.name, pattern));
             }
 
             // Get the list of string from editable packages
@@ -60,7 +76,10 @@ export class ConanRecipeNodeProvider implements vscode.TreeDataProvider<ConanRec
                 // Basically even the package is editable, it will appear in the 'conan search' command
                 // We dont want to have double name in the item list in the treeview, so we need to check if the package is already included in the editable list 
                 if (!editableRecipeStringList.includes(recipe.name)) {
-                    recipeItemList.push(new ConanRecipeItem(recipe.name, vscode.TreeItemCollapsibleState.None, recipe));
+                    // Recipes from Conan 2 are expanded to their recipe revisions
+                    let collapsibleState = recipe.revisions.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+
+                    recipeItemList.push(new ConanRecipeItem(recipe.name, collapsibleState, recipe));
                 }
             }
         }
@@ -68,14 +87,22 @@ export class ConanRecipeNodeProvider implements vscode.TreeDataProvider<ConanRec
         return recipeItemList;
     }
 
-    public getChildrenString(): string[] {
-        let childStringList = [];
-
-        for (let child of this.getChildren()) {
-            childStringList.push(child.label);
-        }
+    public getParent(element: ConanRecipeItem | ConanRecipeRevisionItem): ConanRecipeItem | undefined {
+        // This is only needed to reveal a recipe or a recipe revision in the treeview
+        return element instanceof ConanRecipeRevisionItem ? element.recipeItem : undefined;
+    }
 
-        return childStringList;
+    /**
+     * Find a loaded recipe item by its reference
+     * @param ref Reference of the recipe without revision, e.g. 'zlib/1.2.13'
+     * @param revision Recipe revision, the revision item is returned if the recipe has this revision in the treeview
+     * @returns Recipe item, recipe revision item or undefined if the recipe is not shown in the treeview
+     */
+    public getRecipeItem(ref: string, revision: string = ""): ConanRecipeItem | ConanRecipeRevisionItem | undefined {
+        let recipeItem = this.getLoadedChildren()
+            .find(item => item instanceof ConanRecipeItem && item.label === ref) as ConanRecipeItem | undefined;
+
+        return recipeItem?.revisionItems.find(item => revision && item.model.id === revision) ?? recipeItem;
     }
 
     public setSelectedRecipe(recipe: string | undefined) {
@@ -89,6 +116,7 @@ export class ConanRecipeNodeProvider implements vscode.TreeDataProvider<ConanRec
 
 export class ConanRecipeItem extends vscode.TreeItem {
     public model: ConanRecipe;
+    public revisionItems: Array<ConanRecipeRevisionItem>;
 
     constructor(
         public readonly label: string,
@@ -98,6 +126,7 @@ export class ConanRecipeItem extends vscode.TreeItem {
         super(label, collapsibleState);
 
         this.model = model;
+        this.revisionItems = model.revisions.map(revision => new ConanRecipeRevisionItem(this, revision));
 
         this.tooltip = `${this.label}`;
 
@@ -121,6 +150,7 @@ export class ConanRecipeItem extends vscode.TreeItem {
             };
 
             this.contextValue = 'recipe';
+            this.resourceUri = createReferenceUri(this.label);
         }
     }
 
@@ -128,3 +158,40 @@ export class ConanRecipeItem extends vscode.TreeItem {
         return this.model.editable;
     }
 }
+
+export class ConanRecipeRevisionItem extends vscode.TreeItem {
+    public model: ConanRecipeRevision;
+    /** Recipe item that contains this revision */
+    public recipeItem: ConanRecipeItem;
+
+    constructor(recipeItem: ConanRecipeItem, model: ConanRecipeRevision) {
+        super(model.id, vscode.TreeItemCollapsibleState.None);
+
+        this.recipeItem = recipeItem;
+        this.model = model;
+
+        this.description = this.model.datetime;
+        this.tooltip = JSON.stringify(this.model, null, 4);
+
+        this.command = {
+            "title": "Conan Recipe Revision Selected",
+            "command": "vsconan.explorer.treeview.recipe.item.selected",
+        };
+
+        this.iconPath = {
+            light: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'package_revision.png'),
+            dark: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'package_revision.png')
+        };
+
+        this.contextValue = 'recipeRevision';
+        this.resourceUri = createReferenceUri(this.getReference());
+    }
+
+    /**
+     * Get the full reference of the recipe revision
+     * @returns Recipe reference with revision, e.g. 'zlib/1.3#revision'
+     */
+    public getReference(): string {
+        return `${this.recipeItem.label}#${this.model.id}`;
+    }
+}
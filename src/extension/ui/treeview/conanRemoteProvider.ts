@@ -2,50 +2,50 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
 import { ConanRemote } from '../../../conans/model/conanRemote';
+import { ConanRemoteUser } from '../../../conans/model/conanRemoteUser';
+import { AsyncNodeProvider } from './asyncNodeProvider';
 
-export class ConanRemoteNodeProvider implements vscode.TreeDataProvider<ConanRemoteItem> {
-
-    private _onDidChangeTreeData: vscode.EventEmitter<ConanRemoteItem | undefined | void> = new vscode.EventEmitter<ConanRemoteItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<ConanRemoteItem | undefined | void> = this._onDidChangeTreeData.event;
+export class ConanRemoteNodeProvider extends AsyncNodeProvider<ConanRemoteItem> {
 
     private conanApiManager: ConanAPIManager;
 
     public constructor(conanApi: ConanAPIManager) {
+        super();
+
         this.conanApiManager = conanApi;
     }
 
     public refresh(): void {
-        this._onDidChangeTreeData.fire();
+        this.reload();
     }
 
-    public getTreeItem(element: ConanRemoteItem): vscode.TreeItem {
-        return element;
-    }
-
-    public getChildren(element?: ConanRemoteItem): ConanRemoteItem[] {
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanRemoteItem[]> {
         let remoteList: Array<ConanRemote> = [];
         let remoteItemList: Array<ConanRemoteItem> = [];
 
         if (this.conanApiManager.conanApi) {
-            remoteList = this.conanApiManager.conanApi.getRemotes();
+            remoteList = await this.conanApiManager.conanApi.getRemotes(token);
+
+            let remoteUserList: Array<ConanRemoteUser> = [];
+
+            // The remotes are still shown, even if the authentication status cannot be determined
+            try {
+                remoteUserList = await this.conanApiManager.conanApi.getRemoteUsers(token);
+            }
+            catch (err) {
+                console.log((err as Error).message);
+            }
 
             for (let remote of remoteList) {
-                remoteItemList.push(new ConanRemoteItem(remote.name, vscode.TreeItemCollapsibleState.None, remote));
+                let remoteItem = new ConanRemoteItem(remote.name, vscode.TreeItemCollapsibleState.None, remote);
+                remoteItem.setRemoteUser(remoteUserList.find(remoteUser => remoteUser.remote === remote.name));
+
+                remoteItemList.push(remoteItem);
             }
         }
         
         return remoteItemList;
     }
-
-    public getChildrenString(): string[] {
-        let childStringList = [];
-
-        for (let child of this.getChildren()) {
-            childStringList.push(child.label);
-        }
-
-        return childStringList;
-    }
 }
 
 export class ConanRemoteItem extends vscode.TreeItem {
@@ -69,6 +69,22 @@ export class ConanRemoteItem extends vscode.TreeItem {
         this.setRemoteEnableIcon(this.model.enabled);
     }
 
+    /**
+     * Show the user of the remote and whether the user is authenticated
+     * @param remoteUser User of the remote, undefined if the status is unknown
+     */
+    public setRemoteUser(remoteUser: ConanRemoteUser | undefined) {
+        if (remoteUser?.authenticated) {
+            this.description = `${remoteUser.user} (authenticated)`;
+        }
+        else if (remoteUser?.user) {
+            this.description = `${remoteUser.user} (not authenticated)`;
+        }
+        else {
+            this.description = undefined;
+        }
+    }
+
     public setRemoteEnableIcon(state: boolean) {
         if (state) { // Remote is enabled
             this.iconPath = {
@@ -0,0 +1,144 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConanAPIManager } from '../../../conans/api/conanAPIManager';
+import { ConanRecipe } from '../../../conans/model/conanRecipe';
+import { ConanRecipeRevision } from '../../../conans/model/conanRecipeRevision';
+import { AsyncNodeProvider, LoadingItem } from './asyncNodeProvider';
+
+export class ConanRemoteSearchNodeProvider extends AsyncNodeProvider<ConanRemoteSearchItem> {
+
+    private conanApiManager: ConanAPIManager;
+    private pattern: string = "";
+    private remote: string = "";
+
+    public constructor(conanApi: ConanAPIManager) {
+        super();
+
+        this.conanApiManager = conanApi;
+    }
+
+    /**
+     * Search recipes on a remote
+     * @param pattern Search pattern of the recipe reference, the treeview will be emptied if this is empty
+     * @param remote Remote name to search on
+     */
+    public refresh(pattern: string = this.pattern, remote: string = this.remote): void {
+        this.pattern = pattern;
+        this.remote = remote;
+
+        this.reload();
+    }
+
+    public override getChildren(element?: ConanRemoteSearchItem | LoadingItem): Array<ConanRemoteSearchItem | LoadingItem> | Thenable<Array<ConanRemoteSearchItem | LoadingItem>> {
+        if (element instanceof ConanRemoteSearchRecipeItem) {
+            return this.loadRevisions(element);
+        }
+
+        return super.getChildren(element);
+    }
+
+    protected async loadChildren(token?: vscode.CancellationToken): Promise<ConanRemoteSearchItem[]> {
+        let recipeItemList: Array<ConanRemoteSearchItem> = [];
+
+        if (this.conanApiManager.conanApi && this.pattern && this.remote) {
+            let recipeList: Array<ConanRecipe> = await this.conanApiManager.conanApi.searchRemote(this.pattern, this.remote, token);
+
+            for (let recipe of recipeList) {
+                recipeItemList.push(new ConanRemoteSearchRecipeItem(recipe, this.remote));
+            }
+        }
+
+        return recipeItemList;
+    }
+
+    /**
+     * Load the revisions of a recipe on the remote as soon as the recipe is expanded
+     * @param element Recipe item of the search result
+     * @returns List of revision items
+     */
+    private async loadRevisions(element: ConanRemoteSearchRecipeItem): Promise<Array<ConanRemoteSearchItem>> {
+        let revisionItemList: Array<ConanRemoteSearchItem> = [];
+
+        try {
+            let revisionList = await this.conanApiManager.conanApi.getRemoteRecipeRevisions(element.model.name, element.remote);
+
+            for (let revision of revisionList) {
+                revisionItemList.push(new ConanRemoteSearchRevisionItem(element.model.name, revision, element.remote));
+            }
+        }
+        catch (err) {
+            vscode.window.showErrorMessage((err as Error).message);
+        }
+
+        return revisionItemList;
+    }
+}
+
+/**
+ * Item of the remote search result, that can be downloaded into the local cache
+ */
+export abstract class ConanRemoteSearchItem extends vscode.TreeItem {
+    /** Remote where the item is found */
+    public remote: string;
+
+    constructor(label: string, collapsibleState: vscode.TreeItemCollapsibleState, remote: string) {
+        super(label, collapsibleState);
+
+        this.remote = remote;
+    }
+
+    /**
+     * Get the reference to download the item from the remote
+     * @returns Recipe reference, with revision if the item is a revision
+     */
+    public abstract getReference(): string;
+}
+
+export class ConanRemoteSearchRecipeItem extends ConanRemoteSearchItem {
+    public model: ConanRecipe;
+
+    constructor(model: ConanRecipe, remote: string) {
+        super(model.name, vscode.TreeItemCollapsibleState.Collapsed, remote);
+
+        this.model = model;
+
+        this.tooltip = `${this.model.name} (Remote: ${remote})`;
+
+        this.iconPath = {
+            light: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'recipe.png'),
+            dark: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'recipe.png')
+        };
+
+        this.contextValue = 'remoteSearchRecipe';
+    }
+
+    public getReference(): string {
+        return this.model.name;
+    }
+}
+
+export class ConanRemoteSearchRevisionItem extends ConanRemoteSearchItem {
+    public recipe: string;
+    public model: ConanRecipeRevision;
+
+    constructor(recipe: string, model: ConanRecipeRevision, remote: string) {
+        super(model.id, vscode.TreeItemCollapsibleState.None, remote);
+
+        this.recipe = recipe;
+        this.model = model;
+
+        this.description = this.model.datetime;
+        this.tooltip = JSON.stringify(this.model, null, 4);
+
+        this.iconPath = {
+            light: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'package_revision.png'),
+            dark: path.join(__filename, '..', '..', '..', '..', '..', '..', 'resources', 'icon', 'package_revision.png')
+        };
+
+        this.contextValue = 'remoteSearchRevision';
+    }
+
+    public getReference(): string {
+        return `${this.recipe}#${this.model.id}`;
+    }
+}
@@ -0,0 +1,16 @@
+import * as vscode from 'vscode';
+
+/**
+ * URI scheme of the tree items that represent a reference of the local cache, used to decorate them
+ */
+export const REFERENCE_URI_SCHEME: string = "vsconan-reference";
+
+/**
+ * Create the resource URI of a tree item that represents a reference of the local cache
+ * @param recipe Recipe reference, optionally with recipe revision, e.g. 'zlib/1.3' or 'zlib/1.3#revision'
+ * @param packageId Binary package ID, empty string if the item is a recipe
+ * @returns Resource URI that identifies the reference
+ */
+export function createReferenceUri(recipe: string, packageId: string = ""): vscode.Uri {
+    return vscode.Uri.from({ scheme: REFERENCE_URI_SCHEME, path: `/${recipe}`, fragment: packageId });
+}
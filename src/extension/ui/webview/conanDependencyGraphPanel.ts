@@ -0,0 +1,563 @@
+import * as vscode from 'vscode';
+import { ConanDependencyGraph, ConanDependencyNode } from '../../../conans/model/conanDependencyGraph';
+
+/**
+ * Fill colors of the graph nodes for each binary status of conan
+ */
+export const BINARY_STATUS_COLORS: Map<string, string> = new Map<string, string>([
+    ["Cache", "#388a34"],
+    ["Download", "#1a85ff"],
+    ["Update", "#1a85ff"],
+    ["Build", "#d18616"],
+    ["Missing", "#e51400"],
+    ["Invalid", "#e51400"],
+    ["Editable", "#8f5bd9"]
+]);
+
+/**
+ * Fill color of the nodes with unknown binary status, e.g. the consumer of the graph
+ */
+export const DEFAULT_NODE_COLOR: string = "#6c6c6c";
+
+const NODE_HEIGHT: number = 36;
+const NODE_MIN_WIDTH: number = 120;
+const NODE_GAP_X: number = 24;
+const NODE_GAP_Y: number = 64;
+
+/**
+ * Node of the dependency graph with its position in the diagram
+ */
+export interface DependencyGraphLayoutNode {
+    id: string;
+    ref: string;
+    revision: string;
+    binary: string;
+    context: string;
+    /** The package is required in more than one version within the same context */
+    conflict: boolean;
+    x: number;
+    y: number;
+    width: number;
+}
+
+/**
+ * Positions of the nodes and edges of the dependency graph
+ */
+export interface DependencyGraphLayout {
+    nodes: Array<DependencyGraphLayoutNode>;
+    edges: Array<{ from: string, to: string }>;
+}
+
+/**
+ * Get the fill color of a node based on its binary status
+ * @param binary Binary status of the package
+ * @returns Color in hex format
+ */
+export function getBinaryStatusColor(binary: string): string {
+    return BINARY_STATUS_COLORS.get(binary) ?? DEFAULT_NODE_COLOR;
+}
+
+/**
+ * Find the nodes whose package is part of the graph in more than one reference within the same context.
+ * Such a package is the result of a version conflict or an override in the graph.
+ * @param graph Dependency graph
+ * @returns Set of node IDs
+ */
+export function findConflictingNodes(graph: ConanDependencyGraph): Set<string> {
+    let referencesByName = new Map<string, Set<string>>();
+
+    for (let node of graph.nodes.values()) {
+        let key = `${node.context}:${node.ref.split("/")[0]}`;
+        referencesByName.set(key, (referencesByName.get(key) ?? new Set<string>()).add(node.ref));
+    }
+
+    let conflictingNodes = new Set<string>();
+
+    for (let node of graph.nodes.values()) {
+        if (node.id !== graph.rootId && referencesByName.get(`${node.context}:${node.ref.split("/")[0]}`)!.size > 1) {
+            conflictingNodes.add(node.id);
+        }
+    }
+
+    return conflictingNodes;
+}
+
+/**
+ * Arrange the nodes of the graph in layers from top to bottom.
+ * Every node is placed one layer below its deepest dependant, so shared requirements (diamonds) appear only once.
+ * @param graph Dependency graph
+ * @returns Positions of the nodes and the edges between them
+ */
+export function layoutDependencyGraph(graph: ConanDependencyGraph): DependencyGraphLayout {
+    let order: Array<string> = [];
+    let visited = new Set<string>();
+    let path = new Set<string>();
+    let skippedEdges = new Set<string>();
+
+    // Depth first search to sort the nodes topologically, edges back into the current path are ignored to be safe against cycles
+    let visit = (node: ConanDependencyNode) => {
+        visited.add(node.id);
+        path.add(node.id);
+
+        for (let requireNode of graph.getRequires(node)) {
+            if (path.has(requireNode.id)) {
+                skippedEdges.add(`${node.id}:${requireNode.id}`);
+            }
+            else if (!visited.has(requireNode.id)) {
+                visit(requireNode);
+            }
+        }
+
+        path.delete(node.id);
+        order.unshift(node.id);
+    };
+
+    let root = graph.getRoot();
+
+    if (root) {
+        visit(root);
+    }
+
+    let levels = new Map<string, number>();
+
+    for (let id of order) {
+        let node = graph.nodes.get(id)!;
+        let level = levels.get(id) ?? 0;
+
+        levels.set(id, level);
+
+        for (let requireNode of graph.getRequires(node)) {
+            if (!skippedEdges.has(`${node.id}:${requireNode.id}`)) {
+                levels.set(requireNode.id, Math.max(levels.get(requireNode.id) ?? 0, level + 1));
+            }
+        }
+    }
+
+    // Nodes that are not reachable from the root are placed in the first layer
+    for (let node of graph.nodes.values()) {
+        if (!levels.has(node.id)) {
+            order.push(node.id);
+            levels.set(node.id, root ? 1 : 0);
+        }
+    }
+
+    let conflictingNodes = findConflictingNodes(graph);
+    let layers: Array<Array<DependencyGraphLayoutNode>> = [];
+
+    for (let id of order) {
+        let node = graph.nodes.get(id)!;
+        let level = levels.get(id)!;
+
+        layers[level] = layers[level] ?? [];
+        layers[level].push({
+            id: node.id,
+            ref: node.ref,
+            revision: node.revision,
+            binary: node.binary,
+            context: node.context,
+            conflict: conflictingNodes.has(node.id),
+            x: 0,
+            y: level * (NODE_HEIGHT + NODE_GAP_Y),
+            width: Math.max(NODE_MIN_WIDTH, node.ref.length * 7 + 24)
+        });
+    }
+
+    let layoutNodes: Array<DependencyGraphLayoutNode> = [];
+
+    for (let layer of layers.filter(layer => layer)) {
+        // Center every layer horizontally
+        let layerWidth = layer.reduce((width, node) => width + node.width, 0) + (layer.length - 1) * NODE_GAP_X;
+        let x = -layerWidth / 2;
+
+        for (let node of layer) {
+            node.x = x;
+            x += node.width + NODE_GAP_X;
+        }
+
+        layoutNodes.push(...layer);
+    }
+
+    let edges: Array<{ from: string, to: string }> = [];
+
+    for (let node of graph.nodes.values()) {
+        for (let requireNode of graph.getRequires(node)) {
+            edges.push({ from: node.id, to: requireNode.id });
+        }
+    }
+
+    return { nodes: layoutNodes, edges: edges };
+}
+
+/**
+ * Create a description of the graph in the DOT language of Graphviz
+ * @param graph Dependency graph
+ * @returns Graph in DOT format
+ */
+export function createDotGraph(graph: ConanDependencyGraph): string {
+    let escape = (text: string) => text.replace(/(["\\])/g, "\\$1");
+    let conflictingNodes = findConflictingNodes(graph);
+
+    let lines: Array<string> = [
+        "digraph \"conan\" {",
+        "    node [shape=box, style=\"rounded,filled\", fontcolor=white, fontname=\"Helvetica\"];"
+    ];
+
+    for (let node of graph.nodes.values()) {
+        let label = node.binary ? `${escape(node.ref)}\\n${escape(node.binary)}` : escape(node.ref);
+        let style = node.context === "build" ? "rounded,filled,dashed" : "rounded,filled";
+        let border = conflictingNodes.has(node.id) ? ", color=\"#ff0000\", penwidth=3" : "";
+
+        lines.push(`    "${escape(node.id)}" [label="${label}", fillcolor="${getBinaryStatusColor(node.binary)}", style="${style}"${border}];`);
+    }
+
+    for (let node of graph.nodes.values()) {
+        for (let requireNode of graph.getRequires(node)) {
+            lines.push(`    "${escape(node.id)}" -> "${escape(requireNode.id)}";`);
+        }
+    }
+
+    lines.push("}");
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Create the HTML page of the interactive dependency graph
+ * The same page is used for the webview and for the export, the actions that need the extension are only available in the webview.
+ * @param title Title of the page
+ * @param graph Dependency graph
+ * @param webview Webview to show the page in, undefined to create a standalone page
+ * @returns HTML page
+ */
+export function createGraphHtml(title: string, graph: ConanDependencyGraph, webview?: vscode.Webview): string {
+    let nonce = createNonce();
+    let escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+    // The layout is embedded as script data, '<' is escaped so that a reference can not close the script tag
+    let layoutJson = JSON.stringify(layoutDependencyGraph(graph)).replace(/</g, "\\u003c");
+    let colors: { [binary: string]: string } = {};
+    BINARY_STATUS_COLORS.forEach((color, binary) => colors[binary] = color);
+    let colorsJson = JSON.stringify(colors);
+
+    let contentSecurityPolicy = webview ?
+        `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">` : "";
+
+    let legend = ["Cache", "Download", "Build", "Missing", "Editable"]
+        .map(binary => `<span class="legend-item"><span class="swatch" style="background:${getBinaryStatusColor(binary)}"></span>${binary}</span>`)
+        .join("");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    ${contentSecurityPolicy}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        html, body { height: 100%; margin: 0; overflow: hidden; }
+        body { display: flex; flex-direction: column; font-family: var(--vscode-font-family, sans-serif); font-size: 13px;
+            color: var(--vscode-foreground, #cccccc); background: var(--vscode-editor-background, #1e1e1e); }
+        .toolbar { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; padding: 6px 10px; border-bottom: 1px solid var(--vscode-panel-border, #444444); }
+        .toolbar button { color: var(--vscode-button-foreground, #ffffff); background: var(--vscode-button-background, #0e639c); border: none; padding: 4px 10px; cursor: pointer; }
+        .toolbar button:hover { background: var(--vscode-button-hoverBackground, #1177bb); }
+        .legend-item { display: inline-flex; align-items: center; gap: 4px; margin-right: 8px; }
+        .swatch { display: inline-block; width: 12px; height: 12px; border-radius: 2px; }
+        .swatch.build { background: transparent; border: 2px dashed currentColor; width: 8px; height: 8px; }
+        .swatch.conflict { background: transparent; border: 2px solid #ff0000; width: 8px; height: 8px; }
+        svg { flex: 1; cursor: grab; }
+        svg.panning { cursor: grabbing; }
+        .edge { fill: none; stroke: var(--vscode-foreground, #cccccc); stroke-opacity: 0.5; }
+        .node { cursor: pointer; }
+        .node rect { stroke: var(--vscode-foreground, #cccccc); stroke-width: 1; }
+        .node.build rect { stroke-dasharray: 5 3; stroke-width: 2; }
+        .node.conflict rect { stroke: #ff0000; stroke-width: 3; }
+        .node text { fill: #ffffff; font-size: 12px; pointer-events: none; }
+        .dimmed { opacity: 0.2; }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <label>Highlight
+            <select id="highlight">
+                <option value="">All</option>
+                <option value="host">Host context</option>
+                <option value="build">Build context</option>
+                <option value="conflict">Multiple versions</option>
+            </select>
+        </label>
+        <button id="fit">Fit</button>
+        <button id="export-html" class="extension-only">Export HTML</button>
+        <button id="export-dot" class="extension-only">Export DOT</button>
+        <span>${legend}<span class="legend-item"><span class="swatch build"></span>Build context</span><span class="legend-item"><span class="swatch conflict"></span>Multiple versions</span></span>
+    </div>
+    <svg id="graph" xmlns="http://www.w3.org/2000/svg">
+        <defs>
+            <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" fill-opacity="0.5"></path>
+            </marker>
+        </defs>
+        <g id="viewport"></g>
+    </svg>
+    <script nonce="${nonce}">
+        (function () {
+            const layout = ${layoutJson};
+            const colors = ${colorsJson};
+            const nodeHeight = ${NODE_HEIGHT};
+            const vscode = typeof acquireVsCodeApi === "function" ? acquireVsCodeApi() : undefined;
+
+            const svgNamespace = "http://www.w3.org/2000/svg";
+            const svg = document.getElementById("graph");
+            const viewport = document.getElementById("viewport");
+            const nodesById = new Map(layout.nodes.map(node => [node.id, node]));
+
+            let scale = 1;
+            let translateX = 0;
+            let translateY = 0;
+
+            function createElement(name, attributes) {
+                const element = document.createElementNS(svgNamespace, name);
+                for (const key in attributes) {
+                    element.setAttribute(key, attributes[key]);
+                }
+                return element;
+            }
+
+            function applyTransform() {
+                viewport.setAttribute("transform", "translate(" + translateX + "," + translateY + ") scale(" + scale + ")");
+            }
+
+            for (const edge of layout.edges) {
+                const from = nodesById.get(edge.from);
+                const to = nodesById.get(edge.to);
+                const x1 = from.x + from.width / 2;
+                const y1 = from.y + nodeHeight;
+                const x2 = to.x + to.width / 2;
+                const y2 = to.y;
+                const middle = (y1 + y2) / 2;
+
+                viewport.appendChild(createElement("path", {
+                    "class": "edge",
+                    "d": "M " + x1 + " " + y1 + " C " + x1 + " " + middle + ", " + x2 + " " + middle + ", " + x2 + " " + y2,
+                    "marker-end": "url(#arrow)",
+                    "data-from": edge.from,
+                    "data-to": edge.to
+                }));
+            }
+
+            for (const node of layout.nodes) {
+                const group = createElement("g", {
+                    "class": "node " + node.context + (node.conflict ? " conflict" : ""),
+                    "transform": "translate(" + node.x + "," + node.y + ")",
+                    "data-id": node.id
+                });
+
+                group.appendChild(createElement("rect", { "width": node.width, "height": nodeHeight, "rx": 6, "fill": colors[node.binary] || "${DEFAULT_NODE_COLOR}" }));
+
+                const text = createElement("text", { "x": node.width / 2, "y": nodeHeight / 2 + 4, "text-anchor": "middle" });
+                text.textContent = node.ref;
+                group.appendChild(text);
+
+                const tooltip = createElement("title", {});
+                tooltip.textContent = [node.ref, "Revision: " + (node.revision || "-"), "Binary: " + (node.binary || "-"), "Context: " + node.context].join("\\n");
+                group.appendChild(tooltip);
+
+                group.addEventListener("click", () => {
+                    if (vscode) {
+                        vscode.postMessage({ command: "reveal", ref: node.ref, revision: node.revision });
+                    }
+                });
+
+                viewport.appendChild(group);
+            }
+
+            function fit() {
+                const box = viewport.getBBox();
+                const bounds = svg.getBoundingClientRect();
+
+                if (box.width === 0 || box.height === 0) {
+                    return;
+                }
+
+                scale = Math.min(1.5, Math.min((bounds.width - 40) / box.width, (bounds.height - 40) / box.height));
+                translateX = (bounds.width - box.width * scale) / 2 - box.x * scale;
+                translateY = (bounds.height - box.height * scale) / 2 - box.y * scale;
+                applyTransform();
+            }
+
+            svg.addEventListener("wheel", (event) => {
+                event.preventDefault();
+
+                // Zoom around the position of the cursor
+                const bounds = svg.getBoundingClientRect();
+                const cursorX = event.clientX - bounds.left;
+                const cursorY = event.clientY - bounds.top;
+                const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+
+                translateX = cursorX - (cursorX - translateX) * factor;
+                translateY = cursorY - (cursorY - translateY) * factor;
+                scale *= factor;
+                applyTransform();
+            }, { passive: false });
+
+            let panStart = undefined;
+
+            svg.addEventListener("mousedown", (event) => {
+                panStart = { x: event.clientX - translateX, y: event.clientY - translateY };
+                svg.classList.add("panning");
+            });
+
+            window.addEventListener("mousemove", (event) => {
+                if (panStart) {
+                    translateX = event.clientX - panStart.x;
+                    translateY = event.clientY - panStart.y;
+                    applyTransform();
+                }
+            });
+
+            window.addEventListener("mouseup", () => {
+                panStart = undefined;
+                svg.classList.remove("panning");
+            });
+
+            document.getElementById("highlight").addEventListener("change", (event) => {
+                const highlight = event.target.value;
+
+                for (const element of viewport.querySelectorAll(".node")) {
+                    const node = nodesById.get(element.getAttribute("data-id"));
+                    const highlighted = !highlight || (highlight === "conflict" ? node.conflict : node.context === highlight);
+                    element.classList.toggle("dimmed", !highlighted);
+                }
+
+                for (const element of viewport.querySelectorAll(".edge")) {
+                    element.classList.toggle("dimmed", !!highlight);
+                }
+            });
+
+            document.getElementById("fit").addEventListener("click", fit);
+
+            if (vscode) {
+                document.getElementById("export-html").addEventListener("click", () => vscode.postMessage({ command: "exportHtml" }));
+                document.getElementById("export-dot").addEventListener("click", () => vscode.postMessage({ command: "exportDot" }));
+            }
+            else {
+                for (const element of document.querySelectorAll(".extension-only")) {
+                    element.style.display = "none";
+                }
+            }
+
+            window.addEventListener("resize", fit);
+            fit();
+        })();
+    </script>
+</body>
+</html>`;
+}
+
+function createNonce(): string {
+    let characters = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+    let nonce = "";
+
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+    }
+
+    return nonce;
+}
+
+/**
+ * Webview panel that shows a dependency graph as an interactive node-link diagram
+ */
+export class ConanDependencyGraphPanel {
+
+    private panel: vscode.WebviewPanel;
+    private title: string;
+    private graph: ConanDependencyGraph;
+
+    /**
+     * Create the webview panel of the dependency graph
+     * @param title Title of the panel
+     * @param graph Dependency graph to be shown
+     * @param onDispose Callback that is called once the panel is closed
+     */
+    public constructor(title: string, graph: ConanDependencyGraph, onDispose: () => void) {
+        this.title = title;
+        this.graph = graph;
+
+        this.panel = vscode.window.createWebviewPanel(
+            "vsconan.dependencyGraph",
+            title,
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.onDidDispose(onDispose);
+        this.panel.webview.onDidReceiveMessage((message) => this.onMessage(message));
+
+        this.render();
+    }
+
+    /**
+     * Show another graph in the existing panel and bring the panel to the front
+     * @param title Title of the panel
+     * @param graph Dependency graph to be shown
+     */
+    public update(title: string, graph: ConanDependencyGraph) {
+        this.title = title;
+        this.graph = graph;
+
+        this.panel.title = title;
+        this.render();
+        this.panel.reveal();
+    }
+
+    public dispose() {
+        this.panel.dispose();
+    }
+
+    private render() {
+        this.panel.webview.html = createGraphHtml(this.title, this.graph, this.panel.webview);
+    }
+
+    private async onMessage(message: { command: string, ref?: string, revision?: string }) {
+        switch (message.command) {
+            case "reveal": {
+                vscode.commands.executeCommand("vsconan.explorer.treeview.recipe.reveal", message.ref, message.revision);
+                break;
+            }
+            case "exportHtml": {
+                await this.exportFile("HTML", ["html"], createGraphHtml(this.title, this.graph));
+                break;
+            }
+            case "exportDot": {
+                await this.exportFile("Graphviz DOT", ["dot", "gv"], createDotGraph(this.graph));
+                break;
+            }
+        }
+    }
+
+    /**
+     * Ask the user for a file and write the exported graph into it
+     * @param fileType Name of the file type in the save dialog
+     * @param extensions File extensions of the file type, the first one is used as default
+     * @param content Content of the file
+     */
+    private async exportFile(fileType: string, extensions: Array<string>, content: string) {
+        let workspaceFolder = vscode.workspace.workspaceFolders?.[0].uri;
+
+        let filters: { [name: string]: string[] } = {};
+        filters[fileType] = extensions;
+
+        let uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, `dependency-graph.${extensions[0]}`) : undefined,
+            filters: filters
+        });
+
+        if (uri) {
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+            vscode.window.showInformationMessage(`Dependency graph is exported to '${uri.fsPath}'`);
+        }
+    }
+}
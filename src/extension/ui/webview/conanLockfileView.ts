@@ -0,0 +1,46 @@
+import { ConanLockfile, ConanLockfileReference } from '../../../conans/model/conanLockfile';
+
+/**
+ * Create the HTML page that lists the locked references of a lockfile
+ * @param title Title of the page, e.g. the path of the lockfile
+ * @param lockfile Parsed lockfile
+ * @returns HTML page
+ */
+export function createLockfileHtml(title: string, lockfile: ConanLockfile): string {
+    let escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+    let createTable = (heading: string, references: Array<ConanLockfileReference>) => {
+        let rows = references
+            .map(reference => `<tr><td>${escapeHtml(reference.ref)}</td><td><code>${escapeHtml(reference.revision || "-")}</code></td><td>${reference.timestamp !== undefined ? new Date(reference.timestamp * 1000).toISOString() : "-"}</td></tr>`)
+            .join("\n");
+
+        let content = references.length > 0 ?
+            `<table><thead><tr><th>Reference</th><th>Revision</th><th>Timestamp</th></tr></thead><tbody>${rows}</tbody></table>` :
+            `<p class="empty">No locked references</p>`;
+
+        return `<h2>${heading} (${references.length})</h2>\n${content}`;
+    };
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: var(--vscode-font-family, sans-serif); color: var(--vscode-foreground); }
+        table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+        th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border, #444444); }
+        .empty { opacity: 0.7; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(title)}</h1>
+    <p>Lockfile version: ${escapeHtml(lockfile.version || "-")}</p>
+    ${createTable("Requires", lockfile.requires)}
+    ${createTable("Build Requires", lockfile.buildRequires)}
+    ${createTable("Python Requires", lockfile.pythonRequires)}
+</body>
+</html>`;
+}
@@ -1,15 +1,17 @@
 import { PythonExtension } from '@vscode/python-extension';
-import { execSync, spawn } from "child_process";
+import { spawn } from "child_process";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
 import {
-    CommandContainer, ConfigCommandBuild, ConfigCommandCreate,
+    CommandContainer, ConfigCommand, ConfigCommandBuild, ConfigCommandCreate,
     ConfigCommandInstall, ConfigCommandPackage, ConfigCommandPackageExport,
-    ConfigCommandSource
+    ConfigCommandSource, ConfigPipeline, ConfigPipelineStep
 } from "../conans/command/configCommand";
+import { ConfigVariableResolver } from "../conans/workspace/configVariableResolver";
 import { ConfigWorkspace } from "../conans/workspace/configWorkspace";
+import { ConanCommandError, ConanProcessCancelledError, formatCommandLine, runConanProcess } from "../conans/api/base/conanProcess";
 import * as constants from "./constants";
 
 export namespace vsconan {
@@ -54,34 +56,79 @@ export namespace vsconan {
         }
     }
 
+    /**
+     * Function to show an error in a notification
+     * Errors of conan commands are additionally written to the output channel, the notification offers
+     * actions to show the output and to copy the executed command.
+     * Cancellation of a conan process by the user is not reported.
+     *
+     * @param err Error to be shown
+     * @param channel VS Code output channel
+     */
+    export async function showErrorMessage(err: unknown, channel: vscode.OutputChannel) {
+        if (err instanceof ConanProcessCancelledError) {
+            return;
+        }
+
+        if (err instanceof ConanCommandError) {
+            channel.appendLine(`ERROR: Conan command failed with exit code ${err.exitCode}`);
+            channel.appendLine(`Command: ${err.command}`);
+            channel.appendLine(err.stderr ? err.stderr : err.message);
+
+            const answer = await vscode.window.showErrorMessage(err.message, ...["Show Output", "Copy Command"]);
+
+            if (answer === "Show Output") {
+                channel.show();
+            }
+            else if (answer === "Copy Command") {
+                vscode.env.clipboard.writeText(err.command);
+            }
+        }
+        else {
+            vscode.window.showErrorMessage((err as Error).message);
+        }
+    }
+
     export namespace cmd {
         /**
          * Function to execute command and print the output to the output channel
-         * @param cmd Command in string format
+         * @param cmd Executable of the command, which is started without a shell
+         * @param args Arguments of the command
          * @param channel VS Code output channel
+         * @param env Additional environment variables of the process, e.g. the login credentials of the remotes
+         * @param onOutput Callback for each chunk of the standard and error output with the stream it is written to, e.g. to parse compiler problems
+         * @returns Exit code of the process once it is finished | null if the process could not be started or was terminated by a signal
          */
-        export async function executeCommand(cmd: string, args: Array<string>, channel: vscode.OutputChannel) {
+        export function executeCommand(cmd: string, args: Array<string>, channel: vscode.OutputChannel, env: { [name: string]: string } = {},
+            onOutput: (data: string, stream: "stdout" | "stderr") => void = () => { }): Promise<number | null> {
             // const exec = util.promisify(require('child_process').exec);
             // const { stdout, stderr } = await spawn(cmd);
             channel.show();
-            channel.appendLine(`Executing: "${cmd} ${args.join(' ')}`);
-
-            const ls = spawn(cmd, args, { shell: true, 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined });
-
-            ls.stdout.on("data", data => {
-                channel.append(`${data}`);
-            });
-
-            ls.stderr.on("data", data => {
-                channel.append(`${data}`);
-            });
-
-            ls.on('error', (error) => {
-                channel.append(`ERROR: ${error.message}`);
-            });
-
-            ls.on("close", code => {
-                channel.append(`\nProcess exited with code ${code}\n`);
+            channel.appendLine(`Executing: ${formatCommandLine(cmd, args)}`);
+
+            return new Promise<number | null>(resolve => {
+                // The process is started without a shell, so each argument is passed as it is, e.g. paths with whitespaces
+                const ls = spawn(cmd, args, { 'cwd': vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined, env: { ...process.env, ...env } });
+
+                ls.stdout.on("data", data => {
+                    channel.append(`${data}`);
+                    onOutput(`${data}`, "stdout");
+                });
+
+                ls.stderr.on("data", data => {
+                    channel.append(`${data}`);
+                    onOutput(`${data}`, "stderr");
+                });
+
+                ls.on('error', (error) => {
+                    channel.append(`ERROR: ${error.message}`);
+                    resolve(null);
+                });
+
+                ls.on("close", code => {
+                    channel.append(`\nProcess exited with code ${code}\n`);
+                    resolve(code);
+                });
             });
         }
 
@@ -102,11 +149,75 @@ export namespace vsconan {
                 [new ConfigCommandBuild()],
                 [new ConfigCommandSource()],
                 [new ConfigCommandPackage()],
-                [new ConfigCommandPackageExport()]
+                [new ConfigCommandPackageExport()],
+                [new ConfigPipeline("install-build", "Install dependencies and build the project", [
+                    new ConfigPipelineStep("install", "install"),
+                    new ConfigPipelineStep("build", "build")
+                ])]
             ));
 
             configWorkspace.writeToFile(path.join(configPath, constants.CONFIG_FILE));
         }
+
+        /**
+         * Function to read the configuration file of a workspace
+         *
+         * @param wsPath Absolute path of the workspace
+         * @returns Workspace configuration | undefined if the workspace has no configuration file
+         */
+        export function readWorkspaceConfig(wsPath: string): ConfigWorkspace | undefined {
+            let configPath = path.join(wsPath, constants.VSCONAN_FOLDER, constants.CONFIG_FILE);
+
+            if (!fs.existsSync(configPath)) {
+                return undefined;
+            }
+
+            return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+        }
+
+        /**
+         * Function to select one of the configured commands with a quick pick.
+         * The quick pick is only shown if there is more than one command.
+         *
+         * @param configList List of configured commands
+         * @returns Selected command | undefined if the list is empty or nothing is selected
+         */
+        export async function selectConfigCommand<T extends ConfigCommand>(configList: Array<T>): Promise<T | undefined> {
+            if (configList.length <= 1) {
+                return configList[0];
+            }
+
+            let quickPickItems = configList.map((config, index) => ({
+                label: config.name,
+                description: config.description,
+                detail: config.detail,
+                index: index
+            }));
+
+            const choice = await vscode.window.showQuickPick(quickPickItems);
+
+            return choice ? configList[choice.index] : undefined;
+        }
+
+        /**
+         * Function to create the resolver for the variables of the configured commands, e.g. '${workspaceFolder}' or '${input:Version}'
+         *
+         * @param wsPath Absolute path of the workspace
+         * @param getRecipeAttribute Callback to read an attribute of a recipe with conan
+         * @param promptInput Callback to get the value of '${input:prompt}', an input box is shown by default
+         * @returns Resolver for the variables of the configured commands of the workspace
+         */
+        export function createVariableResolver(wsPath: string, getRecipeAttribute: (recipePath: string, attribute: string) => Promise<string>,
+            promptInput: (prompt: string) => Promise<string | undefined> = (prompt) => Promise.resolve(vscode.window.showInputBox({ title: "VSConan - Command Input", prompt: prompt }))): ConfigVariableResolver {
+            return new ConfigVariableResolver({
+                workspaceFolder: wsPath,
+                selectedProfile: vscode.workspace.getConfiguration("vsconan.conan.profile").get("default") ?? "",
+                getEnv: (name) => process.env[name],
+                getConfig: (key) => vscode.workspace.getConfiguration().get(key),
+                getRecipeAttribute: getRecipeAttribute,
+                promptInput: promptInput
+            });
+        }
     }
 }
 
@@ -138,6 +249,183 @@ export namespace conan {
         return ret;
     }
 
+    /**
+     * Utility function to determine whether a text is a binary package ID
+     * @param text Text to be checked, e.g. the package query of the user
+     * @returns 'true' if the text is a package ID, otherwise 'false'
+     */
+    export function isPackageId(text: string): boolean {
+        return /^[0-9a-f]{40}$/.test(text);
+    }
+
+    /**
+     * Utility function to validate a recipe reference, e.g. 'zlib/1.3', 'foo/1.0@user/channel' or 'zlib/1.3#revision'
+     * @param ref Recipe reference to be checked
+     * @returns 'true' if the reference is valid, otherwise 'false'
+     */
+    export function isValidReference(ref: string): boolean {
+        return /^[\w.+-]+\/[\w.+-]+(@[\w.+-]+\/[\w.+-]+)?(#[0-9a-f]+)?$/.test(ref);
+    }
+
+    /**
+     * Utility function to match a recipe reference against a pattern with the wildcards '*' and '?', e.g. 'zlib/*'
+     * @param ref Recipe reference to be checked
+     * @param pattern Pattern of the reference, the whole reference has to match
+     * @returns 'true' if the reference matches the pattern, otherwise 'false'
+     */
+    export function matchReferencePattern(ref: string, pattern: string): boolean {
+        let regexPattern = pattern
+            .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+            .replace(/\*/g, ".*")
+            .replace(/\?/g, ".");
+
+        return new RegExp(`^${regexPattern}$`).test(ref);
+    }
+
+    /**
+     * Utility function to filter recipe references with the text of a search box.
+     * A plain text matches every reference that contains it, e.g. 'boost'. Wildcard patterns match the whole reference,
+     * e.g. 'boost/*' or '*@mycompany/stable', and version ranges are supported in the syntax of conan, e.g. 'zlib/[>=1.2 <1.3]'.
+     * @param ref Recipe reference to be checked, e.g. 'zlib/1.3' or 'foo/1.0@user/channel'
+     * @param filter Text, pattern or version range of the filter
+     * @returns 'true' if the reference matches the filter, otherwise 'false'
+     */
+    export function matchReferenceFilter(ref: string, filter: string): boolean {
+        let filterText = filter.trim();
+
+        let rangeMatch = filterText.match(/^([^/]+)\/\[(.*)\](.*)$/);
+
+        if (rangeMatch) {
+            let refMatch = ref.match(/^([^/]+)\/([^@#]+)([^#]*)/);
+
+            return !!refMatch &&
+                matchReferencePattern(refMatch[1], rangeMatch[1]) &&
+                matchVersionRange(refMatch[2], rangeMatch[2]) &&
+                matchReferencePattern(refMatch[3], rangeMatch[3]);
+        }
+
+        if (/[*?/@]/.test(filterText)) {
+            return matchReferencePattern(ref, filterText);
+        }
+
+        return ref.toLowerCase().includes(filterText.toLowerCase());
+    }
+
+    /**
+     * Utility function to check a version against a version range of conan, e.g. '>=1.2 <1.3', '~1.2', '^1.0 || 3.0'
+     * Pre-release versions, e.g. '1.3.0-beta', only match with the option 'include_prerelease', e.g. '>=1.0, include_prerelease'.
+     * @param version Version to be checked
+     * @param range Version range without the brackets
+     * @returns 'true' if the version is within the range, otherwise 'false'
+     */
+    export function matchVersionRange(version: string, range: string): boolean {
+        let [expression, ...options] = range.split(",");
+
+        if (version.includes("-") && !options.some(option => option.trim() === "include_prerelease")) {
+            return false;
+        }
+
+        // Conditions separated by whitespace have to be satisfied all, alternatives are separated by '||'
+        return expression.split("||").some(alternative => alternative.trim().split(/\s+/).every(condition => {
+            let conditionMatch = condition.match(/^(>=|<=|>|<|=|~|\^)?(.*)$/)!;
+            let operator = conditionMatch[1] ?? "";
+            let boundary = conditionMatch[2];
+
+            if (boundary === "" || boundary === "*") {
+                return true;
+            }
+
+            let comparison = compareVersions(version, boundary);
+
+            switch (operator) {
+                case ">=": return comparison >= 0;
+                case "<=": return comparison <= 0;
+                case ">": return comparison > 0;
+                case "<": return comparison < 0;
+                case "~": return comparison >= 0 && compareVersions(version, getVersionUpperBound(boundary, "~")) < 0;
+                case "^": return comparison >= 0 && compareVersions(version, getVersionUpperBound(boundary, "^")) < 0;
+                default: return comparison === 0;
+            }
+        }));
+    }
+
+    /**
+     * Utility function to compare two versions item by item, numeric items are compared as numbers.
+     * A pre-release version is lower than the version without pre-release, e.g. '1.0-beta' < '1.0'.
+     * @param versionA First version
+     * @param versionB Second version
+     * @returns Negative number if the first version is lower, positive if it is higher, otherwise 0
+     */
+    export function compareVersions(versionA: string, versionB: string): number {
+        let [mainA, ...preA] = versionA.split("-");
+        let [mainB, ...preB] = versionB.split("-");
+
+        let itemsA = mainA.split(".");
+        let itemsB = mainB.split(".");
+
+        for (let i = 0; i < Math.max(itemsA.length, itemsB.length); i++) {
+            let itemA = itemsA[i] ?? "0";
+            let itemB = itemsB[i] ?? "0";
+
+            let comparison = /^\d+$/.test(itemA) && /^\d+$/.test(itemB) ?
+                parseInt(itemA) - parseInt(itemB) :
+                itemA.localeCompare(itemB);
+
+            if (comparison !== 0) {
+                return comparison;
+            }
+        }
+
+        if (preA.length === 0 || preB.length === 0) {
+            return preB.length - preA.length;
+        }
+
+        return preA.join("-").localeCompare(preB.join("-"));
+    }
+
+    /**
+     * Get the exclusive upper bound of a tilde or caret version range, like conan does.
+     * The last item of a tilde range is incremented ('~1.2' is '<1.3'), the first non-zero item of a caret range ('^1.2' is '<2').
+     * @param version Lower bound of the range
+     * @param operator Operator of the range, '~' or '^'
+     * @returns Upper bound of the range
+     */
+    function getVersionUpperBound(version: string, operator: "~" | "^"): string {
+        let items = version.split("-")[0].split(".");
+        let index = 0;
+
+        if (operator === "~") {
+            index = items.length > 1 ? items.length - 1 : 0;
+        }
+        else {
+            index = items.findIndex(item => item !== "0");
+            index = index === -1 ? items.length - 1 : index;
+        }
+
+        let bound = items.slice(0, index + 1);
+        bound[index] = ((parseInt(bound[index]) || 0) + 1).toString();
+
+        return bound.join(".");
+    }
+
+    /**
+     * Create the environment variables, that conan reads to log in to a remote.
+     * Conan looks up the remote name in upper case with '-' replaced by '_', all other characters are kept, e.g. 'CONAN_PASSWORD_MY_REMOTE.LOCAL'.
+     * @param remote Name of the remote
+     * @param user User name
+     * @param password Password or access token of the user
+     * @returns Environment variables 'CONAN_LOGIN_USERNAME_<REMOTE>' and 'CONAN_PASSWORD_<REMOTE>'
+     */
+    export function getRemoteCredentialEnv(remote: string, user: string, password: string): { [name: string]: string } {
+        let remoteName = remote.replace(/-/g, "_").toUpperCase();
+
+        let env: { [name: string]: string } = {};
+        env[`CONAN_LOGIN_USERNAME_${remoteName}`] = user;
+        env[`CONAN_PASSWORD_${remoteName}`] = password;
+
+        return env;
+    }
+
     /**
      * Read environment variables from Conan's VirtualBuildEnv/VirtualRunEnv.
      *
@@ -156,9 +444,8 @@ export namespace conan {
         }
         const options = { timeout: 20000, cwd: vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined };
 
-        const cmd = `${pythonInterpreter} ${envScript} ${conanEnv} ${args.join(' ')}`;
         try {
-            const output = execSync(cmd, options);
+            const output = await runConanProcess(pythonInterpreter, [envScript, conanEnv, ...args], options);
             const parsed = JSON.parse(`${output}`);
             return Object.entries(parsed);
         } catch (err) {
@@ -241,10 +528,10 @@ export namespace workspace {
      */
     export function getAbsolutePathFromWorkspace(wsPath: string, pathName: string): string {
         if (path.isAbsolute(pathName)) { // Absolute path from the path itself
-            return pathName.replace(/(?<!\\)\s/g, "\\ ");
+            return pathName;
         }
         else { // Absolute path in relative to workspace
-            return path.join(wsPath, pathName).replace(/(?<!\\)\s/g, "\\ ");
+            return path.join(wsPath, pathName);
         }
     }
 }
@@ -261,6 +548,111 @@ export namespace general {
 
         return instance;
     }
+
+    /**
+     * Calculate the disk size of a folder with all its files and subfolders.
+     * The filesystem is read asynchronously, symbolic links are counted with their own size and not followed.
+     *
+     * @param folderPath Path of the folder
+     * @param token Cancellation token to abort the calculation
+     * @returns Size of the folder in bytes, 0 if the folder does not exist
+     */
+    export async function getFolderSize(folderPath: string, token?: vscode.CancellationToken): Promise<number> {
+        let size: number = 0;
+        let entries: Array<fs.Dirent> = [];
+
+        try {
+            entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+        }
+        catch {
+            return 0;
+        }
+
+        for (let entry of entries) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+
+            let entryPath = path.join(folderPath, entry.name);
+
+            if (entry.isDirectory()) {
+                size += await getFolderSize(entryPath, token);
+            }
+            else {
+                try {
+                    size += (await fs.promises.lstat(entryPath)).size;
+                }
+                catch {
+                    // File is removed in the meantime
+                }
+            }
+        }
+
+        return size;
+    }
+
+    /**
+     * Get the latest access time of the files in a folder and all its subfolders
+     *
+     * @param folderPath Path of the folder
+     * @param token Cancellation token to abort the search
+     * @returns Latest access time in milliseconds since the epoch, 0 if the folder does not contain any file
+     */
+    export async function getLatestAccessTime(folderPath: string, token?: vscode.CancellationToken): Promise<number> {
+        let latestAccessTime: number = 0;
+        let entries: Array<fs.Dirent> = [];
+
+        try {
+            entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+        }
+        catch {
+            return 0;
+        }
+
+        for (let entry of entries) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+
+            let entryPath = path.join(folderPath, entry.name);
+            let accessTime: number = 0;
+
+            if (entry.isDirectory()) {
+                accessTime = await getLatestAccessTime(entryPath, token);
+            }
+            else {
+                try {
+                    accessTime = (await fs.promises.lstat(entryPath)).atimeMs;
+                }
+                catch {
+                    // File is removed in the meantime
+                }
+            }
+
+            latestAccessTime = Math.max(latestAccessTime, accessTime);
+        }
+
+        return latestAccessTime;
+    }
+
+    /**
+     * Format a size in bytes into a human readable text
+     *
+     * @param bytes Size in bytes
+     * @returns Size with unit, e.g. '1.5 GB'
+     */
+    export function formatSize(bytes: number): string {
+        const units: Array<string> = ["B", "KB", "MB", "GB", "TB"];
+        let unitIndex: number = 0;
+        let size: number = bytes;
+
+        while (size >= 1024 && unitIndex < units.length - 1) {
+            size /= 1024;
+            unitIndex++;
+        }
+
+        return unitIndex === 0 ? `${size} ${units[unitIndex]}` : `${size.toFixed(1)} ${units[unitIndex]}`;
+    }
 }
 
 export namespace python {
@@ -109,4 +109,19 @@ describe("Conan 1 Install method", () => {
 
         expect(cmdString).toBe(`${path.normalize("/home/user/ws/conanfile.py")} -pr default -if ${path.normalize("/home/user/ws/bar")} -pr:b foo`);
     });
-}); 
\ No newline at end of file
+
+    it("should return conan install command with lockfile", () => {
+        let conanInstall = new ConfigCommandInstall();
+        conanInstall.installFolder = "";
+        conanInstall.lockfile = "conan.lock";
+        conanInstall.lockfileOut = "out.lock";
+
+        let cmd = commandBuilder.buildCommandInstall("/home/user/ws", conanInstall);
+
+        expect(cmd?.length).toBe(7);
+
+        let cmdString = cmd?.join(" ");
+
+        expect(cmdString).toBe(`${path.normalize("/home/user/ws/conanfile.py")} -pr default --lockfile ${path.normalize("/home/user/ws/conan.lock")} --lockfile-out ${path.normalize("/home/user/ws/out.lock")}`);
+    });
+});
\ No newline at end of file
@@ -96,4 +96,19 @@ describe("Conan 2 Create method", () => {
         expect(cmdString).toBe(`${path.normalize("/home/user/ws/conanfile.py")} --user user --channel channel -pr myProfile -pr:h host -pr:b build`);
     });
 
+    it("should return command with lockfile and lockfile output", () => {
+
+        let conanCreate = new ConfigCommandCreate();
+        conanCreate.lockfile = "conan.lock";
+        conanCreate.lockfileOut = "/tmp/out.lock";
+
+        let cmd = commandBuilder.buildCommandCreate("/home/user/ws", conanCreate);
+
+        expect(cmd?.length).toBe(7);
+
+        let cmdString = cmd?.join(" ");
+
+        expect(cmdString).toBe(`${path.normalize("/home/user/ws/conanfile.py")} -pr default --lockfile ${path.normalize("/home/user/ws/conan.lock")} --lockfile-out /tmp/out.lock`);
+    });
+
 });
\ No newline at end of file
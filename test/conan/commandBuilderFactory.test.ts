@@ -1,6 +1,7 @@
 import * as vscode from "../mocks/vscode";
 
 import { CommandBuilderFactory } from "../../src/conans/command/commandBuilderFactory";
+import { ConfigCommandBuild, ConfigCommandInstall, ConfigCommandPackageExport } from "../../src/conans/command/configCommand";
 import { CommandBuilderConan1 } from "../../src/conans/conan/commandBuilder";
 import { CommandBuilderConan2 } from "../../src/conans/conan2/commandBuilder";
 
@@ -33,4 +34,23 @@ describe("Test factory method for command builder", () => {
 
 
 
-});
\ No newline at end of file
+});
+
+describe("Build command by the command type of the configuration", () => {
+    it("should build the command of each command type with its sub command", () => {
+        let cmdBuilder = CommandBuilderFactory.getCommandBuilder("2")!;
+        let installConfig = new ConfigCommandInstall();
+        let buildConfig = new ConfigCommandBuild();
+        let pkgExportConfig = new ConfigCommandPackageExport();
+
+        expect(cmdBuilder.buildCommand("install", "/ws", installConfig)).toStrictEqual(["install", cmdBuilder.buildCommandInstall("/ws", installConfig)]);
+        expect(cmdBuilder.buildCommand("build", "/ws", buildConfig)).toStrictEqual(["build", cmdBuilder.buildCommandBuild("/ws", buildConfig)]);
+        expect(cmdBuilder.buildCommand("pkgExport", "/ws", pkgExportConfig)).toStrictEqual(["export-pkg", cmdBuilder.buildCommandPackageExport("/ws", pkgExportConfig)]);
+    });
+
+    it("should return no arguments for an unknown command type", () => {
+        let cmdBuilder = CommandBuilderFactory.getCommandBuilder("1")!;
+
+        expect(cmdBuilder.buildCommand("pipelines", "/ws", new ConfigCommandInstall())).toStrictEqual(["pipelines", undefined]);
+    });
+});
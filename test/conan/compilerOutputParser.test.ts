@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CompilerOutputParser, CompilerProblemSeverity, GCC_PATTERN, MSVC_PATTERN } from "../../src/conans/workspace/compilerOutputParser";
+
+const WORKSPACE_FOLDER = path.resolve("/home/user/hello");
+const WORKSPACE_FILES = [
+    path.join(WORKSPACE_FOLDER, "src", "hello.cpp"),
+    path.join(WORKSPACE_FOLDER, "include", "hello.h")
+];
+
+function createParser(): CompilerOutputParser {
+    return new CompilerOutputParser([WORKSPACE_FOLDER], filePath => WORKSPACE_FILES.includes(filePath));
+}
+
+describe("Compiler Output Parser", () => {
+
+    it("should parse GCC and Clang diagnostics", () => {
+        let parser = createParser();
+
+        let error = parser.parseLine("src/hello.cpp:10:5: error: expected ';' before '}' token");
+        expect(error).toMatchObject({
+            file: WORKSPACE_FILES[0], line: 10, column: 5, severity: CompilerProblemSeverity.error, code: "", message: "expected ';' before '}' token"
+        });
+
+        let warning = parser.parseLine("\x1b[01m\x1b[Kinclude/hello.h:3:1:\x1b[m\x1b[K \x1b[01;35m\x1b[Kwarning: \x1b[m\x1b[Kunused variable 'x' [-Wunused-variable]");
+        expect(warning).toMatchObject({ file: WORKSPACE_FILES[1], line: 3, column: 1, severity: CompilerProblemSeverity.warning });
+
+        expect(parser.parseLine("src/hello.cpp:12: fatal error: world.h: No such file or directory")).toMatchObject({
+            line: 12, column: 0, severity: CompilerProblemSeverity.error, message: "world.h: No such file or directory"
+        });
+        expect(parser.parseLine("C:\\src\\hello.cpp:7:2: note: declared here")).toMatchObject({
+            line: 7, column: 2, severity: CompilerProblemSeverity.note, message: "declared here"
+        });
+    });
+
+    it("should parse MSVC diagnostics", () => {
+        let parser = createParser();
+
+        expect(parser.parseLine("  2>src\\hello.cpp(10,5): error C2143: syntax error: missing ';' before '}'")).toMatchObject({
+            line: 10, column: 5, severity: CompilerProblemSeverity.error, code: "C2143", message: "syntax error: missing ';' before '}'"
+        });
+        expect(parser.parseLine("include/hello.h(3): warning C4101: 'x': unreferenced local variable")).toMatchObject({
+            file: WORKSPACE_FILES[1], line: 3, column: 0, severity: CompilerProblemSeverity.warning, code: "C4101"
+        });
+    });
+
+    it("should ignore other output", () => {
+        let parser = createParser();
+
+        expect(parser.parseLine("[ 50%] Building CXX object CMakeFiles/hello.dir/src/hello.cpp.o")).toBeUndefined();
+        expect(parser.parseLine("In file included from src/hello.cpp:1:")).toBeUndefined();
+        expect(parser.parseLine("ERROR: hello/1.0: Error in build() method, line 48")).toBeUndefined();
+    });
+
+    it("should map the build folders of the Conan cache to the workspace", () => {
+        let parser = createParser();
+        let conan2Build = path.resolve("/home/user/.conan2/p/b/hello4f0b2c6d8e5a1/b/src/hello.cpp");
+        let conan2Source = path.resolve("/home/user/.conan2/p/hello1a2b3c4d5e6f7/s/include/hello.h");
+        let conan1Build = path.resolve("/home/user/.conan/data/hello/1.0/_/_/build/3fb49604f9c2f729b85ba3115852006824e72cab/src/hello.cpp");
+        let generated = path.resolve("/home/user/.conan2/p/b/hello4f0b2c6d8e5a1/b/build/Release/generated/config.h");
+
+        expect(parser.mapPath(conan2Build)).toBe(WORKSPACE_FILES[0]);
+        expect(parser.mapPath(conan2Source)).toBe(WORKSPACE_FILES[1]);
+        expect(parser.mapPath(conan1Build)).toBe(WORKSPACE_FILES[0]);
+        expect(parser.mapPath(generated)).toBe(generated);
+        expect(parser.mapPath(WORKSPACE_FILES[0])).toBe(WORKSPACE_FILES[0]);
+    });
+
+    it("should parse the streamed output line by line", () => {
+        let parser = createParser();
+
+        expect(parser.append("src/hello.cpp:10:5: err")).toStrictEqual([]);
+        expect(parser.append("or: expected ';'\r\nsrc/hello.cpp:11:1: warning: unused")).toMatchObject([{ line: 10, message: "expected ';'" }]);
+        expect(parser.flush()).toMatchObject([{ line: 11, severity: CompilerProblemSeverity.warning }]);
+        expect(parser.flush()).toStrictEqual([]);
+    });
+
+    it("should use the same patterns as the problem matchers of the package.json", () => {
+        let packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "..", "package.json"), "utf8"));
+        let problemPatterns = packageJson.contributes.problemPatterns;
+
+        expect(problemPatterns.find((pattern: any) => pattern.name === "conan-gcc").regexp).toBe(GCC_PATTERN.source);
+        expect(problemPatterns.find((pattern: any) => pattern.name === "conan-msvc").regexp).toBe(MSVC_PATTERN.source);
+    });
+});
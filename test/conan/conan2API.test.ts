@@ -0,0 +1,723 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConanExecutionMode } from "../../src/conans/api/base/conanAPI";
+import { ConanCommandError, runConanProcess } from "../../src/conans/api/base/conanProcess";
+import { RecipeFolderOption } from "../../src/conans/conan/api/conanAPI";
+import { Conan2API } from "../../src/conans/conan2/api/conanAPI";
+import { LockfileRequireType } from "../../src/conans/model/conanLockfile";
+
+jest.mock('vscode', () => ({
+    workspace: {
+        workspaceFolders: [{ uri: { fsPath: __dirname } }],
+    }
+}), { virtual: true });
+
+jest.mock('../../src/conans/api/base/conanProcess', () => ({
+    ...jest.requireActual('../../src/conans/api/base/conanProcess'),
+    runConanProcess: jest.fn()
+}));
+
+const mockedRunConanProcess = runConanProcess as jest.MockedFunction<typeof runConanProcess>;
+
+let conanApi: Conan2API;
+
+beforeAll(() => {
+    conanApi = new Conan2API("python", "conan", ConanExecutionMode.conan);
+});
+
+beforeEach(() => {
+    mockedRunConanProcess.mockReset();
+    mockedRunConanProcess.mockResolvedValue("");
+});
+
+describe("Conan 2 Editable Package", () => {
+
+    it("should return list of editable recipes", async () => {
+        mockedRunConanProcess.mockResolvedValue(`{
+            "foo/1.0.0": { "path": "/home/user/foo/conanfile.py", "output_folder": null },
+            "bar/2.0.0@user/channel": { "path": "/home/user/bar/conanfile.py", "output_folder": "/home/user/bar/out" }
+        }`);
+
+        let editableRecipes = await conanApi.getEditablePackageRecipes();
+
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["editable", "list", "--format", "json"]);
+        expect(editableRecipes.length).toBe(2);
+        expect(editableRecipes[0].name).toBe("foo/1.0.0");
+        expect(editableRecipes[0].editable).toBe(true);
+        expect(editableRecipes[0].path).toBe("/home/user/foo/conanfile.py");
+        expect(editableRecipes[1].name).toBe("bar/2.0.0@user/channel");
+    });
+
+    it("should return empty list on invalid output", async () => {
+        mockedRunConanProcess.mockResolvedValue("ERROR: something went wrong");
+
+        expect((await conanApi.getEditablePackageRecipes()).length).toBe(0);
+    });
+
+    it("should add editable package with user, channel and output folder", async () => {
+        await conanApi.addEditablePackage("/home/user/foo", "foo/1.0.0", "user", "channel", "", "build");
+
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["editable", "add", "/home/user/foo", "--name", "foo", "--version", "1.0.0", "--user", "user", "--channel", "channel", "--output-folder", "build"]);
+    });
+
+    it("should add editable package without user and channel", async () => {
+        await conanApi.addEditablePackage("/home/user/foo", "foo/1.0.0", "", "", "");
+
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["editable", "add", "/home/user/foo", "--name", "foo", "--version", "1.0.0"]);
+    });
+
+    it("should remove editable package by reference", async () => {
+        await conanApi.removeEditablePackageRecipe("foo/1.0.0@user/channel");
+
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["editable", "remove", "--refs", "foo/1.0.0@user/channel"]);
+    });
+
+    it("should pass the process timeout to the conan process", async () => {
+        conanApi.setProcessTimeout(30000);
+        await conanApi.removeEditablePackageRecipe("foo/1.0.0");
+        conanApi.setProcessTimeout(0);
+
+        expect(mockedRunConanProcess.mock.calls[0][2]!.timeout).toBe(30000);
+        expect(mockedRunConanProcess.mock.calls[0][2]!.cwd).toBe(__dirname);
+    });
+});
+
+describe("Conan 2 Process Arguments", () => {
+
+    it("should execute conan as python module in python mode", async () => {
+        let conanApiPython = new Conan2API("/opt/my python/bin/python", "conan", ConanExecutionMode.python);
+
+        await conanApiPython.removeRecipe("foo/1.0.0");
+
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("/opt/my python/bin/python");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["-m", "conans.conan", "remove", "foo/1.0.0", "-c"]);
+    });
+
+    it("should pass user input as single argument", async () => {
+        await conanApi.addRemote("my remote; echo foo", "https://example.com/$(whoami)");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["remote", "add", "my remote; echo foo", "https://example.com/$(whoami)"]);
+    });
+
+    it("should pass paths with whitespace as single argument", async () => {
+        await conanApi.addEditablePackage("/home/user/my foo", "foo/1.0.0", "", "", "", "build folder");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["editable", "add", "/home/user/my foo", "--name", "foo", "--version", "1.0.0", "--output-folder", "build folder"]);
+    });
+});
+
+describe("Conan 2 Recipe Inspection", () => {
+
+    const inspectOutput = `{
+        "name": "foo",
+        "version": "1.0.0",
+        "license": "MIT",
+        "description": "Foo library",
+        "options": { "shared": [true, false] },
+        "default_options": { "shared": false },
+        "settings": ["os", "compiler", "build_type", "arch"],
+        "generators": ["CMakeToolchain"]
+    }`;
+
+    it("should return attribute from the recipe", async () => {
+        mockedRunConanProcess.mockResolvedValue(inspectOutput);
+
+        expect(await conanApi.getRecipeAttribute("/home/user/foo", "name")).toBe("foo");
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["inspect", "/home/user/foo", "--format", "json"]);
+
+        expect(await conanApi.getRecipeAttribute("/home/user/foo", "version")).toBe("1.0.0");
+    });
+
+    it("should return empty string for missing attribute", async () => {
+        mockedRunConanProcess.mockResolvedValue(inspectOutput);
+
+        expect(await conanApi.getRecipeAttribute("/home/user/foo", "homepage")).toBe("");
+    });
+
+    it("should return recipe information with revisions from the local cache", async () => {
+        mockedRunConanProcess
+            .mockResolvedValueOnce("/home/user/.conan2/p/foo1234/e\n")
+            .mockResolvedValueOnce(inspectOutput)
+            .mockResolvedValueOnce(`{
+                "Local Cache": {
+                    "foo/1.0.0": {
+                        "revisions": {
+                            "abc": { "timestamp": 1700000000.0 },
+                            "def": { "timestamp": 1710000000.0 }
+                        }
+                    }
+                }
+            }`);
+
+        let recipeInfo = JSON.parse((await conanApi.getRecipeInformation("foo/1.0.0#abc"))!);
+
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["cache", "path", "foo/1.0.0#abc"]);
+        expect(mockedRunConanProcess.mock.calls[2][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[2][1]).toStrictEqual(["list", "foo/1.0.0#*", "--format", "json"]);
+
+        expect(recipeInfo.name).toBe("foo");
+        expect(recipeInfo.license).toBe("MIT");
+        expect(recipeInfo.options.shared).toStrictEqual([true, false]);
+        expect(recipeInfo.settings.length).toBe(4);
+        expect(recipeInfo.generators).toBe(undefined);
+        expect(recipeInfo.revisions.length).toBe(2);
+        expect(recipeInfo.revisions[1].revision).toBe("def");
+    });
+});
+
+describe("Conan 2 Dependency Graph", () => {
+
+    const graphOutput = `{
+        "graph": {
+            "nodes": {
+                "0": {
+                    "ref": "conanfile",
+                    "label": "conanfile.py (app/1.0.0)",
+                    "rrev": null,
+                    "binary": null,
+                    "context": "host",
+                    "dependencies": {
+                        "1": { "ref": "zlib/1.2.13", "direct": true },
+                        "2": { "ref": "cmake/3.27.0", "direct": true },
+                        "3": { "ref": "bzip2/1.0.8", "direct": false }
+                    }
+                },
+                "1": {
+                    "ref": "zlib/1.2.13#97d5730b529b4224045fe7090592d4c1",
+                    "rrev": "97d5730b529b4224045fe7090592d4c1",
+                    "binary": "Cache",
+                    "context": "host",
+                    "dependencies": {
+                        "3": { "ref": "bzip2/1.0.8", "direct": true }
+                    }
+                },
+                "2": {
+                    "ref": "cmake/3.27.0#a1b2c3",
+                    "rrev": "a1b2c3",
+                    "binary": "Download",
+                    "context": "build",
+                    "dependencies": {}
+                },
+                "3": {
+                    "ref": "bzip2/1.0.8#d4e5f6",
+                    "rrev": "d4e5f6",
+                    "binary": "Missing",
+                    "context": "host",
+                    "dependencies": {}
+                }
+            },
+            "root": { "0": "conanfile.py (app/1.0.0)" }
+        }
+    }`;
+
+    it("should resolve the dependency graph with profile and arguments", async () => {
+        mockedRunConanProcess.mockResolvedValue(graphOutput);
+
+        let graph = await conanApi.getDependencyGraph("/home/user/app/conanfile.py", "default", ["-s", "build_type=Debug"]);
+
+        expect(mockedRunConanProcess.mock.calls[0][0]).toBe("conan");
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["graph", "info", "/home/user/app/conanfile.py", "--format", "json", "-pr", "default", "-s", "build_type=Debug"]);
+
+        let root = graph.getRoot()!;
+        expect(root.ref).toBe("conanfile.py (app/1.0.0)");
+        expect(graph.getRequires(root).map(node => node.ref)).toStrictEqual(["zlib/1.2.13", "cmake/3.27.0"]);
+
+        let zlib = graph.nodes.get("1")!;
+        expect(zlib.revision).toBe("97d5730b529b4224045fe7090592d4c1");
+        expect(zlib.binary).toBe("Cache");
+        expect(graph.getRequires(zlib).map(node => node.binary)).toStrictEqual(["Missing"]);
+
+        expect(graph.nodes.get("2")!.context).toBe("build");
+    });
+
+    it("should not pass a profile if it is empty", async () => {
+        mockedRunConanProcess.mockResolvedValue(graphOutput);
+
+        await conanApi.getDependencyGraph("/home/user/app/conanfile.py", "", []);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["graph", "info", "/home/user/app/conanfile.py", "--format", "json"]);
+    });
+});
+
+describe("Conan 2 Lockfile", () => {
+
+    it("should create lockfile from recipe", async () => {
+        mockedRunConanProcess.mockResolvedValue("");
+
+        await conanApi.createLockfile("/home/user/app/conanfile.py", "/home/user/app/conan.lock", "default", ["-s", "build_type=Debug"]);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["lock", "create", "/home/user/app/conanfile.py", "--lockfile-out", "/home/user/app/conan.lock", "-pr", "default", "-s", "build_type=Debug"]);
+    });
+
+    it("should add references to lockfile", async () => {
+        mockedRunConanProcess.mockResolvedValue("");
+
+        await conanApi.addToLockfile("/home/user/app/conan.lock", ["cmake/3.27.0", "ninja/1.11.1"], LockfileRequireType.buildRequires);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["lock", "add", "--lockfile", "/home/user/app/conan.lock", "--lockfile-out", "/home/user/app/conan.lock", "--build-requires", "cmake/3.27.0", "--build-requires", "ninja/1.11.1"]);
+    });
+
+    it("should merge lockfiles", async () => {
+        mockedRunConanProcess.mockResolvedValue("");
+
+        await conanApi.mergeLockfiles(["/tmp/a.lock", "/tmp/b.lock"], "/tmp/merged.lock");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["lock", "merge", "--lockfile", "/tmp/a.lock", "--lockfile", "/tmp/b.lock", "--lockfile-out", "/tmp/merged.lock"]);
+    });
+});
+
+describe("Conan 2 Remote Search", () => {
+
+    it("should return list of recipes found on the remote", async () => {
+        mockedRunConanProcess.mockResolvedValue(`{
+            "conancenter": {
+                "zlib/1.2.13": {},
+                "zlib/1.3": {}
+            }
+        }`);
+
+        let recipes = await conanApi.searchRemote("zlib/*", "conancenter");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["list", "zlib/*", "-r", "conancenter", "--format", "json"]);
+        expect(recipes.map(recipe => recipe.name)).toStrictEqual(["zlib/1.2.13", "zlib/1.3"]);
+    });
+
+    it("should throw the error reported by the remote", async () => {
+        mockedRunConanProcess.mockResolvedValue(`{
+            "private": { "error": "Recipe 'foo/*' not found" }
+        }`);
+
+        await expect(conanApi.searchRemote("foo/*", "private")).rejects.toThrow("Recipe 'foo/*' not found");
+    });
+
+    it("should return recipe revisions of the remote with the latest revision first", async () => {
+        mockedRunConanProcess.mockResolvedValue(`{
+            "conancenter": {
+                "zlib/1.3": {
+                    "revisions": {
+                        "aaa111": { "timestamp": 1690000000.0 },
+                        "bbb222": { "timestamp": 1700000000.0 }
+                    }
+                }
+            }
+        }`);
+
+        let revisions = await conanApi.getRemoteRecipeRevisions("zlib/1.3", "conancenter");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["list", "zlib/1.3#*", "-r", "conancenter", "--format", "json"]);
+        expect(revisions.map(revision => revision.id)).toStrictEqual(["bbb222", "aaa111"]);
+        expect(revisions[0].timestamp).toBe(1700000000.0);
+    });
+
+    it("should download recipe only from the remote", async () => {
+        await conanApi.downloadReference("zlib/1.3#bbb222", "conancenter", "", true);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["download", "zlib/1.3#bbb222", "-r", "conancenter", "--only-recipe"]);
+    });
+
+    it("should download recipe and binaries from the remote", async () => {
+        await conanApi.downloadReference("zlib/1.3", "conancenter");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["download", "zlib/1.3", "-r", "conancenter"]);
+    });
+
+    it("should download a single binary package by its package ID", async () => {
+        await conanApi.downloadReference("zlib/1.3", "conancenter", "b647c43bfefae3f830561ca202b6cfd935b56205");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["download", "zlib/1.3:b647c43bfefae3f830561ca202b6cfd935b56205", "-r", "conancenter"]);
+    });
+
+    it("should download the binary packages matching a settings query", async () => {
+        await conanApi.downloadReference("zlib/1.3", "conancenter", "os=Linux AND arch=x86_64");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["download", "zlib/1.3", "-r", "conancenter", "-p", "os=Linux AND arch=x86_64"]);
+    });
+});
+
+describe("Conan 2 Upload", () => {
+
+    const uploadOutput = `{
+        "Local Cache": {
+            "zlib/1.3": {
+                "revisions": {
+                    "bbb222": {
+                        "upload": false,
+                        "packages": {
+                            "pkg1": { "revisions": { "prev1": { "upload": true } } },
+                            "pkg2": { "revisions": { "prev2": { "upload": false } } }
+                        }
+                    }
+                }
+            }
+        }
+    }`;
+
+    it("should upload recipe with all binary packages and report uploaded and skipped references", async () => {
+        mockedRunConanProcess.mockResolvedValue(uploadOutput);
+
+        let summary = await conanApi.uploadReference("zlib/1.3", "", "myremote", false, true, false);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["upload", "zlib/1.3", "-r", "myremote", "--confirm", "--format", "json", "--check"]);
+        expect(summary.uploaded).toStrictEqual(["zlib/1.3#bbb222:pkg1#prev1"]);
+        expect(summary.skipped).toStrictEqual(["zlib/1.3#bbb222", "zlib/1.3#bbb222:pkg2#prev2"]);
+    });
+
+    it("should upload recipe only with force", async () => {
+        mockedRunConanProcess.mockResolvedValue("{}");
+
+        await conanApi.uploadReference("zlib/1.3", "", "myremote", true, false, true);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["upload", "zlib/1.3", "-r", "myremote", "--confirm", "--format", "json", "--only-recipe", "--force"]);
+    });
+
+    it("should upload a single binary package", async () => {
+        mockedRunConanProcess.mockResolvedValue("{}");
+
+        await conanApi.uploadReference("zlib/1.3", "pkg1", "myremote", true, false, false);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["upload", "zlib/1.3:pkg1", "-r", "myremote", "--confirm", "--format", "json"]);
+    });
+});
+
+describe("Conan 2 Remote Authentication", () => {
+
+    it("should return the users of the remotes", async () => {
+        mockedRunConanProcess.mockResolvedValue(`[
+            { "remote_name": "conancenter", "authenticated": false, "user_name": null },
+            { "remote_name": "artifactory", "authenticated": true, "user_name": "john" }
+        ]`);
+
+        let remoteUsers = await conanApi.getRemoteUsers();
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["remote", "list-users", "--format", "json"]);
+        expect(remoteUsers[0].user).toBe("");
+        expect(remoteUsers[0].authenticated).toBe(false);
+        expect(remoteUsers[1].remote).toBe("artifactory");
+        expect(remoteUsers[1].user).toBe("john");
+        expect(remoteUsers[1].authenticated).toBe(true);
+    });
+
+    it("should pass the credentials as environment variables to log in", async () => {
+        await conanApi.loginRemote("artifactory", "john", "secret");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["remote", "login", "artifactory", "john"]);
+        expect(mockedRunConanProcess.mock.calls[0][2]!.env!["CONAN_LOGIN_USERNAME_ARTIFACTORY"]).toBe("john");
+        expect(mockedRunConanProcess.mock.calls[0][2]!.env!["CONAN_PASSWORD_ARTIFACTORY"]).toBe("secret");
+    });
+
+    it("should pass the process environment to every conan process", async () => {
+        let env: { [name: string]: string } = {};
+        env["CONAN_PASSWORD_ARTIFACTORY"] = "secret";
+
+        conanApi.setProcessEnv(env);
+
+        await conanApi.logoutRemote("artifactory");
+
+        conanApi.setProcessEnv({});
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["remote", "logout", "artifactory"]);
+        expect(mockedRunConanProcess.mock.calls[0][2]!.env).toStrictEqual(env);
+    });
+});
+
+describe("Conan 2 Recipe Revisions", () => {
+
+    it("should return recipes with their revisions, the latest revision first", async () => {
+        mockedRunConanProcess.mockResolvedValue(`{
+            "Local Cache": {
+                "zlib/1.3": {
+                    "revisions": {
+                        "aaa111": { "timestamp": 1690000000.0 },
+                        "bbb222": { "timestamp": 1700000000.0 }
+                    }
+                },
+                "fmt/10.1.0": {
+                    "revisions": {
+                        "ccc333": { "timestamp": 1695000000.0 }
+                    }
+                }
+            }
+        }`);
+
+        let recipes = await conanApi.getRecipes();
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["list", "*#*", "--format", "json"]);
+        expect(recipes.map(recipe => recipe.name)).toStrictEqual(["zlib/1.3", "fmt/10.1.0"]);
+        expect(recipes[0].revisions.map(revision => revision.id)).toStrictEqual(["bbb222", "aaa111"]);
+        expect(recipes[0].revisions[1].timestamp).toBe(1690000000.0);
+        expect(recipes[1].revisions.length).toBe(1);
+    });
+
+    it("should remove a single recipe revision", async () => {
+        await conanApi.removeRecipeRevision("zlib/1.3", "aaa111");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["remove", "zlib/1.3#aaa111", "-c"]);
+    });
+});
+
+describe("Conan 2 Cache Cleanup", () => {
+
+    it("should return the recipe revisions that are not used recently", async () => {
+        mockedRunConanProcess.mockResolvedValue(`{
+            "Local Cache": {
+                "zlib/1.3": {
+                    "revisions": {
+                        "aaa111": { "timestamp": 1690000000.0 }
+                    }
+                },
+                "fmt/10.1.0": {
+                    "revisions": {}
+                }
+            }
+        }`);
+
+        let recipes = await conanApi.getLruRecipes(30);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["list", "*#*", "--lru=30d", "--format", "json"]);
+        expect(recipes.map(recipe => recipe.name)).toStrictEqual(["zlib/1.3"]);
+        expect(recipes[0].revisions.map(revision => revision.id)).toStrictEqual(["aaa111"]);
+    });
+
+    it("should remove the recipes that are not used recently", async () => {
+        await conanApi.removeLruRecipes(14, "*");
+        await conanApi.removeLruRecipes(14, "zlib/1.3");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["remove", "*", "--lru=14d", "-c"]);
+        expect(mockedRunConanProcess.mock.calls[1][1]).toStrictEqual(["remove", "zlib/1.3", "--lru=14d", "-c"]);
+    });
+
+    it("should clean all selected folders of the cache", async () => {
+        await conanApi.cleanCache(true, true, true, true);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["cache", "clean", "*", "--temp", "--download", "--build", "--source"]);
+    });
+
+    it("should clean only the temporary folders of the cache", async () => {
+        await conanApi.cleanCache(true, false, false, false);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["cache", "clean", "*", "--temp"]);
+    });
+});
+
+describe("Conan 2 Cache Integrity", () => {
+
+    it("should report an intact cache", async () => {
+        let issues = await conanApi.checkIntegrity("*");
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["cache", "check-integrity", "*"]);
+        expect(issues.length).toBe(0);
+    });
+
+    it("should report the corrupted recipes and packages from the error output", async () => {
+        mockedRunConanProcess.mockRejectedValue(new ConanCommandError("conan cache check-integrity zlib/*", 1,
+            "zlib/1.3#aaa111: Integrity checked: ok\n" +
+            "ERROR: zlib/1.3#aaa111:b647c43bfefae3f830561ca202b6cfd935b56205#bbb222: Manifest mismatch\n" +
+            "Folder: /home/user/.conan2/p/b/zlibd5c2/p\n" +
+            "ERROR: There are corrupted artifacts, check the error logs"));
+
+        let issues = await conanApi.checkIntegrity("zlib/*");
+
+        expect(issues.length).toBe(1);
+        expect(issues[0].recipe).toBe("zlib/1.3");
+        expect(issues[0].recipeRevision).toBe("aaa111");
+        expect(issues[0].packageId).toBe("b647c43bfefae3f830561ca202b6cfd935b56205");
+        expect(issues[0].packageRevision).toBe("bbb222");
+        expect(issues[0].message).toBe("Manifest mismatch");
+    });
+
+    it("should pass other errors to the caller", async () => {
+        mockedRunConanProcess.mockRejectedValue(new ConanCommandError("conan cache check-integrity *", 2, "ERROR: Unknown command"));
+
+        await expect(conanApi.checkIntegrity("*")).rejects.toThrow("Unknown command");
+    });
+});
+
+describe("Conan 2 Dirty Packages", () => {
+
+    it("should return the listed packages of the recipe revision that are flagged as dirty", async () => {
+        let cachePath = fs.mkdtempSync(path.join(os.tmpdir(), "vsconan-"));
+        let packagePaths = new Map([["pkg1", path.join(cachePath, "zlib1a2b3c4d5e6f7", "p")], ["pkg2", path.join(cachePath, "zlib7f6e5d4c3b2a1", "p")]]);
+        packagePaths.forEach(packagePath => fs.mkdirSync(packagePath, { recursive: true }));
+        fs.writeFileSync(`${packagePaths.get("pkg2")}.dirty`, "");
+
+        mockedRunConanProcess.mockImplementation((conanExecutable, args) => {
+            // conan cache path zlib/1.3#aaa111:<package id>#<package revision>
+            if (args[0] === "cache") {
+                return Promise.resolve(packagePaths.get(args[2].split(":")[1].split("#")[0])!);
+            }
+
+            return Promise.resolve(`{
+                "Local Cache": {
+                    "zlib/1.3": {
+                        "revisions": {
+                            "aaa111": {
+                                "packages": {
+                                    "pkg1": { "info": {}, "revisions": { "prev1": { "timestamp": 1700000000.0 } } },
+                                    "pkg2": { "info": {}, "revisions": { "prev2": { "timestamp": 1700000000.0 } } }
+                                }
+                            }
+                        }
+                    }
+                }
+            }`);
+        });
+
+        try {
+            let dirtyPackages = await conanApi.getDirtyPackage("zlib/1.3#aaa111");
+
+            expect(mockedRunConanProcess.mock.calls.map(call => call[1])).toContainEqual(["cache", "path", "zlib/1.3#aaa111:pkg2#prev2"]);
+            expect(dirtyPackages.map(pkg => pkg.id)).toStrictEqual(["pkg2"]);
+            expect(dirtyPackages[0].dirty).toBe(true);
+            expect(dirtyPackages[0].path).toBe(path.join(cachePath, "zlib7f6e5d4c3b2a1"));
+        }
+        finally {
+            fs.rmSync(cachePath, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("Conan 2 Recipe Folders", () => {
+
+    it("should return the export folder of a recipe", async () => {
+        mockedRunConanProcess.mockResolvedValue(`${__dirname}\n`);
+
+        let folderPath = await conanApi.getFolderPathFromRecipe("zlib/1.3", RecipeFolderOption.export);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["cache", "path", "zlib/1.3"]);
+        expect(folderPath).toBe(__dirname);
+    });
+
+    it("should pass the folder name to conan", async () => {
+        mockedRunConanProcess.mockResolvedValue(__dirname);
+
+        await conanApi.getFolderPathFromRecipe("zlib/1.3", RecipeFolderOption.exportSource);
+        await conanApi.getFolderPathFromRecipe("zlib/1.3", RecipeFolderOption.source);
+        await conanApi.getFolderPathFromRecipe("zlib/1.3:b647c43bfefae3f830561ca202b6cfd935b56205", RecipeFolderOption.build);
+
+        expect(mockedRunConanProcess.mock.calls[0][1]).toStrictEqual(["cache", "path", "zlib/1.3", "--folder", "export_source"]);
+        expect(mockedRunConanProcess.mock.calls[1][1]).toStrictEqual(["cache", "path", "zlib/1.3", "--folder", "source"]);
+        expect(mockedRunConanProcess.mock.calls[2][1]).toStrictEqual(["cache", "path", "zlib/1.3:b647c43bfefae3f830561ca202b6cfd935b56205", "--folder", "build"]);
+    });
+
+    it("should return empty string if the folder does not exist", async () => {
+        mockedRunConanProcess.mockResolvedValue("/not/existing/folder");
+
+        expect(await conanApi.getFolderPathFromRecipe("zlib/1.3", RecipeFolderOption.source)).toBe("");
+    });
+
+    it("should reject the folders that do not exist in Conan 2", async () => {
+        await expect(conanApi.getFolderPathFromRecipe("zlib/1.3", RecipeFolderOption.locks)).rejects.toThrow("not available with Conan 2");
+        await expect(conanApi.getFolderPathFromRecipe("zlib/1.3", RecipeFolderOption.build)).rejects.toThrow("requires a binary package");
+
+        expect(mockedRunConanProcess).not.toHaveBeenCalled();
+    });
+});
+
+describe("Conan 2 Remote Filter", () => {
+
+    it("should return the recipe revisions of the local cache that exist on the remote", async () => {
+        mockedRunConanProcess
+            .mockResolvedValueOnce(`{
+                "Local Cache": {
+                    "zlib/1.3": {
+                        "revisions": {
+                            "aaa111": { "timestamp": 1690000000.0 },
+                            "bbb222": { "timestamp": 1700000000.0 }
+                        }
+                    },
+                    "zlib/1.2.13": {
+                        "revisions": {
+                            "ccc333": { "timestamp": 1680000000.0 }
+                        }
+                    },
+                    "fmt/10.1.0": {
+                        "revisions": {
+                            "ddd444": { "timestamp": 1690000000.0 }
+                        }
+                    }
+                }
+            }`)
+            .mockResolvedValueOnce(`{
+                "conancenter": {
+                    "zlib/1.3": {
+                        "revisions": {
+                            "aaa111": { "timestamp": 1690000000.0 }
+                        }
+                    }
+                }
+            }`)
+            .mockResolvedValueOnce(`{
+                "conancenter": {
+                    "error": "Recipe 'fmt/*' not found"
+                }
+            }`);
+
+        let recipes = await conanApi.getRecipesByRemote("conancenter");
+
+        expect(mockedRunConanProcess.mock.calls[1][1]).toStrictEqual(["list", "zlib/*#*", "-r", "conancenter", "--format", "json"]);
+        expect(mockedRunConanProcess.mock.calls[2][1]).toStrictEqual(["list", "fmt/*#*", "-r", "conancenter", "--format", "json"]);
+        expect(mockedRunConanProcess.mock.calls.length).toBe(3);
+        expect(recipes.map(recipe => recipe.name)).toStrictEqual(["zlib/1.3"]);
+        expect(recipes[0].revisions.map(revision => revision.id)).toStrictEqual(["aaa111"]);
+    });
+
+    it("should throw other errors reported by the remote", async () => {
+        mockedRunConanProcess
+            .mockResolvedValueOnce(`{ "Local Cache": { "zlib/1.3": { "revisions": { "aaa111": { "timestamp": 1690000000.0 } } } } }`)
+            .mockResolvedValueOnce(`{ "myremote": { "error": "Permission denied for user: 'foo'" } }`);
+
+        await expect(conanApi.getRecipesByRemote("myremote")).rejects.toThrow("Permission denied");
+    });
+
+    it("should return the binary packages of the local cache that exist on the remote", async () => {
+        mockedRunConanProcess
+            .mockResolvedValueOnce(`{
+                "Local Cache": {
+                    "zlib/1.3": {
+                        "revisions": {
+                            "aaa111": {
+                                "packages": {
+                                    "pkg1": { "info": { "options": {}, "settings": {} } },
+                                    "pkg2": { "info": { "options": {}, "settings": {} } }
+                                }
+                            }
+                        }
+                    }
+                }
+            }`)
+            .mockResolvedValueOnce(`{
+                "conancenter": {
+                    "zlib/1.3": {
+                        "revisions": {
+                            "aaa111": {
+                                "packages": {
+                                    "pkg2": { "info": {} },
+                                    "pkg3": { "info": {} }
+                                }
+                            }
+                        }
+                    }
+                }
+            }`);
+
+        let packages = await conanApi.getPackagesByRemote("zlib/1.3#aaa111", "conancenter");
+
+        expect(mockedRunConanProcess.mock.calls[1][1]).toStrictEqual(["list", "zlib/1.3#aaa111:*", "-r", "conancenter", "--format", "json"]);
+        expect(packages.map(pkg => pkg.id)).toStrictEqual(["pkg2"]);
+    });
+
+    it("should return no binary packages if the recipe does not exist on the remote", async () => {
+        mockedRunConanProcess
+            .mockResolvedValueOnce(`{ "Local Cache": { "zlib/1.3": { "revisions": { "aaa111": { "packages": { "pkg1": { "info": {} } } } } } } }`)
+            .mockRejectedValueOnce(new ConanCommandError("conan list zlib/1.3#aaa111:* -r conancenter", 1, "ERROR: Recipe 'zlib/1.3#aaa111' not found"));
+
+        expect(await conanApi.getPackagesByRemote("zlib/1.3#aaa111", "conancenter")).toStrictEqual([]);
+    });
+});
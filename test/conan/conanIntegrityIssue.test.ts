@@ -0,0 +1,26 @@
+import { ConanIntegrityIssue } from "../../src/conans/model/conanIntegrityIssue";
+
+describe("Conan Integrity Issue", () => {
+
+    it("should parse corrupted recipes and packages of the check output", () => {
+        let issues = ConanIntegrityIssue.parseCheckOutput(
+            "zlib/1.3#aaa111: Manifest mismatch\n" +
+            "Folder: /home/user/.conan2/p/zlib5f7e/e\n" +
+            "fmt/10.1.0@user/channel#ccc333:b647c43bfefae3f830561ca202b6cfd935b56205: Manifest mismatch\n");
+
+        expect(issues.length).toBe(2);
+        expect(issues[0].getReference()).toBe("zlib/1.3#aaa111");
+        expect(issues[0].packageId).toBe("");
+        expect(issues[1].recipe).toBe("fmt/10.1.0@user/channel");
+        expect(issues[1].packageRevision).toBe("");
+        expect(issues[1].getReference()).toBe("fmt/10.1.0@user/channel#ccc333:b647c43bfefae3f830561ca202b6cfd935b56205");
+    });
+
+    it("should ignore intact items and general error messages", () => {
+        let issues = ConanIntegrityIssue.parseCheckOutput(
+            "zlib/1.3#aaa111: Integrity checked: ok\n" +
+            "ERROR: There are corrupted artifacts, check the error logs\n");
+
+        expect(issues.length).toBe(0);
+    });
+});
@@ -0,0 +1,79 @@
+import { ConanLockfile, ConanLockfileReference } from "../../src/conans/model/conanLockfile";
+
+describe("Conan Lockfile", () => {
+
+    it("should parse locked reference with revision and timestamp", () => {
+        let reference = ConanLockfileReference.parse("zlib/1.2.13#97d5730b529b4224045fe7090592d4c1%1692672717.68");
+
+        expect(reference.ref).toBe("zlib/1.2.13");
+        expect(reference.revision).toBe("97d5730b529b4224045fe7090592d4c1");
+        expect(reference.timestamp).toBe(1692672717.68);
+    });
+
+    it("should parse locked reference without revision", () => {
+        let reference = ConanLockfileReference.parse("fmt/10.1.0@user/channel");
+
+        expect(reference.ref).toBe("fmt/10.1.0@user/channel");
+        expect(reference.revision).toBe("");
+        expect(reference.timestamp).toBe(undefined);
+    });
+
+    it("should parse lockfile of Conan 2", () => {
+        let lockfile = ConanLockfile.parse(`{
+            "version": "0.5",
+            "requires": [
+                "zlib/1.2.13#97d5730b529b4224045fe7090592d4c1%1692672717.68",
+                "fmt/10.1.0#a1b2c3%1692672700.0"
+            ],
+            "build_requires": [
+                "cmake/3.27.0#d4e5f6%1692672600.0"
+            ],
+            "python_requires": [],
+            "config_requires": []
+        }`);
+
+        expect(lockfile.version).toBe("0.5");
+        expect(lockfile.requires.map(reference => reference.ref)).toStrictEqual(["zlib/1.2.13", "fmt/10.1.0"]);
+        expect(lockfile.buildRequires[0].revision).toBe("d4e5f6");
+        expect(lockfile.pythonRequires.length).toBe(0);
+    });
+
+    it("should parse lockfile of Conan 1", () => {
+        let lockfile = ConanLockfile.parse(`{
+            "graph_lock": {
+                "nodes": {
+                    "0": { "path": "conanfile.py", "requires": ["1"], "build_requires": ["2"] },
+                    "1": { "ref": "zlib/1.2.11#abc", "python_requires": ["base/1.0#def"] },
+                    "2": { "ref": "cmake/3.21.0#ghi" }
+                },
+                "revisions_enabled": true
+            },
+            "version": "0.4"
+        }`);
+
+        expect(lockfile.version).toBe("0.4");
+        expect(lockfile.requires.map(reference => reference.ref)).toStrictEqual(["zlib/1.2.11"]);
+        expect(lockfile.buildRequires.map(reference => reference.revision)).toStrictEqual(["ghi"]);
+        expect(lockfile.pythonRequires.map(reference => reference.ref)).toStrictEqual(["base/1.0"]);
+    });
+
+    it("should reject lockfile that is no JSON object", () => {
+        expect(() => ConanLockfile.parse(`["zlib/1.2.13"]`)).toThrow("Invalid lockfile: The content has to be a JSON object.");
+    });
+
+    it("should reject lockfile with malformed list of references", () => {
+        expect(() => ConanLockfile.parse(`{ "version": "0.5", "requires": "zlib/1.2.13" }`))
+            .toThrow("Invalid lockfile: 'requires' has to be an array of references.");
+        expect(() => ConanLockfile.parse(`{ "version": "0.5", "build_requires": [{ "ref": "cmake/3.27.0" }] }`))
+            .toThrow("Invalid lockfile: 'build_requires' has to be an array of references.");
+    });
+
+    it("should reject lockfile of Conan 1 with malformed graph", () => {
+        expect(() => ConanLockfile.parse(`{ "graph_lock": { "nodes": [] } }`))
+            .toThrow("Invalid lockfile: 'graph_lock' has to be an object with the object 'nodes'.");
+        expect(() => ConanLockfile.parse(`{ "graph_lock": { "nodes": { "1": { "ref": 1 } } } }`))
+            .toThrow("Invalid lockfile: Node '1' of 'graph_lock' has to be an object with the reference 'ref'.");
+        expect(() => ConanLockfile.parse(`{ "graph_lock": { "nodes": { "0": { "python_requires": "base/1.0" } } } }`))
+            .toThrow("Invalid lockfile: 'graph_lock.nodes.0.python_requires' has to be an array of references.");
+    });
+});
@@ -0,0 +1,93 @@
+import { ConanCommandError, ConanProcessCancelledError, ConanProcessTimeoutError, formatCommandLine, runConanProcess } from "../../src/conans/api/base/conanProcess";
+
+jest.mock('vscode', () => ({}), { virtual: true });
+
+// Use node itself as executable to have a platform independent process
+const node = process.execPath;
+
+describe("Conan Process", () => {
+
+    it("should return the standard output of the process", async () => {
+        expect(await runConanProcess(node, ["-e", "console.log('foo')"])).toBe("foo\n");
+    });
+
+    it("should pass the arguments without shell interpretation", async () => {
+        expect(await runConanProcess(node, ["-e", "console.log(process.argv[1])", "foo bar; echo $(baz)"])).toBe("foo bar; echo $(baz)\n");
+    });
+
+    it("should reject with command error if the process fails", async () => {
+        let error: ConanCommandError = await runConanProcess(node, ["-e", "console.error('ERROR: Remote \\'foo\\' not found in remotes'); process.exit(1)"])
+            .catch(err => err);
+
+        expect(error).toBeInstanceOf(ConanCommandError);
+        expect(error.exitCode).toBe(1);
+        expect(error.stderr).toBe("ERROR: Remote 'foo' not found in remotes\n");
+        expect(error.conanMessage).toBe("Remote 'foo' not found in remotes");
+        expect(error.message).toBe("Remote 'foo' not found in remotes");
+        expect(error.command).toContain(node);
+    });
+
+    it("should reject with command error if the executable does not exist", async () => {
+        let error: ConanCommandError = await runConanProcess("vsconan-executable-does-not-exist", ["--version"]).catch(err => err);
+
+        expect(error).toBeInstanceOf(ConanCommandError);
+        expect(error.exitCode).toBe(null);
+        expect(error.conanMessage).toBe(undefined);
+        expect(error.message).toContain("ENOENT");
+    });
+
+    it("should reject with timeout error if the process takes too long", async () => {
+        await expect(runConanProcess(node, ["-e", "setTimeout(() => {}, 5000)"], { timeout: 100 })).rejects.toBeInstanceOf(ConanProcessTimeoutError);
+    });
+
+    it("should not start the process if the cancellation is already requested", async () => {
+        let token: any = {
+            isCancellationRequested: true,
+            onCancellationRequested: jest.fn()
+        };
+
+        await expect(runConanProcess(node, ["-e", "console.log('foo')"], { token: token })).rejects.toBeInstanceOf(ConanProcessCancelledError);
+        expect(token.onCancellationRequested).not.toHaveBeenCalled();
+    });
+
+    it("should kill the process if the cancellation is requested", async () => {
+        let cancel: () => void = () => { };
+        let token: any = {
+            isCancellationRequested: false,
+            onCancellationRequested: (listener: () => void) => {
+                cancel = listener;
+                return { dispose: jest.fn() };
+            }
+        };
+
+        let process = runConanProcess(node, ["-e", "setTimeout(() => {}, 5000)"], { token: token });
+        cancel();
+
+        await expect(process).rejects.toBeInstanceOf(ConanProcessCancelledError);
+    });
+});
+
+describe("Conan Command Error", () => {
+
+    it("should parse the conan error message", () => {
+        let stderr = "WARN: deprecated\nERROR: Package 'foo/1.0' not resolved\nUnable to find 'foo/1.0' in remotes\n";
+
+        expect(ConanCommandError.parseConanMessage(stderr)).toBe("Package 'foo/1.0' not resolved\nUnable to find 'foo/1.0' in remotes");
+    });
+
+    it("should return undefined if there is no conan error message", () => {
+        expect(ConanCommandError.parseConanMessage("Traceback (most recent call last):\n")).toBe(undefined);
+    });
+
+    it("should use the exit code in the message if there is no conan error message", () => {
+        let error = new ConanCommandError("conan remove foo -c", 2, "");
+
+        expect(error.message).toBe("Conan command failed with exit code 2: 'conan remove foo -c'");
+    });
+
+    it("should quote arguments with whitespace in the command line", () => {
+        expect(formatCommandLine("/opt/my python/python", ["-m", "conans.conan", "remote", "add", "foo", "https://foo.com"]))
+            .toBe("\"/opt/my python/python\" -m conans.conan remote add foo https://foo.com");
+        expect(formatCommandLine("conan", ["list", "*#*"])).toBe("conan list \"*#*\"");
+    });
+});
@@ -7,7 +7,7 @@ import {
     ConfigCommand, ConfigCommandBuild,
     ConfigCommandCreate, ConfigCommandInstall,
     ConfigCommandPackage, ConfigCommandPackageExport,
-    ConfigCommandSource
+    ConfigCommandSource, ConfigPipeline, ConfigPipelineStep
 } from "../../src/conans/command/configCommand";
 
 describe("Conan Config Command basic class ", () => {
@@ -128,6 +128,21 @@ describe("Conan Package Export", () => {
 
 });
 
+describe("Conan Pipeline", () => {
+
+    it("should return original value", () => {
+        let cfg = new ConfigPipeline();
+        let step = new ConfigPipelineStep();
+
+        expect(cfg.name).toBe("pipeline");
+        expect(cfg.description).toBe("Pipeline");
+        expect(cfg.steps.length).toBe(0);
+        expect(step.command).toBe("install");
+        expect(step.name).toBe("install");
+    });
+
+});
+
 describe("Conan Command Container", () => {
 
     it("should initialize with empty list", () => {
@@ -139,6 +154,7 @@ describe("Conan Command Container", () => {
         expect(ctn.source.length).toBe(0);
         expect(ctn.pkg.length).toBe(0);
         expect(ctn.pkgExport.length).toBe(0);
+        expect(ctn.pipelines.length).toBe(0);
 
     });
 
@@ -0,0 +1,139 @@
+import { CommandContainer, ConfigCommandBuild, ConfigCommandCreate, ConfigCommandInstall } from "../../src/conans/command/configCommand";
+import { ConfigValidator } from "../../src/conans/workspace/configValidator";
+import { ConfigWorkspace } from "../../src/conans/workspace/configWorkspace";
+
+describe("Workspace Configuration Validation", () => {
+
+    it("should accept the initial configuration", () => {
+        let configWorkspace = new ConfigWorkspace(new CommandContainer(
+            [new ConfigCommandCreate()],
+            [new ConfigCommandInstall()],
+            [new ConfigCommandBuild()]
+        ));
+
+        expect(ConfigValidator.validateText(configWorkspace.getJsonString())).toStrictEqual([]);
+    });
+
+    it("should report unknown properties with a suggestion", () => {
+        let configText = `{
+    "commandContainer": {
+        "install": [
+            { "name": "install", "instalFolder": "install" }
+        ]
+    }
+}`;
+
+        let issues = ConfigValidator.validateText(configText);
+
+        expect(issues.length).toBe(1);
+        expect(issues[0].message).toBe("Unknown property 'instalFolder'. Did you mean 'installFolder'?");
+        expect(issues[0].getPathString()).toBe("commandContainer.install[0].instalFolder");
+        expect(configText.substring(issues[0].offset, issues[0].offset + issues[0].length)).toBe('"instalFolder"');
+    });
+
+    it("should report properties with wrong types", () => {
+        let configText = `{
+    "commandContainer": {
+        "create": [
+            { "name": "create", "profile": 1, "args": "--build=missing" }
+        ],
+        "build": {}
+    }
+}`;
+
+        let issues = ConfigValidator.validateText(configText);
+
+        expect(issues.map(issue => issue.message)).toStrictEqual([
+            "Property 'profile' has to be a string.",
+            "Property 'args' has to be an array of strings.",
+            "Property 'build' has to be an array of commands."
+        ]);
+        expect(configText.substring(issues[1].offset, issues[1].offset + issues[1].length)).toBe('"--build=missing"');
+    });
+
+    it("should report arguments that combine an option and its value", () => {
+        let configText = `{
+    "commandContainer": {
+        "install": [
+            { "name": "install", "args": ["-s", "build_type=Release", "-pr:h default", "--build=missing"] }
+        ]
+    }
+}`;
+
+        let issues = ConfigValidator.validateText(configText);
+
+        expect(issues.length).toBe(1);
+        expect(issues[0].message).toBe(`Argument '-pr:h default' is passed as one argument. Split the option and its value into separate arguments, e.g. "-pr:h", "default".`);
+        expect(issues[0].getPathString()).toBe("commandContainer.install[0].args[2]");
+        expect(configText.substring(issues[0].offset, issues[0].offset + issues[0].length)).toBe('"-pr:h default"');
+    });
+
+    it("should report duplicate command names", () => {
+        let configText = `{
+    "commandContainer": {
+        "install": [
+            { "name": "debug" },
+            { "name": "release" },
+            { "name": "debug" }
+        ],
+        "build": [
+            { "name": "debug" }
+        ]
+    }
+}`;
+
+        let issues = ConfigValidator.validateText(configText);
+
+        expect(issues.length).toBe(1);
+        expect(issues[0].message).toBe("Duplicate name 'debug' of the 'install' commands.");
+        expect(issues[0].getPathString()).toBe("commandContainer.install[2].name");
+        expect(configText.substring(issues[0].offset, issues[0].offset + issues[0].length)).toBe('"debug"');
+        expect(issues[0].offset).toBeGreaterThan(configText.indexOf('"release"'));
+    });
+
+    it("should report pipeline steps that reference unknown commands", () => {
+        let configText = `{
+    "commandContainer": {
+        "install": [
+            { "name": "install" }
+        ],
+        "pipelines": [
+            {
+                "name": "install-build",
+                "steps": [
+                    { "command": "install", "name": "install" },
+                    { "command": "build", "name": "build" },
+                    { "command": "compile", "name": "build" },
+                    { "command": "install", "nam": "install" }
+                ]
+            },
+            { "name": "install-build", "steps": "install" }
+        ]
+    }
+}`;
+
+        let issues = ConfigValidator.validateText(configText);
+
+        expect(issues.map(issue => issue.message)).toStrictEqual([
+            "There is no 'build' command with the name 'build'.",
+            "Unknown command 'compile'. Valid commands are 'create', 'install', 'build', 'source', 'pkg', 'pkgExport'.",
+            "Unknown property 'nam'. Did you mean 'name'?",
+            "Duplicate name 'install-build' of the pipelines.",
+            "Property 'steps' has to be an array of steps."
+        ]);
+        expect(issues[0].getPathString()).toBe("commandContainer.pipelines[0].steps[1].name");
+        expect(configText.substring(issues[1].offset, issues[1].offset + issues[1].length)).toBe('"compile"');
+    });
+
+    it("should report missing command container and invalid JSON", () => {
+        expect(ConfigValidator.validateText(`{ "commands": {} }`).map(issue => issue.message)).toStrictEqual([
+            "Unknown property 'commands'.",
+            "Missing property 'commandContainer'."
+        ]);
+
+        let issues = ConfigValidator.validateText(`{ "commandContainer": { }`);
+
+        expect(issues.length).toBe(1);
+        expect(issues[0].message).toMatch(/^Invalid JSON/);
+    });
+});
@@ -0,0 +1,95 @@
+import * as path from "path";
+import { ConfigCommandBuild, ConfigCommandInstall } from "../../src/conans/command/configCommand";
+import { ConfigVariableContext, ConfigVariableResolver } from "../../src/conans/workspace/configVariableResolver";
+
+const WORKSPACE_FOLDER = path.resolve("/home/user/project");
+
+function createContext(inputValues: Map<string, string> = new Map<string, string>()): ConfigVariableContext & { prompts: Array<string>, recipeCalls: Array<string> } {
+    let prompts: Array<string> = [];
+    let recipeCalls: Array<string> = [];
+
+    return {
+        workspaceFolder: WORKSPACE_FOLDER,
+        selectedProfile: "gcc-release",
+        getEnv: (name) => new Map<string, string>([["BUILD_TYPE", "Debug"]]).get(name),
+        getConfig: (key) => new Map<string, unknown>([["cmake.generator", "Ninja"], ["vsconan.jobs", 4]]).get(key),
+        getRecipeAttribute: (recipePath, attribute) => {
+            recipeCalls.push(`${recipePath}:${attribute}`);
+            return Promise.resolve(attribute === "name" ? "hello" : "1.2.0");
+        },
+        promptInput: (prompt) => {
+            prompts.push(prompt);
+            return Promise.resolve(inputValues.get(prompt));
+        },
+        prompts: prompts,
+        recipeCalls: recipeCalls
+    };
+}
+
+describe("Workspace Configuration Variables", () => {
+
+    it("should resolve workspace, environment, setting and profile variables", async () => {
+        let resolver = new ConfigVariableResolver(createContext());
+
+        expect(await resolver.resolveText("${workspaceFolder}/build/${env:BUILD_TYPE}", "")).toBe(`${WORKSPACE_FOLDER}/build/Debug`);
+        expect(await resolver.resolveText("-G ${config:cmake.generator} -j ${config:vsconan.jobs}", "")).toBe("-G Ninja -j 4");
+        expect(await resolver.resolveText("${selectedProfile}", "")).toBe("gcc-release");
+    });
+
+    it("should resolve missing values to an empty string and keep unknown variables", async () => {
+        let resolver = new ConfigVariableResolver(createContext());
+
+        expect(await resolver.resolveText("a${env:MISSING}b${config:missing.key}c", "")).toBe("abc");
+        expect(await resolver.resolveText("${unknown} ${env:}", "")).toBe("${unknown} ${env:}");
+    });
+
+    it("should ask for each input only once", async () => {
+        let context = createContext(new Map<string, string>([["Version", "2.0.0"]]));
+        let resolver = new ConfigVariableResolver(context);
+
+        expect(await resolver.resolveText("${input:Version}-${input:Version}", "")).toBe("2.0.0-2.0.0");
+        expect(context.prompts).toStrictEqual(["Version"]);
+    });
+
+    it("should return undefined if an input is cancelled", async () => {
+        let resolver = new ConfigVariableResolver(createContext());
+        let installConfig = new ConfigCommandInstall();
+        installConfig.profile = "${input:Profile}";
+
+        expect(await resolver.resolveText("${input:Profile}", "")).toBeUndefined();
+        expect(await resolver.resolveCommand(installConfig)).toBeUndefined();
+    });
+
+    it("should resolve all fields of a command and keep the original unchanged", async () => {
+        let context = createContext();
+        let resolver = new ConfigVariableResolver(context);
+        let installConfig = new ConfigCommandInstall();
+        installConfig.conanRecipe = "${env:BUILD_TYPE}/conanfile.py";
+        installConfig.installFolder = "install/${recipe.name}-${recipe.version}";
+        installConfig.profile = "${selectedProfile}";
+        installConfig.args = ["--build=missing", "-s build_type=${env:BUILD_TYPE}"];
+
+        let resolvedConfig = await resolver.resolveCommand(installConfig);
+
+        expect(resolvedConfig).toBeInstanceOf(ConfigCommandInstall);
+        expect(resolvedConfig!.conanRecipe).toBe("Debug/conanfile.py");
+        expect(resolvedConfig!.installFolder).toBe("install/hello-1.2.0");
+        expect(resolvedConfig!.profile).toBe("gcc-release");
+        expect(resolvedConfig!.args).toStrictEqual(["--build=missing", "-s build_type=Debug"]);
+        expect(installConfig.installFolder).toBe("install/${recipe.name}-${recipe.version}");
+
+        let recipePath = path.resolve(WORKSPACE_FOLDER, "Debug/conanfile.py");
+        expect(context.recipeCalls).toStrictEqual([`${recipePath}:name`, `${recipePath}:version`]);
+    });
+
+    it("should not read the recipe without a configured recipe", async () => {
+        let context = createContext();
+        let resolver = new ConfigVariableResolver(context);
+        let buildConfig = new ConfigCommandBuild();
+        buildConfig.conanRecipe = "";
+        buildConfig.buildFolder = "build/${recipe.name}";
+
+        expect((await resolver.resolveCommand(buildConfig))!.buildFolder).toBe("build/");
+        expect(context.recipeCalls).toStrictEqual([]);
+    });
+});
@@ -0,0 +1,97 @@
+import { CommandContainer, ConfigCommandBuild, ConfigCommandInstall, ConfigCommandSource, ConfigPipeline, ConfigPipelineStep } from "../../src/conans/command/configCommand";
+import { PipelineExecution, PipelineStepStatus } from "../../src/conans/workspace/pipelineExecution";
+
+const COMMAND_CONTAINER = new CommandContainer(
+    [],
+    [new ConfigCommandInstall(), new ConfigCommandInstall("install-debug")],
+    [new ConfigCommandBuild()],
+    [new ConfigCommandSource()]
+);
+
+const PIPELINE = new ConfigPipeline("source-build", "Source and build", [
+    new ConfigPipelineStep("source", "source"),
+    new ConfigPipelineStep("install", "install-debug"),
+    new ConfigPipelineStep("build", "build")
+]);
+
+describe("Workspace Pipeline Execution", () => {
+
+    it("should find the configured command of each step", () => {
+        let execution = new PipelineExecution(PIPELINE, COMMAND_CONTAINER);
+
+        expect(execution.stepStates.map(stepState => stepState.config)).toStrictEqual([
+            COMMAND_CONTAINER.source[0], COMMAND_CONTAINER.install[1], COMMAND_CONTAINER.build[0]
+        ]);
+        expect(execution.stepStates.every(stepState => stepState.status === PipelineStepStatus.pending)).toBe(true);
+    });
+
+    it("should throw an error for steps with an unknown command", () => {
+        let unknownName = new ConfigPipeline("pipeline", "", [new ConfigPipelineStep("build", "build-release")]);
+        let unknownType = new ConfigPipeline("pipeline", "", [new ConfigPipelineStep("pipelines", "pipeline")]);
+
+        expect(() => new PipelineExecution(unknownName, COMMAND_CONTAINER)).toThrow("Unable to find the 'build' command 'build-release' of the pipeline step.");
+        expect(() => new PipelineExecution(unknownType, COMMAND_CONTAINER)).toThrow("Unknown command 'pipelines' in the pipeline step 'pipeline'.");
+    });
+
+    it("should execute all steps in order", async () => {
+        let execution = new PipelineExecution(PIPELINE, COMMAND_CONTAINER);
+        let executedSteps: Array<string> = [];
+
+        let succeeded = await execution.run(stepState => {
+            executedSteps.push(stepState.config.name);
+            expect(execution.isRunning()).toBe(true);
+            return Promise.resolve(0);
+        });
+
+        expect(succeeded).toBe(true);
+        expect(executedSteps).toStrictEqual(["source", "install-debug", "build"]);
+        expect(execution.isRunning()).toBe(false);
+        expect(execution.getSummary(status => `[${status}]`)).toBe("[succeeded] source → [succeeded] install-debug → [succeeded] build");
+    });
+
+    it("should stop at the first step with a non-zero exit code", async () => {
+        let execution = new PipelineExecution(PIPELINE, COMMAND_CONTAINER);
+        let executedSteps: Array<string> = [];
+
+        let succeeded = await execution.run(stepState => {
+            executedSteps.push(stepState.config.name);
+            return Promise.resolve(stepState.step.command === "install" ? 1 : 0);
+        });
+
+        expect(succeeded).toBe(false);
+        expect(executedSteps).toStrictEqual(["source", "install-debug"]);
+        expect(execution.stepStates.map(stepState => stepState.status)).toStrictEqual([
+            PipelineStepStatus.succeeded, PipelineStepStatus.failed, PipelineStepStatus.skipped
+        ]);
+        expect(execution.stepStates[1].exitCode).toBe(1);
+    });
+
+    it("should stop at cancelled steps and steps that throw an error", async () => {
+        let execution = new PipelineExecution(PIPELINE, COMMAND_CONTAINER);
+
+        expect(await execution.run(() => Promise.resolve(undefined))).toBe(false);
+        expect(execution.stepStates.map(stepState => stepState.status)).toStrictEqual([
+            PipelineStepStatus.cancelled, PipelineStepStatus.skipped, PipelineStepStatus.skipped
+        ]);
+
+        expect(await execution.run(() => Promise.reject(new Error("Unable to build command")))).toBe(false);
+        expect(execution.stepStates[0].status).toBe(PipelineStepStatus.failed);
+    });
+
+    it("should report each status change", async () => {
+        let execution = new PipelineExecution(PIPELINE, COMMAND_CONTAINER);
+        let summaries: Array<string> = [];
+
+        await execution.run(() => Promise.resolve(0), () => summaries.push(execution.getSummary(status => status[0])));
+
+        expect(summaries).toStrictEqual([
+            "p source → p install-debug → p build",
+            "r source → p install-debug → p build",
+            "s source → p install-debug → p build",
+            "s source → r install-debug → p build",
+            "s source → s install-debug → p build",
+            "s source → s install-debug → r build",
+            "s source → s install-debug → s build"
+        ]);
+    });
+});
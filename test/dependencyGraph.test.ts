@@ -0,0 +1,82 @@
+jest.mock('vscode', () => ({}), { virtual: true });
+
+import { ConanDependencyGraph, ConanDependencyNode } from "../src/conans/model/conanDependencyGraph";
+import { createDotGraph, createGraphHtml, findConflictingNodes, layoutDependencyGraph } from "../src/extension/ui/webview/conanDependencyGraphPanel";
+
+/**
+ * The consumer requires liba, libb and cmake (build context).
+ * liba and libb both require zlib/1.3 (diamond), libb requires zlib/1.2.13 in addition.
+ */
+function createGraph(): ConanDependencyGraph {
+    let nodes = new Map<string, ConanDependencyNode>();
+
+    nodes.set("0", new ConanDependencyNode("0", "conanfile.py (app/1.0.0)", "", "", "host", ["1", "2", "3"]));
+    nodes.set("1", new ConanDependencyNode("1", "liba/1.0.0", "aaa", "Cache", "host", ["4"]));
+    nodes.set("2", new ConanDependencyNode("2", "libb/1.0.0", "bbb", "Download", "host", ["4", "5"]));
+    nodes.set("3", new ConanDependencyNode("3", "cmake/3.27.0", "ccc", "Build", "build", []));
+    nodes.set("4", new ConanDependencyNode("4", "zlib/1.3", "ddd", "Missing", "host", []));
+    nodes.set("5", new ConanDependencyNode("5", "zlib/1.2.13", "eee", "Cache", "host", []));
+
+    return new ConanDependencyGraph("0", nodes);
+}
+
+describe("Dependency Graph Visualization", () => {
+
+    it("should place every node below its deepest dependant", () => {
+        let layout = layoutDependencyGraph(createGraph());
+        let levelOf = (id: string) => layout.nodes.find(node => node.id === id)!.y;
+
+        expect(layout.nodes.length).toBe(6);
+        expect(layout.edges.length).toBe(6);
+
+        expect(levelOf("0")).toBeLessThan(levelOf("1"));
+        expect(levelOf("1")).toBe(levelOf("2"));
+        expect(levelOf("1")).toBe(levelOf("3"));
+        expect(levelOf("4")).toBeGreaterThan(levelOf("1"));
+        expect(levelOf("4")).toBe(levelOf("5"));
+    });
+
+    it("should not overlap nodes of the same layer", () => {
+        let layout = layoutDependencyGraph(createGraph());
+        let layer = layout.nodes.filter(node => node.y === layout.nodes.find(item => item.id === "1")!.y);
+
+        for (let i = 1; i < layer.length; i++) {
+            expect(layer[i].x).toBeGreaterThanOrEqual(layer[i - 1].x + layer[i - 1].width);
+        }
+    });
+
+    it("should survive cycles in the graph", () => {
+        let graph = createGraph();
+        graph.nodes.get("4")!.requires.push("2");
+
+        let layout = layoutDependencyGraph(graph);
+
+        expect(layout.nodes.length).toBe(6);
+    });
+
+    it("should find packages with multiple versions in the same context", () => {
+        expect([...findConflictingNodes(createGraph())].sort()).toStrictEqual(["4", "5"]);
+    });
+
+    it("should export the graph in DOT format", () => {
+        let dot = createDotGraph(createGraph());
+
+        expect(dot.startsWith("digraph \"conan\" {")).toBe(true);
+        expect(dot).toContain("\"1\" [label=\"liba/1.0.0\\nCache\", fillcolor=\"#388a34\", style=\"rounded,filled\"];");
+        expect(dot).toContain("\"3\" [label=\"cmake/3.27.0\\nBuild\", fillcolor=\"#d18616\", style=\"rounded,filled,dashed\"];");
+        expect(dot).toContain("\"4\" [label=\"zlib/1.3\\nMissing\", fillcolor=\"#e51400\", style=\"rounded,filled\", color=\"#ff0000\", penwidth=3];");
+        expect(dot).toContain("\"0\" -> \"3\";");
+        expect(dot).toContain("\"2\" -> \"5\";");
+    });
+
+    it("should escape the references in the HTML page", () => {
+        let graph = createGraph();
+        graph.nodes.get("1")!.ref = "</script><script>alert(1)</script>";
+
+        let html = createGraphHtml("Graph <app>", graph);
+
+        expect(html).toContain("<title>Graph &lt;app&gt;</title>");
+        expect(html).not.toContain("</script><script>alert(1)");
+        expect(html).not.toContain("Content-Security-Policy");
+    });
+});
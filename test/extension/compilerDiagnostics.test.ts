@@ -0,0 +1,51 @@
+import { mockModule } from "../mocks/mockModule";
+import * as path from "path";
+import { VSConanCompilerDiagnostics } from "../../src/extension/manager/compilerDiagnostics";
+
+const mockDiagnostics = new Map<string, Array<any>>();
+
+jest.mock('vscode', () => ({
+    ...mockModule(new Map<string, any>([
+        ["Uri", { file: (fsPath: string) => ({ fsPath: fsPath }) }],
+        ["Range", class {
+            constructor(public startLine: number, public startCharacter: number, public endLine: number, public endCharacter: number) { }
+            isEqual(other: any) {
+                return JSON.stringify(this) === JSON.stringify(other);
+            }
+        }],
+        ["Diagnostic", class {
+            constructor(public range: any, public message: string, public severity: number) { }
+        }],
+        ["DiagnosticSeverity", mockModule(new Map([["Error", 0], ["Warning", 1], ["Information", 2]]))]
+    ])),
+    languages: {
+        createDiagnosticCollection: () => ({
+            set: (uri: { fsPath: string }, diagnostics: Array<any>) => mockDiagnostics.set(uri.fsPath, [...diagnostics]),
+            clear: () => mockDiagnostics.clear(),
+            dispose: () => { }
+        })
+    },
+    workspace: {
+        workspaceFolders: []
+    }
+}), { virtual: true });
+
+const WORKSPACE_FOLDER = path.resolve("/home/user/hello");
+
+describe("Compiler Diagnostics", () => {
+
+    it("should parse the interleaved standard and error output separately", () => {
+        let compilerDiagnostics = new VSConanCompilerDiagnostics();
+        let outputHandler = compilerDiagnostics.createOutputHandler(WORKSPACE_FOLDER);
+
+        outputHandler.append("src/hello.cpp:10:5: err", "stderr");
+        outputHandler.append("[ 50%] Building CXX object CMakeFiles/hello.dir/src/hello.cpp.o\n", "stdout");
+        outputHandler.append("or: expected ';'\n", "stderr");
+        outputHandler.append("src/hello.cpp:11:1: warning: unused", "stdout");
+        outputHandler.flush();
+
+        expect(mockDiagnostics.get(path.join(WORKSPACE_FOLDER, "src", "hello.cpp"))!.map(diagnostic => [diagnostic.message, diagnostic.severity])).toStrictEqual([["expected ';'", 0], ["unused", 1]]);
+
+        compilerDiagnostics.dispose();
+    });
+});
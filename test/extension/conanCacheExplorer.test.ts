@@ -0,0 +1,121 @@
+import { mockModule } from "../mocks/mockModule";
+import { ConanAPIManager } from "../../src/conans/api/conanAPIManager";
+import { RecipeFolderOption } from "../../src/conans/conan/api/conanAPI";
+import { ConanPackage } from "../../src/conans/model/conanPackage";
+import { ConanCacheExplorerManager } from "../../src/extension/manager/explorer/conanCache";
+import { SettingsPropertyManager } from "../../src/extension/settings/settingsPropertyManager";
+import { ConanPackageNodeProvider } from "../../src/extension/ui/treeview/conanPackageProvider";
+import { ConanPackageRevisionNodeProvider } from "../../src/extension/ui/treeview/conanPackageRevisionProvider";
+import { ConanRecipeItem, ConanRecipeNodeProvider } from "../../src/extension/ui/treeview/conanRecipeProvider";
+
+const mockCommands = new Map<string, (...args: any[]) => any>();
+const mockExecuteCommand = jest.fn();
+const mockShowQuickPick = jest.fn();
+
+jest.mock('vscode', () => ({
+    ...mockModule(new Map([["Uri", { file: (fsPath: string) => ({ fsPath: fsPath }) }]])),
+    window: {
+        createTreeView: () => ({ dispose: () => { } }),
+        showQuickPick: (...args: any[]) => mockShowQuickPick(...args),
+        showErrorMessage: jest.fn()
+    },
+    commands: {
+        registerCommand: (command: string, callback: (...args: any[]) => any) => {
+            mockCommands.set(command, callback);
+            return { dispose: () => mockCommands.delete(command) };
+        },
+        executeCommand: (...args: any[]) => mockExecuteCommand(...args)
+    }
+}), { virtual: true });
+
+// The explorer manager only needs the item classes of the treeviews, the node providers are not used by the folder commands
+jest.mock('../../src/extension/ui/treeview/conanRecipeProvider', () => mockModule(new Map([["ConanRecipeItem", class { }], ["ConanRecipeRevisionItem", class { }]])));
+jest.mock('../../src/extension/ui/treeview/conanPackageProvider', () => mockModule(new Map([["ConanPackageItem", class { }]])));
+jest.mock('../../src/extension/ui/treeview/conanPackageRevisionProvider', () => mockModule(new Map([["ConanPackageRevisionItem", class { }]])));
+
+/** Recipe item with its revisions, the latest revision first */
+const RECIPE_ITEM = {
+    label: "zlib/1.3",
+    revisionItems: [
+        { getReference: () => "zlib/1.3#b3b71bfe8dd07abc7b82ff2bd0eac021" },
+        { getReference: () => "zlib/1.3#0a3b3f1d4f6b5e0a9c0d2e6c7f1b8a94" }
+    ]
+} as unknown as ConanRecipeItem;
+
+let getPackages: jest.Mock;
+let getFolderPathFromRecipe: jest.Mock;
+let manager: ConanCacheExplorerManager;
+
+/**
+ * Execute a registered command and wait until the asynchronous command handler is finished
+ */
+async function executeRegisteredCommand(command: string, ...args: any[]) {
+    mockCommands.get(command)!(...args);
+    await new Promise(resolve => setImmediate(resolve));
+}
+
+beforeEach(() => {
+    mockExecuteCommand.mockReset();
+    mockShowQuickPick.mockReset();
+
+    getPackages = jest.fn().mockResolvedValue([new ConanPackage("pkg1", false, {}, false, {}, {}, "")]);
+    getFolderPathFromRecipe = jest.fn().mockResolvedValue("/home/user/.conan2/p/b/zlib1f0b2c6d8e5a1/b");
+
+    let conanApiManager = {
+        conanVersion: "2",
+        conanApi: { getPackages: getPackages, getFolderPathFromRecipe: getFolderPathFromRecipe }
+    } as unknown as ConanAPIManager;
+
+    manager = new ConanCacheExplorerManager({} as any, { appendLine: jest.fn() } as any, conanApiManager,
+        {} as SettingsPropertyManager, {} as ConanRecipeNodeProvider, {} as ConanPackageNodeProvider, {} as ConanPackageRevisionNodeProvider);
+});
+
+afterEach(() => {
+    manager.dispose();
+});
+
+describe("Conan Cache Explorer Recipe Folders", () => {
+
+    it("should open the build folder of a binary package of the latest recipe revision with Conan 2", async () => {
+        await executeRegisteredCommand("vsconan.explorer.treeview.recipe.item.open.vscode.build", RECIPE_ITEM);
+
+        expect(getPackages).toHaveBeenCalledWith("zlib/1.3#b3b71bfe8dd07abc7b82ff2bd0eac021");
+        expect(getFolderPathFromRecipe).toHaveBeenCalledWith("zlib/1.3#b3b71bfe8dd07abc7b82ff2bd0eac021:pkg1", RecipeFolderOption.build);
+        expect(mockShowQuickPick).not.toHaveBeenCalled();
+        expect(mockExecuteCommand).toHaveBeenCalledWith("vscode.openFolder", { fsPath: "/home/user/.conan2/p/b/zlib1f0b2c6d8e5a1/b" }, true);
+    });
+
+    it("should let the user select the binary package if the recipe revision has several packages", async () => {
+        getPackages.mockResolvedValue([
+            new ConanPackage("pkg1", false, {}, false, {}, {}, ""),
+            new ConanPackage("pkg2", false, {}, false, {}, {}, "")
+        ]);
+        mockShowQuickPick.mockResolvedValue("pkg2");
+
+        await executeRegisteredCommand("vsconan.explorer.treeview.recipe.item.open.explorer.build", RECIPE_ITEM);
+
+        expect(mockShowQuickPick.mock.calls[0][0]).toStrictEqual(["pkg1", "pkg2"]);
+        expect(getFolderPathFromRecipe).toHaveBeenCalledWith("zlib/1.3#b3b71bfe8dd07abc7b82ff2bd0eac021:pkg2", RecipeFolderOption.build);
+        expect(mockExecuteCommand).toHaveBeenCalledWith("revealFileInOS", { fsPath: "/home/user/.conan2/p/b/zlib1f0b2c6d8e5a1/b" });
+    });
+
+    it("should not open a folder if the selection of the binary package is cancelled", async () => {
+        getPackages.mockResolvedValue([
+            new ConanPackage("pkg1", false, {}, false, {}, {}, ""),
+            new ConanPackage("pkg2", false, {}, false, {}, {}, "")
+        ]);
+        mockShowQuickPick.mockResolvedValue(undefined);
+
+        await executeRegisteredCommand("vsconan.explorer.treeview.recipe.item.open.vscode.build", RECIPE_ITEM);
+
+        expect(getFolderPathFromRecipe).not.toHaveBeenCalled();
+        expect(mockExecuteCommand).not.toHaveBeenCalled();
+    });
+
+    it("should use the recipe reference for the other folders", async () => {
+        await executeRegisteredCommand("vsconan.explorer.treeview.recipe.item.open.vscode.source", RECIPE_ITEM);
+
+        expect(getPackages).not.toHaveBeenCalled();
+        expect(getFolderPathFromRecipe).toHaveBeenCalledWith("zlib/1.3", RecipeFolderOption.source);
+    });
+});
@@ -0,0 +1,86 @@
+import { mockModule } from "../mocks/mockModule";
+import * as path from "path";
+import { CommandContainer, ConfigCommandBuild, ConfigCommandInstall } from "../../src/conans/command/configCommand";
+import { CommandBuilderFactory } from "../../src/conans/command/commandBuilderFactory";
+import { ConanTaskEnvironment, ConanTaskProvider } from "../../src/extension/manager/conanTaskProvider";
+import * as utils from "../../src/utils/utils";
+
+jest.mock('vscode', () => ({
+    ...mockModule(new Map<string, any>([
+        ["ShellExecution", class {
+            constructor(public command: any, public args: Array<any>, public options: any) { }
+        }],
+        ["Task", class {
+            public group: any;
+            public detail: string | undefined;
+            constructor(public definition: any, public scope: any, public name: string, public source: string, public execution: any, public problemMatchers: Array<string>) { }
+        }],
+        ["TaskGroup", mockModule(new Map([["Build", "build"]]))],
+        ["ShellQuoting", mockModule(new Map([["Strong", 2]]))]
+    ])),
+    workspace: {
+        workspaceFolders: [],
+        getConfiguration: () => ({ get: () => undefined })
+    }
+}), { virtual: true });
+
+const WORKSPACE_FOLDER = { uri: { fsPath: path.resolve("/home/user/hello") }, name: "hello", index: 0 };
+const TOKEN = { isCancellationRequested: false, onCancellationRequested: jest.fn() };
+
+let buildConfig = new ConfigCommandBuild("build-debug");
+buildConfig.args = ["-s", "build_type=Debug"];
+
+let installConfig = new ConfigCommandInstall("install-python");
+installConfig.conanRecipe = "hello world/conanfile.py";
+installConfig.profile = "my profile";
+
+let taskEnvironment: ConanTaskEnvironment;
+let outputChannel = { appendLine: jest.fn() };
+let taskProvider = new ConanTaskProvider(outputChannel as any, () => Promise.resolve(taskEnvironment), () => Promise.resolve(""));
+
+beforeEach(() => {
+    taskEnvironment = {
+        conanCommand: ["conan"],
+        conanVersion: "2",
+        commandBuilder: CommandBuilderFactory.getCommandBuilder("2")!,
+        env: {}
+    };
+
+    jest.spyOn(utils.vsconan.config, "readWorkspaceConfig").mockReturnValue({
+        commandContainer: new CommandContainer([], [installConfig], [buildConfig])
+    } as any);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("Conan Task Provider", () => {
+
+    it("should pass each argument of the configured command as a quoted argument of the shell execution", async () => {
+        let task: any = await taskProvider.resolveTask({ definition: { type: "conan", command: "build", config: "build-debug" }, scope: WORKSPACE_FOLDER } as any, TOKEN);
+
+        expect(task.name).toBe("build: build-debug");
+        expect(task.group).toBe("build");
+        expect(task.execution.command).toStrictEqual({ value: "conan", quoting: 2 });
+        expect(task.execution.args.map((arg: any) => arg.value)).toStrictEqual(["build", path.join(WORKSPACE_FOLDER.uri.fsPath, "conanfile.py"), "-s", "build_type=Debug"]);
+        expect(task.execution.args.every((arg: any) => arg.quoting === 2)).toBe(true);
+        expect(task.execution.options.cwd).toBe(WORKSPACE_FOLDER.uri.fsPath);
+    });
+
+    it("should pass the arguments of the python interpreter before the conan subcommand without escaping whitespaces", async () => {
+        taskEnvironment.conanCommand = ["/opt/python 3/bin/python", "-m", "conans.conan"];
+
+        let task: any = await taskProvider.resolveTask({ definition: { type: "conan", command: "install", config: "install-python" }, scope: WORKSPACE_FOLDER } as any, TOKEN);
+
+        expect(task.execution.command.value).toBe("/opt/python 3/bin/python");
+        expect(task.execution.args.map((arg: any) => arg.value)).toStrictEqual(["-m", "conans.conan", "install", path.join(WORKSPACE_FOLDER.uri.fsPath, "hello world", "conanfile.py"), "-pr", "my profile"]);
+    });
+
+    it("should not resolve tasks of unknown commands", async () => {
+        let task = await taskProvider.resolveTask({ definition: { type: "conan", command: "pipelines", config: "build-debug" }, scope: WORKSPACE_FOLDER } as any, TOKEN);
+
+        expect(task).toBeUndefined();
+        expect(outputChannel.appendLine).toHaveBeenCalledWith(expect.stringContaining("Unable to find the 'pipelines' command 'build-debug'"));
+    });
+});
@@ -0,0 +1,11 @@
+/**
+ * Create a mocked module from its exports, whose names don't follow the naming convention of object literals, e.g. classes
+ * @param moduleExports Exported names of the module with their values
+ * @returns Mocked module
+ */
+export function mockModule(moduleExports: Map<string, any>): { [name: string]: any } {
+    let mockedModule: { [name: string]: any } = {};
+    moduleExports.forEach((value, name) => mockedModule[name] = value);
+
+    return mockedModule;
+}
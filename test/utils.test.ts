@@ -2,6 +2,7 @@ import * as vscode from "./mocks/vscode";
 jest.mock('vscode', () => vscode, { virtual: true });
 
 import * as utils from "../src/utils/utils";
+import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 
@@ -46,6 +47,48 @@ describe("General", () => {
         expect(profile.conanPythonInterpreter).toBe("python");
         expect(profile.conanUserHome).toBe(undefined);
     });
+
+    it("should format sizes in human readable units", () => {
+        expect(general.formatSize(0)).toBe("0 B");
+        expect(general.formatSize(512)).toBe("512 B");
+        expect(general.formatSize(1536)).toBe("1.5 KB");
+        expect(general.formatSize(5 * 1024 * 1024)).toBe("5.0 MB");
+        expect(general.formatSize(3 * 1024 * 1024 * 1024 * 1024)).toBe("3.0 TB");
+    });
+
+    it("should calculate the size of a folder including its subfolders", async () => {
+        let folderPath = fs.mkdtempSync(path.join(os.tmpdir(), "vsconan-"));
+
+        try {
+            fs.mkdirSync(path.join(folderPath, "sub"));
+            fs.writeFileSync(path.join(folderPath, "a.txt"), "x".repeat(100));
+            fs.writeFileSync(path.join(folderPath, "sub", "b.txt"), "x".repeat(50));
+
+            expect(await general.getFolderSize(folderPath)).toBe(150);
+            expect(await general.getFolderSize(path.join(folderPath, "missing"))).toBe(0);
+        }
+        finally {
+            fs.rmSync(folderPath, { recursive: true, force: true });
+        }
+    });
+
+    it("should return the latest access time of the files in a folder", async () => {
+        let folderPath = fs.mkdtempSync(path.join(os.tmpdir(), "vsconan-"));
+
+        try {
+            fs.mkdirSync(path.join(folderPath, "sub"));
+            fs.writeFileSync(path.join(folderPath, "a.txt"), "a");
+            fs.writeFileSync(path.join(folderPath, "sub", "b.txt"), "b");
+            fs.utimesSync(path.join(folderPath, "a.txt"), new Date(2020, 0, 1), new Date(2020, 0, 1));
+            fs.utimesSync(path.join(folderPath, "sub", "b.txt"), new Date(2022, 0, 1), new Date(2022, 0, 1));
+
+            expect(await general.getLatestAccessTime(folderPath)).toBe(new Date(2022, 0, 1).getTime());
+            expect(await general.getLatestAccessTime(path.join(folderPath, "missing"))).toBe(0);
+        }
+        finally {
+            fs.rmSync(folderPath, { recursive: true, force: true });
+        }
+    });
 });
 
 describe("VSConan Utils", () => {
@@ -113,25 +156,100 @@ describe("Workspace", ()=>{
         
     });
 
-    it("should escape the white space with relative path", () => {
+    it("should keep the white space with relative path", () => {
         let workspacePath = "/path/to/workspace/";
 
         let pathName = "relative/path/to/some file";
 
         let realPath = workspace.getAbsolutePathFromWorkspace(workspacePath, pathName);
 
-        expect(realPath).toEqual("/path/to/workspace/relative/path/to/some\\ file");
+        expect(realPath).toEqual("/path/to/workspace/relative/path/to/some file");
         
     });
 
-    it("should get the absolute path with escaped whitespace", () => {
+    it("should get the absolute path with whitespace", () => {
         let workspacePath = "/path/to/workspace";
 
         let pathName = "/absolute/path/to/some file";
 
         let realPath = workspace.getAbsolutePathFromWorkspace(workspacePath, pathName);
 
-        expect(realPath).toEqual("/absolute/path/to/some\\ file");
+        expect(realPath).toEqual("/absolute/path/to/some file");
         
     });
 });
+
+describe("Conan", () => {
+    it("should create the login environment variables of a remote", () => {
+        let env = utils.conan.getRemoteCredentialEnv("my-remote.local", "john", "secret");
+
+        expect(Object.keys(env).length).toBe(2);
+        expect(env["CONAN_LOGIN_USERNAME_MY_REMOTE.LOCAL"]).toBe("john");
+        expect(env["CONAN_PASSWORD_MY_REMOTE.LOCAL"]).toBe("secret");
+    });
+
+    it("should keep the dots of the remote name like conan", () => {
+        let env = utils.conan.getRemoteCredentialEnv("artifactory.example.com", "john", "secret");
+
+        expect(Object.keys(env)).toStrictEqual(["CONAN_LOGIN_USERNAME_ARTIFACTORY.EXAMPLE.COM", "CONAN_PASSWORD_ARTIFACTORY.EXAMPLE.COM"]);
+    });
+
+    it("should distinguish package IDs from settings queries", () => {
+        expect(utils.conan.isPackageId("b647c43bfefae3f830561ca202b6cfd935b56205")).toBe(true);
+        expect(utils.conan.isPackageId("os=Linux AND arch=x86_64")).toBe(false);
+        expect(utils.conan.isPackageId("")).toBe(false);
+    });
+
+    it("should validate recipe references", () => {
+        expect(utils.conan.isValidReference("zlib/1.3")).toBe(true);
+        expect(utils.conan.isValidReference("foo/1.0.0@user/channel")).toBe(true);
+        expect(utils.conan.isValidReference("zlib/1.3#f2f48bf1a2a2b9d4c7c7e0a2e0cf4a37")).toBe(true);
+        expect(utils.conan.isValidReference("zlib")).toBe(false);
+        expect(utils.conan.isValidReference("zlib/1.3@user")).toBe(false);
+        expect(utils.conan.isValidReference("zlib/1.3 -r foo")).toBe(false);
+    });
+
+    it("should match recipe references against wildcard patterns", () => {
+        expect(utils.conan.matchReferencePattern("zlib/1.3", "*")).toBe(true);
+        expect(utils.conan.matchReferencePattern("zlib/1.3", "zlib/*")).toBe(true);
+        expect(utils.conan.matchReferencePattern("zlib/1.3", "zlib/1.?")).toBe(true);
+        expect(utils.conan.matchReferencePattern("zlib/1.3", "zlib/1.3")).toBe(true);
+        expect(utils.conan.matchReferencePattern("zlib/1.3", "zlib")).toBe(false);
+        expect(utils.conan.matchReferencePattern("zlib/123", "zlib/1.3")).toBe(false);
+        expect(utils.conan.matchReferencePattern("boost/1.83.0", "zlib/*")).toBe(false);
+    });
+
+    it("should filter recipe references by text, pattern and version range", () => {
+        expect(utils.conan.matchReferenceFilter("boost/1.83.0", "boost")).toBe(true);
+        expect(utils.conan.matchReferenceFilter("boost/1.83.0", "BOO")).toBe(true);
+        expect(utils.conan.matchReferenceFilter("boost/1.83.0", "zlib")).toBe(false);
+        expect(utils.conan.matchReferenceFilter("boost/1.83.0", "boost/*")).toBe(true);
+        expect(utils.conan.matchReferenceFilter("foo/1.0@mycompany/stable", "*@mycompany/stable")).toBe(true);
+        expect(utils.conan.matchReferenceFilter("foo/1.0", "*@mycompany/stable")).toBe(false);
+        expect(utils.conan.matchReferenceFilter("zlib/1.2.13", "zlib/[>=1.2 <1.3]")).toBe(true);
+        expect(utils.conan.matchReferenceFilter("zlib/1.3", "zlib/[>=1.2 <1.3]")).toBe(false);
+        expect(utils.conan.matchReferenceFilter("zlib/1.2.13@user/channel", "zlib/[>=1.2 <1.3]")).toBe(false);
+        expect(utils.conan.matchReferenceFilter("zlib/1.2.13@user/channel", "zlib/[>=1.2 <1.3]@user/*")).toBe(true);
+    });
+
+    it("should match versions against conan version ranges", () => {
+        expect(utils.conan.matchVersionRange("1.2.13", ">=1.2 <1.3")).toBe(true);
+        expect(utils.conan.matchVersionRange("1.10.0", ">1.9")).toBe(true);
+        expect(utils.conan.matchVersionRange("1.2.5", "~1.2")).toBe(true);
+        expect(utils.conan.matchVersionRange("1.3.0", "~1.2")).toBe(false);
+        expect(utils.conan.matchVersionRange("1.9", "^1.2")).toBe(true);
+        expect(utils.conan.matchVersionRange("2.0", "^1.2")).toBe(false);
+        expect(utils.conan.matchVersionRange("0.3.1", "^0.2")).toBe(false);
+        expect(utils.conan.matchVersionRange("3.0", "<2 || 3.0")).toBe(true);
+        expect(utils.conan.matchVersionRange("3.1", "*")).toBe(true);
+        expect(utils.conan.matchVersionRange("1.3.0-beta", ">=1.0")).toBe(false);
+        expect(utils.conan.matchVersionRange("1.3.0-beta", ">=1.0, include_prerelease")).toBe(true);
+    });
+
+    it("should compare versions item by item", () => {
+        expect(utils.conan.compareVersions("1.10", "1.9")).toBeGreaterThan(0);
+        expect(utils.conan.compareVersions("1.2", "1.2.0")).toBe(0);
+        expect(utils.conan.compareVersions("1.2.0-beta", "1.2.0")).toBeLessThan(0);
+        expect(utils.conan.compareVersions("1.2.0-alpha", "1.2.0-beta")).toBeLessThan(0);
+    });
+});